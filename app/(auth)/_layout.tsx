@@ -1,9 +1,17 @@
 import { Stack } from 'expo-router';
+import { useAuth } from '../../hooks/useAuth';
 
 export default function AuthLayout() {
+  const { status } = useAuth();
+
   return (
     <Stack>
-      <Stack.Screen name="login" options={{ headerShown: false }} />
+      <Stack.Protected guard={status !== 'needsProfile'}>
+        <Stack.Screen name="login" options={{ headerShown: false }} />
+      </Stack.Protected>
+      <Stack.Protected guard={status === 'needsProfile'}>
+        <Stack.Screen name="onboarding" options={{ headerShown: false }} />
+      </Stack.Protected>
     </Stack>
   );
-}
\ No newline at end of file
+}
@@ -1,36 +1,147 @@
-import { useRouter } from 'expo-router';
-import { useEffect } from 'react';
+import * as Linking from 'expo-linking';
+import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Alert, Button, StyleSheet, Text, View } from 'react-native';
+import { Button, StyleSheet, Text, TextInput, View } from 'react-native';
 import { useAuth } from '../../hooks/useAuth';
+import { EMAIL_CODE_LENGTH, EMAIL_CODE_RESEND_SECONDS } from '../../lib/auth';
+import { isAuthRedirect } from '../../lib/deepLinks';
+import { showError } from '../../lib/toasts';
+
+type Step = 'start' | 'email' | 'code';
 
 export default function LoginScreen() {
-  const { signInWithGoogle, session, needsProfileCompletion, loading, error } = useAuth();
-  const router = useRouter();
+  const {
+    signInWithGoogle,
+    sendEmailCode,
+    verifyEmailCode,
+    completeEmailLink,
+    status,
+    loading,
+    error,
+    retry,
+  } = useAuth();
   const { t } = useTranslation();
+  const [step, setStep] = useState<Step>('start');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [resendAt, setResendAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const url = Linking.useURL();
+  const handledUrl = useRef<string | null>(null);
+  const resendIn = Math.max(0, Math.ceil((resendAt - now) / 1000));
 
-  // Handle navigation based on auth state
+  // Handle errors
   useEffect(() => {
-    if (session && needsProfileCompletion !== null) {
-      console.log('[LOGIN DEBUG] Navigating based on auth state', {
-        hasSession: !!session,
-        needsProfileCompletion,
-      });
-      if (needsProfileCompletion) {
-        router.replace('/(auth)/onboarding');
-      } else {
-        router.replace('/(tabs)/home');
-      }
+    if (error) {
+      showError(error);
     }
-  }, [session, needsProfileCompletion, router]);
+  }, [error]);
 
-  // Handle errors
+  // Finish signing in when the link from the email opens the app
   useEffect(() => {
-    if (error) {
-      console.log('[LOGIN DEBUG] Showing error alert', { error: error.message });
-      Alert.alert(t('error.title'), error.message || t('error.generic'));
+    if (url && url !== handledUrl.current && isAuthRedirect(url) && status === 'signedOut') {
+      handledUrl.current = url;
+      completeEmailLink(url);
+    }
+  }, [url, status, completeEmailLink]);
+
+  // Count down to when another code can be sent
+  useEffect(() => {
+    if (resendIn === 0) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [resendIn]);
+
+  const handleSendCode = async () => {
+    if (await sendEmailCode(email)) {
+      setCode('');
+      setStep('code');
+      setNow(Date.now());
+      setResendAt(Date.now() + EMAIL_CODE_RESEND_SECONDS * 1000);
     }
-  }, [error, t]);
+  };
+
+  const handleCodeChange = (text: string) => {
+    const digits = text.replace(/\D/g, '').slice(0, EMAIL_CODE_LENGTH);
+    setCode(digits);
+    if (digits.length === EMAIL_CODE_LENGTH) {
+      verifyEmailCode(email, digits);
+    }
+  };
+
+  if (status === 'error') {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>{t('login.title')}</Text>
+        {/* Signed in, but we could not tell whether onboarding is finished */}
+        <Button title={t('login.retry')} onPress={retry} />
+      </View>
+    );
+  }
+
+  if (step === 'email') {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>{t('login.emailTitle')}</Text>
+        <Text style={styles.description}>{t('login.emailDescription')}</Text>
+        <TextInput
+          style={styles.input}
+          value={email}
+          onChangeText={setEmail}
+          placeholder={t('login.emailPlaceholder')}
+          autoCapitalize="none"
+          autoComplete="email"
+          autoCorrect={false}
+          keyboardType="email-address"
+          textContentType="emailAddress"
+          onSubmitEditing={handleSendCode}
+          autoFocus
+        />
+        <Button
+          title={loading ? t('login.sendingCode') : t('login.sendCode')}
+          onPress={handleSendCode}
+          disabled={loading || !email.trim()}
+        />
+        <Button title={t('login.back')} onPress={() => setStep('start')} />
+      </View>
+    );
+  }
+
+  if (step === 'code') {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>{t('login.codeTitle')}</Text>
+        <Text style={styles.description}>
+          {t('login.codeDescription', { email: email.trim(), length: EMAIL_CODE_LENGTH })}
+        </Text>
+        <TextInput
+          style={[styles.input, styles.code]}
+          value={code}
+          onChangeText={handleCodeChange}
+          placeholder={'•'.repeat(EMAIL_CODE_LENGTH)}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          maxLength={EMAIL_CODE_LENGTH}
+          editable={!loading}
+          autoFocus
+        />
+        <Button
+          title={loading ? t('login.signingIn') : t('login.verifyCode')}
+          onPress={() => verifyEmailCode(email, code)}
+          disabled={loading || code.length !== EMAIL_CODE_LENGTH}
+        />
+        <Button
+          title={resendIn > 0 ? t('login.resendIn', { count: resendIn }) : t('login.resendCode')}
+          onPress={handleSendCode}
+          disabled={loading || resendIn > 0}
+        />
+        <Button title={t('login.changeEmail')} onPress={() => setStep('email')} />
+      </View>
+    );
+  }
 
   return (
     <View style={styles.container}>
@@ -40,6 +151,7 @@ export default function LoginScreen() {
         onPress={signInWithGoogle}
         disabled={loading}
       />
+      <Button title={t('login.signInWithEmail')} onPress={() => setStep('email')} />
     </View>
   );
 }
@@ -50,10 +162,28 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
+    gap: 10,
   },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
-    marginBottom: 20,
+    marginBottom: 10,
+  },
+  description: {
+    fontSize: 15,
+    color: '#3C3C43',
+    textAlign: 'center',
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  code: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
   },
-});
\ No newline at end of file
+});
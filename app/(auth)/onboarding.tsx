@@ -1,140 +1,405 @@
-import { useRouter } from 'expo-router';
-import { useEffect, useState } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useCallback, useEffect, useState } from 'react';
+import { Controller, useForm } from 'react-hook-form';
 import { useTranslation } from 'react-i18next';
-import { Alert, Button, StyleSheet, Text, TextInput, View } from 'react-native';
+import {
+  ActivityIndicator,
+  Button,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import AvatarPicker from '../../components/AvatarPicker';
 import { useAuth } from '../../hooks/useAuth';
-import { supabase } from '../../lib/supabase';
+import { useUsernameAvailability } from '../../hooks/useUsernameAvailability';
+import { MAX_INTERESTS } from '../../lib/account';
+import { markProfileComplete } from '../../lib/auth';
+import { pruneAvatars } from '../../lib/avatars';
+import { createLogger } from '../../lib/logger';
+import {
+  clearOnboardingDraft,
+  completeOnboarding,
+  EMPTY_ONBOARDING,
+  loadOnboardingDraft,
+  ONBOARDING_STEPS,
+  onboardingFieldError,
+  saveOnboardingDraft,
+  STEP_FIELDS,
+} from '../../lib/onboarding';
+import { INTERESTS, onboardingSchema, OnboardingValues } from '../../lib/profileSchemas';
+import { showError } from '../../lib/toasts';
+import { universityFromDomain } from '../../lib/universities';
+
+const log = createLogger('ONBOARDING');
 
 export default function CompleteProfileScreen() {
-  const { session, needsProfileCompletion, loading: authLoading } = useAuth();
-  const router = useRouter();
+  const { status, user } = useAuth();
   const { t } = useTranslation();
-  const [form, setForm] = useState({
-    displayName: '',
-    username: '',
-    avatarUrl: '',
+  const [step, setStep] = useState(0);
+  const [restored, setRestored] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const {
+    control,
+    formState: { errors },
+    getValues,
+    handleSubmit,
+    reset,
+    setError,
+    trigger,
+    watch,
+  } = useForm<OnboardingValues>({
+    resolver: zodResolver(onboardingSchema),
+    defaultValues: EMPTY_ONBOARDING,
   });
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const availability = useUsernameAvailability(watch('username').trim());
+  const emailDomain = user?.email?.split('@')[1] ?? null;
+  const currentStep = ONBOARDING_STEPS[step];
+  const isLastStep = step === ONBOARDING_STEPS.length - 1;
 
-  // Redirect if profile is complete or no session
+  // Pick up where the user left off if the app was closed mid-flow
   useEffect(() => {
-    if (!authLoading && session !== null && needsProfileCompletion !== null) {
-      console.log('[COMPLETE PROFILE DEBUG] Checking navigation', {
-        hasSession: !!session,
-        needsProfileCompletion,
-      });
-      if (!session) {
-        router.replace('/(auth)/login');
-      } else if (!needsProfileCompletion) {
-        router.replace('/(tabs)/home');
-      }
+    if (!user?.id) {
+      return;
     }
-  }, [session, needsProfileCompletion, authLoading, router]);
+    loadOnboardingDraft(user.id).then((draft) => {
+      if (draft) {
+        reset(draft.values);
+        setStep(draft.step);
+      }
+      setRestored(true);
+    });
+  }, [user?.id, reset]);
 
-  const handleSubmit = async () => {
-    if (!form.displayName.trim() || !form.username.trim()) {
-      setError(t('completeProfile.error.requiredFields'));
+  // Save every change along with the current step
+  useEffect(() => {
+    if (!user?.id || !restored) {
       return;
     }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      console.log('[COMPLETE PROFILE DEBUG] Submitting profile', form);
-      const { error: rpcError } = await supabase.rpc('complete_user_profile', {
-        p_display_name: form.displayName.trim(),
-        p_username: form.username.trim(),
-        p_avatar_url: form.avatarUrl.trim() || null,
+    saveOnboardingDraft(user.id, { step, values: getValues() });
+    const subscription = watch((values) => {
+      saveOnboardingDraft(user.id, {
+        step,
+        values: { ...EMPTY_ONBOARDING, ...values } as OnboardingValues,
       });
+    });
+    return () => subscription.unsubscribe();
+  }, [user?.id, restored, step, watch, getValues]);
 
-      if (rpcError) {
-        console.log('[COMPLETE PROFILE DEBUG] RPC error', { error: rpcError.message });
-        if (rpcError.message.includes('duplicate key value violates unique constraint')) {
-          throw new Error(t('completeProfile.error.usernameTaken'));
+  const onSubmit = useCallback(
+    async (values: OnboardingValues) => {
+      if (!user?.id) {
+        return;
+      }
+      setSubmitting(true);
+      try {
+        log.debug('Submitting profile', values);
+        await completeOnboarding(values);
+        await clearOnboardingDraft(user.id);
+        markProfileComplete(user.id);
+        // Photos picked and then replaced during onboarding are no longer needed
+        pruneAvatars(user.id, values.avatar_url || null);
+        log.debug('Profile submission successful');
+      } catch (err) {
+        const fieldError = onboardingFieldError(err);
+        log.error('Submission failed', {
+          error: err,
+          fieldError,
+        });
+        if (!fieldError) {
+          showError(err, { fallback: 'completeProfile.error.generic' });
+          return;
         }
-        throw new Error(rpcError.message);
+        // Send the user back to the step with the rejected field
+        setStep(ONBOARDING_STEPS.findIndex((name) => STEP_FIELDS[name].includes(fieldError.field)));
+        setError(fieldError.field, {
+          type: 'server',
+          message: fieldError.code === 'taken' ? 'validation.usernameTaken' : 'validation.invalid',
+        });
+      } finally {
+        setSubmitting(false);
       }
+    },
+    [user?.id, setError]
+  );
 
-      console.log('[COMPLETE PROFILE DEBUG] Profile submission successful');
-      router.replace('/(tabs)/home');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : t('completeProfile.error.generic'));
-    } finally {
-      setLoading(false);
+  const goNext = async () => {
+    if (!(await trigger(STEP_FIELDS[currentStep]))) {
+      return;
+    }
+    if (currentStep === 'username') {
+      if (availability === 'checking') {
+        return;
+      }
+      if (availability === 'taken') {
+        setError('username', { type: 'server', message: 'validation.usernameTaken' });
+        return;
+      }
+    }
+    if (isLastStep) {
+      handleSubmit(onSubmit)();
+    } else {
+      setStep(step + 1);
     }
   };
 
-  // Handle errors
-  useEffect(() => {
-    if (error) {
-      console.log('[COMPLETE PROFILE DEBUG] Showing error alert', { error });
-      Alert.alert(t('error.title'), error);
-    }
-  }, [error, t]);
+  const fieldError = (field: keyof OnboardingValues) => {
+    const message = errors[field]?.message;
+    return message ? <Text style={styles.error}>{t(message)}</Text> : null;
+  };
 
-  if (authLoading || session === null || needsProfileCompletion === null) {
+  if (status !== 'needsProfile' || !restored) {
     return (
-      <View style={styles.container}>
+      <View style={styles.centered}>
         <Text>{t('loading')}</Text>
       </View>
     );
   }
 
+  const renderStep = () => {
+    switch (currentStep) {
+      case 'name':
+        return (
+          <>
+            <Text style={styles.label}>{t('completeProfile.displayName')}</Text>
+            <Controller
+              control={control}
+              name="display_name"
+              render={({ field: { value, onChange, onBlur } }) => (
+                <TextInput
+                  style={styles.input}
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  placeholder={t('completeProfile.displayNamePlaceholder')}
+                  autoCapitalize="words"
+                  autoFocus
+                />
+              )}
+            />
+            {fieldError('display_name')}
+          </>
+        );
+      case 'username':
+        return (
+          <>
+            <Text style={styles.label}>{t('completeProfile.username')}</Text>
+            <Controller
+              control={control}
+              name="username"
+              render={({ field: { value, onChange, onBlur } }) => (
+                <TextInput
+                  style={styles.input}
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  placeholder={t('completeProfile.usernamePlaceholder')}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  autoFocus
+                />
+              )}
+            />
+            {fieldError('username') ?? (
+              <View style={styles.availability}>
+                {availability === 'checking' && <ActivityIndicator size="small" />}
+                <Text
+                  style={[
+                    styles.hint,
+                    availability === 'available' && styles.available,
+                    availability === 'taken' && styles.unavailable,
+                  ]}
+                >
+                  {availability === 'available'
+                    ? t('account.usernameAvailable')
+                    : availability === 'taken'
+                      ? t('account.usernameTaken')
+                      : t('validation.usernameFormat')}
+                </Text>
+              </View>
+            )}
+          </>
+        );
+      case 'avatar':
+        return (
+          <>
+            <Text style={styles.description}>{t('onboarding.avatarMessage')}</Text>
+            <Controller
+              control={control}
+              name="avatar_url"
+              render={({ field: { value, onChange } }) => (
+                <AvatarPicker
+                  userId={user!.id}
+                  uri={value || null}
+                  name={getValues('display_name')}
+                  onChange={(uri) => onChange(uri ?? '')}
+                />
+              )}
+            />
+            {fieldError('avatar_url')}
+          </>
+        );
+      case 'university':
+        return (
+          <>
+            <Text style={styles.description}>
+              {t('onboarding.universityMessage', { email: user?.email ?? '' })}
+            </Text>
+            <Text style={styles.university}>
+              {universityFromDomain(emailDomain) ?? emailDomain}
+            </Text>
+            <View style={styles.row}>
+              <Text style={[styles.label, styles.rowText]}>
+                {t('onboarding.universityConfirm')}
+              </Text>
+              <Controller
+                control={control}
+                name="university_confirmed"
+                render={({ field: { value, onChange } }) => (
+                  <Switch value={value} onValueChange={onChange} />
+                )}
+              />
+            </View>
+            {fieldError('university_confirmed')}
+          </>
+        );
+      case 'interests':
+        return (
+          <>
+            <Text style={styles.description}>
+              {t('onboarding.interestsMessage', { count: MAX_INTERESTS })}
+            </Text>
+            <Controller
+              control={control}
+              name="interests"
+              render={({ field: { value, onChange } }) => (
+                <View style={styles.chips}>
+                  {INTERESTS.map((interest) => {
+                    const selected = value.includes(interest);
+                    return (
+                      <Pressable
+                        key={interest}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        onPress={() =>
+                          onChange(
+                            selected
+                              ? value.filter((candidate) => candidate !== interest)
+                              : [...value, interest]
+                          )
+                        }
+                        accessibilityRole="checkbox"
+                        accessibilityState={{ checked: selected }}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {t(`onboarding.interests.${interest}`)}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+            />
+            {fieldError('interests')}
+          </>
+        );
+    }
+  };
+
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>{t('completeProfile.title')}</Text>
-      <Text style={styles.label}>{t('completeProfile.displayName')}</Text>
-      <TextInput
-        style={styles.input}
-        value={form.displayName}
-        onChangeText={(text) => setForm((prev) => ({ ...prev, displayName: text }))}
-        placeholder={t('completeProfile.displayNamePlaceholder')}
-        autoCapitalize="words"
-      />
-      <Text style={styles.label}>{t('completeProfile.username')}</Text>
-      <TextInput
-        style={styles.input}
-        value={form.username}
-        onChangeText={(text) => setForm((prev) => ({ ...prev, username: text }))}
-        placeholder={t('completeProfile.usernamePlaceholder')}
-        autoCapitalize="none"
-      />
-      <Text style={styles.label}>{t('completeProfile.avatarUrl')}</Text>
-      <TextInput
-        style={styles.input}
-        value={form.avatarUrl}
-        onChangeText={(text) => setForm((prev) => ({ ...prev, avatarUrl: text }))}
-        placeholder={t('completeProfile.avatarUrlPlaceholder')}
-        autoCapitalize="none"
-        keyboardType="url"
-      />
-      <Button
-        title={loading ? t('completeProfile.submitting') : t('completeProfile.submit')}
-        onPress={handleSubmit}
-        disabled={loading}
-      />
-    </View>
+    <KeyboardAvoidingView
+      style={styles.flex}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <Text style={styles.heading}>{t('completeProfile.title')}</Text>
+        <Text style={styles.progress}>
+          {t('onboarding.progress', { current: step + 1, total: ONBOARDING_STEPS.length })}
+        </Text>
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${((step + 1) / ONBOARDING_STEPS.length) * 100}%` },
+            ]}
+          />
+        </View>
+        <Text style={styles.title}>{t(`onboarding.steps.${currentStep}`)}</Text>
+        {renderStep()}
+        <View style={styles.buttons}>
+          {step > 0 ? (
+            <Button title={t('onboarding.back')} onPress={() => setStep(step - 1)} />
+          ) : (
+            <View />
+          )}
+          <Button
+            title={
+              isLastStep
+                ? submitting
+                  ? t('completeProfile.submitting')
+                  : t('completeProfile.submit')
+                : t('onboarding.next')
+            }
+            onPress={goNext}
+            disabled={submitting}
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
   );
 }
 
 const styles = StyleSheet.create({
-  container: {
+  flex: {
+    flex: 1,
+  },
+  centered: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
   },
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+    gap: 10,
+  },
+  heading: {
+    fontSize: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  progress: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E5EA',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#007AFF',
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
-    marginBottom: 20,
+    marginVertical: 10,
   },
   label: {
     fontSize: 16,
-    alignSelf: 'flex-start',
-    marginBottom: 5,
+  },
+  description: {
+    fontSize: 15,
+    color: '#3C3C43',
   },
   input: {
     width: '100%',
@@ -142,6 +407,63 @@ const styles = StyleSheet.create({
     borderColor: '#ccc',
     borderRadius: 5,
     padding: 10,
-    marginBottom: 15,
   },
-});
\ No newline at end of file
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  error: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+  availability: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  available: {
+    color: '#34C759',
+  },
+  unavailable: {
+    color: '#FF3B30',
+  },
+  university: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#C7C7CC',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+});
@@ -1,9 +1,13 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { Tabs } from 'expo-router';
 import { useTranslation } from 'react-i18next';
+import { useAuth } from '../../hooks/useAuth';
+import { useUnreadNotificationCount } from '../../hooks/useNotifications';
 
 export default function TabsLayout() {
   const { t } = useTranslation();
+  const { user } = useAuth();
+  const unreadNotifications = useUnreadNotificationCount(user?.id);
 
   return (
     <Tabs
@@ -13,18 +17,25 @@ export default function TabsLayout() {
       }}
     >
       <Tabs.Screen
-        name="home/index"
+        name="home"
         options={{
           headerShown: false,
           title: t('tabs.home'),
+          tabBarBadge:
+            unreadNotifications > 0
+              ? unreadNotifications > 99
+                ? '99+'
+                : unreadNotifications
+              : undefined,
           tabBarIcon: ({ color, size }) => (
             <MaterialCommunityIcons name="home" size={size} color={color} />
           ),
         }}
       />
       <Tabs.Screen
-        name="chats/index"
+        name="chats"
         options={{
+          headerShown: false,
           title: t('tabs.chats'),
           tabBarIcon: ({ color, size }) => (
             <MaterialCommunityIcons name="chat" size={size} color={color} />
@@ -32,8 +43,9 @@ export default function TabsLayout() {
         }}
       />
       <Tabs.Screen
-        name="settings/index"
+        name="settings"
         options={{
+          headerShown: false,
           title: t('tabs.settings'),
           tabBarIcon: ({ color, size }) => (
             <MaterialCommunityIcons name="cog" size={size} color={color} />
@@ -42,4 +54,4 @@ export default function TabsLayout() {
       />
     </Tabs>
   );
-}
\ No newline at end of file
+}
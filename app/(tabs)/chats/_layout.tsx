@@ -0,0 +1,30 @@
+import { Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { Button } from 'react-native';
+import { navigate } from '../../../lib/router';
+
+export default function ChatsLayout() {
+  const { t } = useTranslation();
+
+  return (
+    <Stack>
+      <Stack.Screen
+        name="index"
+        options={{
+          title: t('chats.title'),
+          headerRight: () => <Button title={t('groups.new')} onPress={() => navigate('NewGroup')} />,
+        }}
+      />
+      <Stack.Screen name="messages/index" options={{ title: t('inbox.title') }} />
+      <Stack.Screen
+        name="messages/[conversationId]"
+        options={{ title: t('conversation.title') }}
+      />
+      <Stack.Screen name="new-group" options={{ title: t('groups.newTitle') }} />
+      <Stack.Screen
+        name="group-settings/[conversationId]"
+        options={{ title: t('groups.settingsTitle') }}
+      />
+    </Stack>
+  );
+}
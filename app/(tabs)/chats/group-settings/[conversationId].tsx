@@ -0,0 +1,274 @@
+import * as ImagePicker from 'expo-image-picker';
+import { useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Button,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import Avatar from '../../../../components/Avatar';
+import ProfilePicker from '../../../../components/ProfilePicker';
+import { useAuth } from '../../../../hooks/useAuth';
+import { useConversationDetails } from '../../../../hooks/useConversationDetails';
+import {
+  addGroupMembers,
+  ConversationMember,
+  GROUP_ERROR_KEYS,
+  leaveGroup,
+  removeGroupMember,
+  setGroupMemberRole,
+  updateGroup,
+  uploadGroupAvatar,
+} from '../../../../lib/groups';
+import type { Profile } from '../../../../lib/profiles';
+import { navigate } from '../../../../lib/router';
+import { showError } from '../../../../lib/toasts';
+
+export default function GroupSettingsScreen() {
+  const { conversationId } = useLocalSearchParams<{ conversationId: string }>();
+  const { user } = useAuth();
+  const { details, loading, error, reload } = useConversationDetails(conversationId);
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [newMembers, setNewMembers] = useState<Profile[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const isAdmin = details?.members.some(
+    (member) => member.user_id === user?.id && member.role === 'admin'
+  );
+
+  useEffect(() => {
+    if (details?.name) {
+      setName(details.name);
+    }
+  }, [details?.name]);
+
+  // Handle errors
+  useEffect(() => {
+    if (error) {
+      showError(error);
+    }
+  }, [error]);
+
+  // Run a group action, then reload; permission failures come back from the RPC
+  const runAction = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      await reload();
+    } catch (err) {
+      showError(err, GROUP_ERROR_KEYS);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeAvatar = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (result.canceled) {
+      return;
+    }
+    const asset = result.assets[0];
+    runAction(async () => {
+      const avatarUrl = await uploadGroupAvatar(conversationId, asset.uri, asset.mimeType);
+      await updateGroup(conversationId, { avatarUrl });
+    });
+  };
+
+  const handleMemberPress = (member: ConversationMember) => {
+    if (!isAdmin || member.user_id === user?.id) {
+      return;
+    }
+    const displayName = member.profile?.display_name ?? t('inbox.unknownUser');
+    Alert.alert(displayName, undefined, [
+      member.role === 'admin'
+        ? {
+            text: t('groups.demote'),
+            onPress: () =>
+              runAction(() => setGroupMemberRole(conversationId, member.user_id, 'member')),
+          }
+        : {
+            text: t('groups.promote'),
+            onPress: () =>
+              runAction(() => setGroupMemberRole(conversationId, member.user_id, 'admin')),
+          },
+      {
+        text: t('groups.remove'),
+        style: 'destructive',
+        onPress: () => runAction(() => removeGroupMember(conversationId, member.user_id)),
+      },
+      { text: t('groups.cancel'), style: 'cancel' },
+    ]);
+  };
+
+  const handleAddMembers = () =>
+    runAction(async () => {
+      await addGroupMembers(
+        conversationId,
+        newMembers.map((member) => member.id)
+      );
+      setNewMembers([]);
+    });
+
+  const handleLeave = () => {
+    Alert.alert(t('groups.leaveTitle'), t('groups.leaveMessage'), [
+      { text: t('groups.cancel'), style: 'cancel' },
+      {
+        text: t('groups.leave'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await leaveGroup(conversationId);
+            navigate('Chats', undefined, { mode: 'replace' });
+          } catch (err) {
+            showError(err, GROUP_ERROR_KEYS);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading || !details) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Pressable onPress={changeAvatar} disabled={!isAdmin || busy}>
+        <Avatar uri={details.avatar_url} name={details.name} size={96} />
+      </Pressable>
+
+      {isAdmin ? (
+        <View style={styles.nameRow}>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder={t('groups.namePlaceholder')}
+            maxLength={100}
+          />
+          <Button
+            title={t('groups.save')}
+            onPress={() => runAction(() => updateGroup(conversationId, { name: name.trim() }))}
+            disabled={busy || !name.trim() || name.trim() === details.name}
+          />
+        </View>
+      ) : (
+        <Text style={styles.title}>{details.name}</Text>
+      )}
+
+      <Text style={styles.section}>
+        {t('groups.memberCount', { count: details.members.length })}
+      </Text>
+      {details.members.map((member) => (
+        <Pressable
+          key={member.user_id}
+          style={styles.memberRow}
+          onPress={() => handleMemberPress(member)}
+          disabled={busy}
+        >
+          <Text style={styles.memberName}>
+            {member.profile?.display_name ?? t('inbox.unknownUser')}
+            {member.user_id === user?.id ? ` ${t('groups.you')}` : ''}
+          </Text>
+          {member.role === 'admin' && <Text style={styles.adminBadge}>{t('groups.admin')}</Text>}
+        </Pressable>
+      ))}
+
+      {isAdmin && (
+        <>
+          <Text style={styles.section}>{t('groups.addMembers')}</Text>
+          <ProfilePicker
+            selected={newMembers}
+            excludeIds={details.members.map((member) => member.user_id)}
+            onToggle={(profile) =>
+              setNewMembers((prev) =>
+                prev.some((member) => member.id === profile.id)
+                  ? prev.filter((member) => member.id !== profile.id)
+                  : [...prev, profile]
+              )
+            }
+          />
+          {newMembers.length > 0 && (
+            <Button title={t('groups.add')} onPress={handleAddMembers} disabled={busy} />
+          )}
+        </>
+      )}
+
+      <View style={styles.leave}>
+        <Button title={t('groups.leave')} color="#FF3B30" onPress={handleLeave} disabled={busy} />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    padding: 20,
+    alignItems: 'center',
+    gap: 10,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  section: {
+    alignSelf: 'flex-start',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginTop: 20,
+    textTransform: 'uppercase',
+  },
+  memberRow: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ccc',
+  },
+  memberName: {
+    fontSize: 16,
+  },
+  adminBadge: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  leave: {
+    marginTop: 30,
+  },
+});
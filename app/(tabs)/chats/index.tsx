@@ -1,27 +1,5 @@
-import { useTranslation } from 'react-i18next';
-import { StyleSheet, Text, View } from 'react-native';
+import ConversationList from '../../../components/ConversationList';
 
 export default function ChatsScreen() {
-  const { t } = useTranslation();
-
-  return (
-    <View style={styles.container}>
-      <Text style={styles.title}>{t('chats.title')}</Text>
-      <Text>{t('chats.placeholder')}</Text>
-    </View>
-  );
+  return <ConversationList />;
 }
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 20,
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    marginBottom: 20,
-  },
-});
\ No newline at end of file
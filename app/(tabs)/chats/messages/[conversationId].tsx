@@ -0,0 +1,508 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useHeaderHeight } from '@react-navigation/elements';
+import * as ImagePicker from 'expo-image-picker';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  ViewToken,
+} from 'react-native';
+import AttachmentViewer from '../../../../components/AttachmentViewer';
+import MessageAttachment from '../../../../components/MessageAttachment';
+import OptionSheet from '../../../../components/OptionSheet';
+import { useAuth } from '../../../../hooks/useAuth';
+import { useConversation } from '../../../../hooks/useConversation';
+import { useConversationDetails } from '../../../../hooks/useConversationDetails';
+import { useConversationMute } from '../../../../hooks/useConversationMute';
+import { useLastSeen } from '../../../../hooks/usePresence';
+import { useReadReceipts } from '../../../../hooks/useReadReceipts';
+import { useTypingIndicator } from '../../../../hooks/useTypingIndicator';
+import {
+  AttachmentSource,
+  deleteLocalAttachment,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES,
+  pickAttachment,
+} from '../../../../lib/attachments';
+import { queueMarkConversationRead } from '../../../../lib/conversations';
+import { AppError } from '../../../../lib/errors';
+import { DisplayMessage, formatSystemMessage } from '../../../../lib/messages';
+import { MUTE_DURATIONS, MuteDuration } from '../../../../lib/notificationSettings';
+import { deliveryStatusFor, seenBy } from '../../../../lib/receipts';
+import { navigate } from '../../../../lib/router';
+import { formatRelativeTime } from '../../../../lib/time';
+import { showError } from '../../../../lib/toasts';
+
+// Wait for scrolling to settle before moving the read marker
+const READ_MARKER_DEBOUNCE_MS = 1000;
+
+export default function ConversationScreen() {
+  const { conversationId } = useLocalSearchParams<{ conversationId: string }>();
+  const { user } = useAuth();
+  const { messages, loading, loadingOlder, error, loadOlder, send, retry, discard } =
+    useConversation(conversationId, user?.id);
+  const { details } = useConversationDetails(conversationId);
+  const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(conversationId, user?.id);
+  const { markers } = useReadReceipts(conversationId);
+  const { mute, setMute, error: muteError } = useConversationMute(conversationId, user?.id);
+  const headerHeight = useHeaderHeight();
+  const { t, i18n } = useTranslation();
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [viewerUri, setViewerUri] = useState<string | null>(null);
+  const [muteMenuVisible, setMuteMenuVisible] = useState(false);
+
+  // Track the newest message that has been on screen and move the read marker
+  // to it once scrolling pauses, so a long scroll results in one update
+  const readMarkerTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const newestSeen = useRef<DisplayMessage | null>(null);
+  const onViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken<DisplayMessage>[] }) => {
+      const candidate = viewableItems
+        .map((token) => token.item)
+        .filter((message) => message.status !== 'pending' && message.status !== 'failed')
+        .reduce<DisplayMessage | null>(
+          (newest, message) =>
+            !newest || message.created_at > newest.created_at ? message : newest,
+          null
+        );
+      if (
+        !candidate ||
+        (newestSeen.current && candidate.created_at <= newestSeen.current.created_at)
+      ) {
+        return;
+      }
+      newestSeen.current = candidate;
+
+      if (readMarkerTimer.current) {
+        clearTimeout(readMarkerTimer.current);
+      }
+      readMarkerTimer.current = setTimeout(() => {
+        queueMarkConversationRead(candidate.conversation_id, candidate.id);
+      }, READ_MARKER_DEBOUNCE_MS);
+    }
+  ).current;
+
+  useEffect(() => {
+    return () => {
+      if (readMarkerTimer.current) {
+        clearTimeout(readMarkerTimer.current);
+      }
+    };
+  }, []);
+
+  // Handle errors
+  useEffect(() => {
+    const shown = error ?? muteError;
+    if (shown) {
+      showError(shown);
+    }
+  }, [error, muteError]);
+
+  const handleSend = async () => {
+    if (!draft.trim() || sending) {
+      return;
+    }
+    setSending(true);
+    stopTyping();
+    const sent = await send(draft);
+    if (sent) {
+      setDraft('');
+    }
+    setSending(false);
+  };
+
+  // Queue a photo or file, sending the current draft as its caption
+  const handleAttach = async (source: AttachmentSource) => {
+    if (source === 'camera') {
+      const { granted } = await ImagePicker.requestCameraPermissionsAsync();
+      if (!granted) {
+        showError(new AppError('permission', { messageKey: 'attachments.cameraPermission' }));
+        return;
+      }
+    }
+
+    setSending(true);
+    try {
+      const attachment = await pickAttachment(source);
+      if (attachment && attachment.size > MAX_ATTACHMENT_BYTES) {
+        await deleteLocalAttachment(attachment);
+        showError(
+          new AppError('validation', {
+            messageKey: 'attachments.tooLarge',
+            messageParams: { size: formatFileSize(MAX_ATTACHMENT_BYTES) },
+          })
+        );
+      } else if (attachment) {
+        stopTyping();
+        const sent = await send(draft, attachment);
+        if (sent) {
+          setDraft('');
+        }
+      }
+    } catch (err) {
+      showError(err, { fallback: 'error.attachFile' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Android alerts fit three buttons, so there it is dismissed by tapping outside
+  const showAttachMenu = () => {
+    Alert.alert(
+      t('attachments.title'),
+      undefined,
+      [
+        { text: t('attachments.camera'), onPress: () => handleAttach('camera') },
+        { text: t('attachments.library'), onPress: () => handleAttach('library') },
+        { text: t('attachments.document'), onPress: () => handleAttach('document') },
+        ...(Platform.OS === 'ios' ? [{ text: t('cancel'), style: 'cancel' as const }] : []),
+      ],
+      { cancelable: true }
+    );
+  };
+
+  // Offer to resend or drop a message the outbox gave up on
+  const handleFailedPress = (message: DisplayMessage) => {
+    Alert.alert(t('conversation.failedTitle'), t('conversation.failedMessage'), [
+      { text: t('conversation.delete'), style: 'destructive', onPress: () => discard(message.id) },
+      { text: t('conversation.retry'), onPress: () => retry(message.id) },
+    ]);
+  };
+
+  const handleDraftChange = (text: string) => {
+    setDraft(text);
+    if (text.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
+  };
+
+  const otherMember = details?.members.find((member) => member.user_id !== user?.id);
+  const { online, lastSeenAt } = useLastSeen(details?.is_group ? null : otherMember?.user_id);
+  const title = details?.is_group
+    ? details.name
+    : (otherMember?.profile?.display_name ?? t('conversation.title'));
+  const senderName = (senderId: string) =>
+    details?.members.find((member) => member.user_id === senderId)?.profile?.display_name ??
+    t('inbox.unknownUser');
+
+  const typingText =
+    typingUserIds.length === 0
+      ? null
+      : typingUserIds.length === 1
+        ? t('conversation.typing', { name: senderName(typingUserIds[0]) })
+        : t('conversation.typingMany', { count: typingUserIds.length });
+  const statusText = online
+    ? t('presence.online')
+    : lastSeenAt
+      ? t('presence.lastSeen', { time: formatRelativeTime(lastSeenAt, t, i18n.language) })
+      : null;
+
+  // Stored messages get their delivery state from the other members' markers
+  const statusOf = (message: DisplayMessage) =>
+    message.status === 'sent' ? deliveryStatusFor(message, markers) : message.status;
+  const latestOwnMessageId = messages.find(
+    (message) => message.sender_id === user?.id && message.kind === 'text'
+  )?.id;
+
+  const showSeenBy = (message: DisplayMessage) => {
+    const names = seenBy(message, markers).map(senderName);
+    Alert.alert(
+      t('conversation.seenByTitle'),
+      names.length > 0 ? names.join('\n') : t('conversation.seenByNobody')
+    );
+  };
+
+  const renderMessage = ({ item }: { item: DisplayMessage }) => {
+    if (item.kind === 'system') {
+      return <Text style={styles.system}>{formatSystemMessage(item.metadata, t)}</Text>;
+    }
+
+    const isOwn = item.sender_id === user?.id;
+    const failed = item.status === 'failed';
+    const status = statusOf(item);
+    const seenByNames =
+      details?.is_group && item.id === latestOwnMessageId
+        ? seenBy(item, markers).map(senderName)
+        : [];
+    return (
+      <View>
+        <Pressable
+          style={[
+            styles.bubble,
+            isOwn ? styles.ownBubble : styles.otherBubble,
+            item.status === 'pending' && styles.pendingBubble,
+            failed && styles.failedBubble,
+          ]}
+          disabled={!failed && !(isOwn && details?.is_group)}
+          onPress={() => (failed ? handleFailedPress(item) : showSeenBy(item))}
+        >
+          {details?.is_group && !isOwn && (
+            <Text style={styles.sender}>{senderName(item.sender_id)}</Text>
+          )}
+          <MessageAttachment
+            message={item}
+            isOwn={isOwn}
+            onOpenImage={setViewerUri}
+            onCancel={discard}
+          />
+          {!!item.body && (
+            <Text style={isOwn ? styles.ownText : styles.otherText}>{item.body}</Text>
+          )}
+          <Text style={[styles.time, isOwn && styles.ownTime]}>
+            {new Date(item.created_at).toLocaleTimeString(i18n.language, {
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+            {isOwn && ` · ${t(`conversation.status.${status}`)}`}
+          </Text>
+        </Pressable>
+        {seenByNames.length > 0 && (
+          <Text style={styles.seenBy} numberOfLines={1}>
+            {t('conversation.seenBy', { names: seenByNames.join(', ') })}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const muteOptions = mute.muted
+    ? [{ label: t('mute.unmute'), onPress: () => setMute(null) }]
+    : (Object.keys(MUTE_DURATIONS) as MuteDuration[]).map((duration) => ({
+        label: t(`mute.durations.${duration}`),
+        onPress: () => setMute(duration),
+      }));
+
+  const header = (
+    <Stack.Screen
+      options={{
+        title: title ?? t('conversation.title'),
+        headerRight: () => (
+          <View style={styles.headerButtons}>
+            <Pressable
+              onPress={() => setMuteMenuVisible(true)}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel={mute.muted ? t('mute.unmute') : t('mute.title')}
+            >
+              <MaterialCommunityIcons
+                name={mute.muted ? 'bell-off-outline' : 'bell-outline'}
+                size={22}
+                color="#007AFF"
+              />
+            </Pressable>
+            {details?.is_group ? (
+              <Button
+                title={t('groups.info')}
+                onPress={() => navigate('GroupSettings', { conversationId })}
+              />
+            ) : otherMember?.profile?.username ? (
+              <Button
+                title={t('profile.title')}
+                onPress={() => navigate('Profile', { name: otherMember.profile!.username })}
+              />
+            ) : null}
+          </View>
+        ),
+      }}
+    />
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        {header}
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={headerHeight}
+    >
+      {header}
+      <AttachmentViewer uri={viewerUri} onClose={() => setViewerUri(null)} />
+      <OptionSheet
+        visible={muteMenuVisible}
+        title={
+          mute.muted
+            ? mute.until
+              ? t('mute.mutedUntil', {
+                  time: new Date(mute.until).toLocaleString(i18n.language, {
+                    weekday: 'short',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  }),
+                })
+              : t('mute.mutedForever')
+            : t('mute.title')
+        }
+        options={muteOptions}
+        onClose={() => setMuteMenuVisible(false)}
+      />
+      {/* Inverted so the list stays anchored to the newest message */}
+      <FlatList
+        inverted
+        data={messages}
+        keyExtractor={(item) => item.id}
+        renderItem={renderMessage}
+        contentContainerStyle={styles.list}
+        onEndReached={loadOlder}
+        onEndReachedThreshold={0.3}
+        onViewableItemsChanged={onViewableItemsChanged}
+        viewabilityConfig={{ itemVisiblePercentThreshold: 60 }}
+        keyboardDismissMode="interactive"
+        keyboardShouldPersistTaps="handled"
+        maintainVisibleContentPosition={{ minIndexForVisible: 0, autoscrollToTopThreshold: 40 }}
+        ListFooterComponent={
+          loadingOlder ? <ActivityIndicator style={styles.loadingOlder} /> : null
+        }
+        ListEmptyComponent={<Text style={styles.empty}>{t('conversation.empty')}</Text>}
+      />
+      {(typingText || statusText) && <Text style={styles.status}>{typingText ?? statusText}</Text>}
+      <View style={styles.composer}>
+        <Button title="+" onPress={showAttachMenu} disabled={sending} />
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={handleDraftChange}
+          onBlur={stopTyping}
+          placeholder={t('conversation.placeholder')}
+          multiline
+          maxLength={4000}
+        />
+        <Button
+          title={sending ? t('conversation.sending') : t('conversation.send')}
+          onPress={handleSend}
+          disabled={sending || !draft.trim()}
+        />
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  list: {
+    padding: 10,
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginVertical: 3,
+  },
+  ownBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#007AFF',
+  },
+  otherBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#E5E5EA',
+  },
+  pendingBubble: {
+    opacity: 0.6,
+  },
+  failedBubble: {
+    backgroundColor: '#FF3B30',
+  },
+  sender: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginBottom: 2,
+  },
+  seenBy: {
+    alignSelf: 'flex-end',
+    fontSize: 11,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  system: {
+    alignSelf: 'center',
+    textAlign: 'center',
+    fontSize: 13,
+    color: '#8E8E93',
+    marginVertical: 6,
+    paddingHorizontal: 20,
+  },
+  ownText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  otherText: {
+    color: '#000',
+    fontSize: 16,
+  },
+  time: {
+    fontSize: 11,
+    color: '#8E8E93',
+    marginTop: 2,
+    alignSelf: 'flex-end',
+  },
+  ownTime: {
+    color: '#D0E4FF',
+  },
+  loadingOlder: {
+    marginVertical: 10,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 20,
+    // Counter the inverted list so the text reads upright
+    transform: [{ scaleY: -1 }],
+  },
+  status: {
+    fontSize: 12,
+    color: '#8E8E93',
+    paddingHorizontal: 14,
+    paddingTop: 4,
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#ccc',
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+});
@@ -0,0 +1,5 @@
+import ConversationList from '../../../../components/ConversationList';
+
+export default function MessagesScreen() {
+  return <ConversationList />;
+}
@@ -0,0 +1,146 @@
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import ProfilePicker from '../../../components/ProfilePicker';
+import { AppError } from '../../../lib/errors';
+import { createGroup, GROUP_ERROR_KEYS, updateGroup, uploadGroupAvatar } from '../../../lib/groups';
+import { createLogger } from '../../../lib/logger';
+import type { Profile } from '../../../lib/profiles';
+import { navigate } from '../../../lib/router';
+import { showError } from '../../../lib/toasts';
+
+const log = createLogger('GROUP');
+
+export default function NewGroupScreen() {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState<ImagePicker.ImagePickerAsset | null>(null);
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const pickAvatar = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (!result.canceled) {
+      setAvatar(result.assets[0]);
+    }
+  };
+
+  const toggleMember = (profile: Profile) => {
+    setMembers((prev) =>
+      prev.some((member) => member.id === profile.id)
+        ? prev.filter((member) => member.id !== profile.id)
+        : [...prev, profile]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      showError(new AppError('validation', { messageKey: 'groups.error.nameRequired' }));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const conversationId = await createGroup(
+        name.trim(),
+        members.map((member) => member.id)
+      );
+
+      // The avatar can only be uploaded once we are admin of an existing group
+      if (avatar) {
+        try {
+          const avatarUrl = await uploadGroupAvatar(conversationId, avatar.uri, avatar.mimeType);
+          await updateGroup(conversationId, { avatarUrl });
+        } catch (err) {
+          log.error('Avatar upload failed', { error: err });
+          showError(new AppError('unknown', { messageKey: 'error.groupAvatarUpload', cause: err }));
+        }
+      }
+
+      navigate('MessageConversation', { conversationId }, { mode: 'replace' });
+    } catch (err) {
+      showError(err, GROUP_ERROR_KEYS);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Pressable style={styles.avatarButton} onPress={pickAvatar}>
+        {avatar ? (
+          <Image source={{ uri: avatar.uri }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, styles.avatarPlaceholder]}>
+            <Text style={styles.avatarPlaceholderText}>{t('groups.setAvatar')}</Text>
+          </View>
+        )}
+      </Pressable>
+      <Text style={styles.label}>{t('groups.name')}</Text>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder={t('groups.namePlaceholder')}
+        maxLength={100}
+      />
+      <Text style={styles.label}>{t('groups.members')}</Text>
+      <ProfilePicker selected={members} onToggle={toggleMember} />
+      <View style={styles.submit}>
+        <Button
+          title={loading ? t('groups.creating') : t('groups.create')}
+          onPress={handleCreate}
+          disabled={loading}
+        />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  avatarButton: {
+    marginBottom: 20,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#E5E5EA',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarPlaceholderText: {
+    color: '#007AFF',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    alignSelf: 'flex-start',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+    marginBottom: 15,
+  },
+  submit: {
+    marginTop: 20,
+  },
+});
@@ -0,0 +1,21 @@
+import { Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+export default function HomeLayout() {
+  const { t } = useTranslation();
+
+  return (
+    <Stack>
+      <Stack.Screen name="index" options={{ title: t('feed.title') }} />
+      <Stack.Screen name="new-post" options={{ title: t('feed.newPost'), presentation: 'modal' }} />
+      <Stack.Screen name="post/[postId]" options={{ title: t('feed.postTitle') }} />
+      <Stack.Screen name="notifications/index" options={{ title: t('notifications.title') }} />
+      <Stack.Screen
+        name="notifications/settings"
+        options={{ title: t('notificationSettings.title') }}
+      />
+      <Stack.Screen name="profile/[name]" options={{ title: t('profile.title') }} />
+      <Stack.Screen name="profile-followers/[name]" options={{ title: t('followers.title') }} />
+    </Stack>
+  );
+}
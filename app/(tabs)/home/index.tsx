@@ -1,50 +1,134 @@
-import { useRouter } from 'expo-router';
-import { useEffect } from 'react';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Stack } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Alert, Button, StyleSheet, Text, View } from 'react-native';
+import {
+  ActivityIndicator,
+  Button,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import PostCard from '../../../components/PostCard';
 import { useAuth } from '../../../hooks/useAuth';
+import { useFeed } from '../../../hooks/useFeed';
+import { createLogger } from '../../../lib/logger';
+import type { Post } from '../../../lib/posts';
+import { fetchProfilesByIds } from '../../../lib/profiles';
+import { navigate } from '../../../lib/router';
+import { showError } from '../../../lib/toasts';
+
+const log = createLogger('HOME');
 
 export default function HomeScreen() {
-  const { session, user, signOut, loading, error } = useAuth();
-  const router = useRouter();
+  const { user, loading: authLoading, error: authError } = useAuth();
   const { t } = useTranslation();
+  const [username, setUsername] = useState<string | null>(null);
+  const {
+    posts,
+    loading,
+    refreshing,
+    loadingMore,
+    hasNewPosts,
+    error,
+    refresh,
+    loadMore,
+    toggleLike,
+  } = useFeed(user?.id);
+  const listRef = useRef<FlatList<Post>>(null);
 
-  // Redirect to login if no session
+  // Look up our own username for the profile link
   useEffect(() => {
-    if (!session && !loading) {
-      router.replace('/(auth)/login');
+    if (!user) {
+      setUsername(null);
+      return;
     }
-  }, [session, loading]);
+    fetchProfilesByIds([user.id])
+      .then(([profile]) => setUsername(profile?.username ?? null))
+      .catch((err) => {
+        log.error('Error loading own profile', { error: err });
+      });
+  }, [user]);
 
   // Handle errors
   useEffect(() => {
-    if (error) {
-      Alert.alert(t('error.title'), error.message || t('error.generic'));
+    const shown = error ?? authError;
+    if (shown) {
+      showError(shown);
     }
-  }, [error]);
+  }, [error, authError]);
 
-  const handleSignOut = async () => {
-    try {
-      await signOut();
-      router.replace('/(auth)/login');
-    } catch (err) {
-      Alert.alert(t('error.title'), t('error.signOut'));
-    }
+  // Load the new posts and jump to the top to show them
+  const showNewPosts = async () => {
+    await refresh();
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
   };
 
+  const header = (
+    <Stack.Screen
+      options={{
+        headerLeft: username
+          ? () => (
+              <Button
+                title={t('home.viewProfile')}
+                onPress={() => navigate('Profile', { name: username })}
+              />
+            )
+          : undefined,
+        headerRight: () => (
+          <View style={styles.headerButtons}>
+            <Pressable
+              onPress={() => navigate('Notifications')}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel={t('notifications.title')}
+            >
+              <MaterialCommunityIcons name="bell-outline" size={24} color="#007AFF" />
+            </Pressable>
+            <Button title={t('feed.newPost')} onPress={() => navigate('NewPost')} />
+          </View>
+        ),
+      }}
+    />
+  );
+
+  if (authLoading || loading) {
+    return (
+      <View style={styles.centered}>
+        {header}
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
-      {loading ? (
-        <Text>{t('loading')}</Text>
-      ) : user ? (
-        <>
-          <Text style={styles.welcome}>
-            {t('home.welcome', { name: user.user_metadata?.name || 'User' })}
-          </Text>
-          <Button title={t('home.signOut')} onPress={handleSignOut} />
-        </>
-      ) : (
-        <Text>{t('home.noUser')}</Text>
+      {header}
+      <FlatList
+        ref={listRef}
+        data={posts}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <PostCard
+            post={item}
+            onToggleLike={toggleLike}
+            onOpen={(post) => navigate('Post', { postId: post.id })}
+          />
+        )}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => refresh(true)} />}
+        ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.loadingMore} /> : null}
+        ListEmptyComponent={<Text style={styles.empty}>{t('feed.empty')}</Text>}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+      {hasNewPosts && (
+        <Pressable style={styles.newPosts} onPress={showNewPosts} accessibilityRole="button">
+          <Text style={styles.newPostsText}>{t('feed.newPosts')}</Text>
+        </Pressable>
       )}
     </View>
   );
@@ -52,14 +136,48 @@ export default function HomeScreen() {
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  centered: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
   },
-  welcome: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    marginBottom: 20,
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  separator: {
+    height: 8,
+  },
+  loadingMore: {
+    marginVertical: 10,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 40,
+    paddingHorizontal: 20,
+  },
+  newPosts: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#007AFF',
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 3,
+  },
+  newPostsText: {
+    color: '#fff',
+    fontWeight: '600',
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,124 @@
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useAuth } from '../../../hooks/useAuth';
+import { createLogger } from '../../../lib/logger';
+import { createPost, MAX_POST_LENGTH } from '../../../lib/posts';
+import { goBack } from '../../../lib/router';
+import { showError } from '../../../lib/toasts';
+
+const log = createLogger('FEED');
+
+export default function NewPostScreen() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [body, setBody] = useState('');
+  const [image, setImage] = useState<ImagePicker.ImagePickerAsset | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const pickImage = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.7,
+    });
+    if (!result.canceled) {
+      setImage(result.assets[0]);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!user || (!body.trim() && !image)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await createPost(
+        user.id,
+        body,
+        image && {
+          uri: image.uri,
+          mimeType: image.mimeType ?? 'image/jpeg',
+          width: image.width,
+          height: image.height,
+        }
+      );
+      goBack('Home');
+    } catch (err) {
+      log.error('Error creating post', { error: err });
+      showError(err, { fallback: 'error.createPost' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <TextInput
+        style={styles.input}
+        value={body}
+        onChangeText={setBody}
+        placeholder={t('feed.placeholder')}
+        maxLength={MAX_POST_LENGTH}
+        multiline
+        autoFocus
+      />
+      <Text style={styles.counter}>
+        {body.length}/{MAX_POST_LENGTH}
+      </Text>
+      {image ? (
+        <View style={styles.imageContainer}>
+          <Image
+            source={{ uri: image.uri }}
+            style={[styles.image, { aspectRatio: image.width / image.height || 1 }]}
+          />
+          <Button title={t('feed.removeImage')} onPress={() => setImage(null)} color="#FF3B30" />
+        </View>
+      ) : (
+        <Button title={t('feed.addImage')} onPress={pickImage} />
+      )}
+      <View style={styles.submit}>
+        <Button
+          title={loading ? t('feed.posting') : t('feed.post')}
+          onPress={handlePost}
+          disabled={loading || (!body.trim() && !image)}
+        />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+  },
+  input: {
+    minHeight: 120,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+    fontSize: 16,
+    textAlignVertical: 'top',
+  },
+  counter: {
+    alignSelf: 'flex-end',
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+    marginBottom: 15,
+  },
+  imageContainer: {
+    gap: 8,
+  },
+  image: {
+    width: '100%',
+    maxHeight: 320,
+    borderRadius: 12,
+  },
+  submit: {
+    marginTop: 20,
+  },
+});
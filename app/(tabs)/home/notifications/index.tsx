@@ -0,0 +1,283 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Stack } from 'expo-router';
+import type { TFunction } from 'i18next';
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Button,
+  Pressable,
+  RefreshControl,
+  SectionList,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import Avatar from '../../../../components/Avatar';
+import { useAuth } from '../../../../hooks/useAuth';
+import { useNotifications } from '../../../../hooks/useNotifications';
+import { createLogger } from '../../../../lib/logger';
+import type { AppNotification } from '../../../../lib/notifications';
+import { fetchProfilesByIds } from '../../../../lib/profiles';
+import { navigate } from '../../../../lib/router';
+import { formatRelativeTime } from '../../../../lib/time';
+import { showError } from '../../../../lib/toasts';
+
+const log = createLogger('NOTIFICATIONS');
+
+type Section = { title: string; data: AppNotification[] };
+
+// "Today", "Yesterday", or the full date
+const dayTitle = (date: Date, t: TFunction, language: string, now: Date): string => {
+  if (date.toDateString() === now.toDateString()) {
+    return t('notifications.today');
+  }
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+  if (date.toDateString() === yesterday.toDateString()) {
+    return t('time.yesterday');
+  }
+  return date.toLocaleDateString(language, { weekday: 'long', day: 'numeric', month: 'long' });
+};
+
+// Open the screen a notification is about. Follow requests are approved from
+// the user's own followers screen.
+const openNotification = (notification: AppNotification, ownUsername: string | null) => {
+  switch (notification.type) {
+    case 'new_follower':
+      if (notification.actor) {
+        navigate('Profile', { name: notification.actor.username });
+      }
+      break;
+    case 'follow_request':
+      if (ownUsername) {
+        navigate('ProfileFollowers', { name: ownUsername, tab: 'requests' });
+      }
+      break;
+    case 'mention':
+    case 'reply':
+    case 'post_reaction':
+      if (notification.post_id) {
+        navigate('Post', { postId: notification.post_id });
+      }
+      break;
+    case 'group_invite':
+      if (notification.conversation_id) {
+        navigate('MessageConversation', { conversationId: notification.conversation_id });
+      }
+      break;
+  }
+};
+
+export default function NotificationsScreen() {
+  const { user } = useAuth();
+  const { t, i18n } = useTranslation();
+  const {
+    notifications,
+    loading,
+    refreshing,
+    loadingMore,
+    error,
+    refresh,
+    loadMore,
+    markRead,
+    markAllRead,
+  } = useNotifications(user?.id);
+  const [username, setUsername] = useState<string | null>(null);
+
+  // Look up our own username for follow request links
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    fetchProfilesByIds([user.id])
+      .then(([profile]) => setUsername(profile?.username ?? null))
+      .catch((err) => {
+        log.error('Error loading own profile', { error: err });
+      });
+  }, [user]);
+
+  // Handle errors
+  useEffect(() => {
+    if (error) {
+      showError(error);
+    }
+  }, [error]);
+
+  // Group by local day; the list is already newest first
+  const sections = useMemo(() => {
+    const now = new Date();
+    const result: Section[] = [];
+    let currentDay: string | null = null;
+    for (const notification of notifications) {
+      const date = new Date(notification.created_at);
+      if (date.toDateString() !== currentDay) {
+        currentDay = date.toDateString();
+        result.push({ title: dayTitle(date, t, i18n.language, now), data: [] });
+      }
+      result[result.length - 1].data.push(notification);
+    }
+    return result;
+  }, [notifications, t, i18n.language]);
+
+  const hasUnread = notifications.some((notification) => !notification.read_at);
+
+  const describe = (notification: AppNotification) => {
+    const name =
+      notification.actor?.display_name ??
+      notification.actor?.username ??
+      t('notifications.someone');
+    return t(`notifications.types.${notification.type}`, {
+      name,
+      group: notification.metadata?.name ?? t('inbox.unknownGroup'),
+    });
+  };
+
+  const handlePress = (notification: AppNotification) => {
+    markRead(notification);
+    openNotification(notification, username);
+  };
+
+  const renderItem = ({ item }: { item: AppNotification }) => (
+    <Pressable
+      style={({ pressed }) => [
+        styles.row,
+        !item.read_at && styles.unread,
+        pressed && styles.rowPressed,
+      ]}
+      onPress={() => handlePress(item)}
+    >
+      <Avatar uri={item.actor?.avatar_url} name={item.actor?.display_name} size={44} />
+      <View style={styles.rowText}>
+        <Text style={styles.description}>{describe(item)}</Text>
+        {!!item.metadata?.excerpt && (
+          <Text style={styles.excerpt} numberOfLines={2}>
+            {item.metadata.excerpt}
+          </Text>
+        )}
+        <Text style={styles.time}>{formatRelativeTime(item.created_at, t, i18n.language)}</Text>
+      </View>
+      {!item.read_at && <View style={styles.unreadDot} />}
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <View style={styles.headerButtons}>
+              <Button
+                title={t('notifications.markAllRead')}
+                onPress={markAllRead}
+                disabled={!hasUnread}
+              />
+              <Pressable
+                onPress={() => navigate('NotificationSettings')}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel={t('notificationSettings.title')}
+              >
+                <MaterialCommunityIcons name="cog-outline" size={22} color="#007AFF" />
+              </Pressable>
+            </View>
+          ),
+        }}
+      />
+      {loading ? (
+        <View style={styles.centered}>
+          <Text>{t('loading')}</Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionHeader}>{section.title}</Text>
+          )}
+          stickySectionHeadersEnabled={false}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={() => refresh(true)} />
+          }
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator style={styles.loadingMore} /> : null
+          }
+          ListEmptyComponent={<Text style={styles.empty}>{t('notifications.empty')}</Text>}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  unread: {
+    backgroundColor: '#EEF5FF',
+  },
+  rowPressed: {
+    backgroundColor: '#F2F2F7',
+  },
+  rowText: {
+    flex: 1,
+  },
+  description: {
+    fontSize: 15,
+  },
+  excerpt: {
+    fontSize: 14,
+    color: '#3C3C43',
+    marginTop: 2,
+  },
+  time: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#007AFF',
+  },
+  loadingMore: {
+    marginVertical: 10,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, ScrollView, StyleSheet, Switch, Text, View } from 'react-native';
+import { useAuth } from '../../../../hooks/useAuth';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  fetchNotificationPreferences,
+  getDeviceTimeZone,
+  NOTIFICATION_CATEGORIES,
+  NotificationPreferences,
+  updateNotificationPreferences,
+} from '../../../../lib/notificationSettings';
+import { showError } from '../../../../lib/toasts';
+
+// Move a 'HH:MM:SS' time by whole hours, wrapping around midnight
+const shiftTime = (time: string, hours: number): string => {
+  const [hour, minute] = time.split(':').map(Number);
+  const shifted = (((hour + hours) % 24) + 24) % 24;
+  return `${String(shifted).padStart(2, '0')}:${String(minute).padStart(2, '0')}:00`;
+};
+
+export default function NotificationSettingsScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+  const [loading, setLoading] = useState(true);
+  const deviceTimeZone = getDeviceTimeZone();
+
+  // Load saved settings
+  useEffect(() => {
+    if (!user?.id) {
+      return;
+    }
+    fetchNotificationPreferences(user.id)
+      .then(setSettings)
+      .catch((err) => showError(err, { fallback: 'error.loadNotificationSettings' }))
+      .finally(() => setLoading(false));
+  }, [user?.id]);
+
+  // Save a change optimistically, reverting if the server rejects it. The time
+  // zone is always sent so quiet hours are saved with the one shown here.
+  const updateSettings = async (changes: Partial<NotificationPreferences>) => {
+    if (!user?.id) {
+      return;
+    }
+    const previous = settings;
+    setSettings((prev) => ({ ...prev, ...changes }));
+    try {
+      const saved = await updateNotificationPreferences(user.id, {
+        time_zone: settings.time_zone,
+        ...changes,
+      });
+      setSettings(saved);
+    } catch (err) {
+      setSettings(previous);
+      showError(err, { fallback: 'error.saveNotificationSettings' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  const renderTimeStepper = (key: 'quiet_hours_start' | 'quiet_hours_end') => (
+    <View style={styles.row}>
+      <Text style={[styles.label, styles.rowText]}>{t(`notificationSettings.${key}`)}</Text>
+      <Button
+        title="−"
+        onPress={() => updateSettings({ [key]: shiftTime(settings[key], -1) })}
+        disabled={!settings.quiet_hours_enabled}
+      />
+      <Text style={styles.time}>{settings[key].slice(0, 5)}</Text>
+      <Button
+        title="+"
+        onPress={() => updateSettings({ [key]: shiftTime(settings[key], 1) })}
+        disabled={!settings.quiet_hours_enabled}
+      />
+    </View>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.columnHeaders}>
+        <Text style={styles.columnHeader}>{t('notificationSettings.inApp')}</Text>
+        <Text style={styles.columnHeader}>{t('notificationSettings.push')}</Text>
+      </View>
+      {NOTIFICATION_CATEGORIES.map((category) => (
+        <View key={category} style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.label}>{t(`notificationSettings.categories.${category}`)}</Text>
+            <Text style={styles.description}>
+              {t(`notificationSettings.descriptions.${category}`)}
+            </Text>
+          </View>
+          <Switch
+            value={settings[`${category}_in_app`]}
+            onValueChange={(value) => updateSettings({ [`${category}_in_app`]: value })}
+          />
+          <Switch
+            value={settings[`${category}_push`]}
+            onValueChange={(value) => updateSettings({ [`${category}_push`]: value })}
+          />
+        </View>
+      ))}
+
+      <Text style={styles.sectionTitle}>{t('notificationSettings.quietHours')}</Text>
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>{t('notificationSettings.quietHoursEnabled')}</Text>
+          <Text style={styles.description}>{t('notificationSettings.quietHoursDescription')}</Text>
+        </View>
+        <Switch
+          value={settings.quiet_hours_enabled}
+          onValueChange={(value) => updateSettings({ quiet_hours_enabled: value })}
+        />
+      </View>
+      {renderTimeStepper('quiet_hours_start')}
+      {renderTimeStepper('quiet_hours_end')}
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>{t('notificationSettings.timeZone')}</Text>
+          <Text style={styles.description}>{settings.time_zone}</Text>
+        </View>
+        {settings.time_zone !== deviceTimeZone && (
+          <Button
+            title={t('notificationSettings.useDeviceTimeZone', { zone: deviceTimeZone })}
+            onPress={() => updateSettings({ time_zone: deviceTimeZone })}
+          />
+        )}
+      </View>
+
+      <Text style={styles.footnote}>{t('notificationSettings.muteHint')}</Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    padding: 20,
+    gap: 20,
+  },
+  columnHeaders: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginBottom: -10,
+  },
+  columnHeader: {
+    width: 51,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+  },
+  description: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 10,
+  },
+  time: {
+    fontSize: 16,
+    fontVariant: ['tabular-nums'],
+  },
+  footnote: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+});
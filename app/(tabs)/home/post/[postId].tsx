@@ -0,0 +1,185 @@
+import { useHeaderHeight } from '@react-navigation/elements';
+import { useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Button,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import PostCard from '../../../../components/PostCard';
+import { useAuth } from '../../../../hooks/useAuth';
+import { usePost } from '../../../../hooks/usePost';
+import { createLogger } from '../../../../lib/logger';
+import { MAX_COMMENT_LENGTH } from '../../../../lib/posts';
+import { fetchProfilesByIds, Profile } from '../../../../lib/profiles';
+import { navigate } from '../../../../lib/router';
+import { formatRelativeTime } from '../../../../lib/time';
+import { showError } from '../../../../lib/toasts';
+
+const log = createLogger('FEED');
+
+export default function PostScreen() {
+  const { postId } = useLocalSearchParams<{ postId: string }>();
+  const { user } = useAuth();
+  const { t, i18n } = useTranslation();
+  const headerHeight = useHeaderHeight();
+  const { post, comments, loading, error, toggleLike, addComment } = usePost(postId, user?.id);
+  const [draft, setDraft] = useState('');
+  const [me, setMe] = useState<Profile | null>(null);
+
+  // Our own profile, to show on comments before the server confirms them
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    fetchProfilesByIds([user.id])
+      .then(([profile]) => setMe(profile ?? null))
+      .catch((err) => {
+        log.error('Error loading own profile', { error: err });
+      });
+  }, [user]);
+
+  // Handle errors
+  useEffect(() => {
+    if (error) {
+      showError(error);
+    }
+  }, [error]);
+
+  const handleComment = async () => {
+    const body = draft;
+    setDraft('');
+    const added = await addComment(body, me);
+    if (!added) {
+      setDraft(body);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  if (!post) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.empty}>{t('feed.notFound')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={headerHeight}
+    >
+      <FlatList
+        data={comments}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <PostCard post={post} onToggleLike={toggleLike} />
+          </View>
+        }
+        renderItem={({ item }) => (
+          <View style={[styles.comment, item.pending && styles.pending]}>
+            <Pressable
+              disabled={!item.author}
+              onPress={() => item.author && navigate('Profile', { name: item.author.username })}
+            >
+              <Text style={styles.commentAuthor}>
+                {item.author?.display_name ?? item.author?.username ?? t('feed.unknownUser')}
+              </Text>
+            </Pressable>
+            <Text style={styles.commentBody}>{item.body}</Text>
+            <Text style={styles.commentTime}>
+              {formatRelativeTime(item.created_at, t, i18n.language)}
+            </Text>
+          </View>
+        )}
+        ListEmptyComponent={<Text style={styles.empty}>{t('feed.noComments')}</Text>}
+      />
+      <View style={styles.composer}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder={t('feed.commentPlaceholder')}
+          maxLength={MAX_COMMENT_LENGTH}
+          multiline
+        />
+        <Button title={t('feed.comment')} onPress={handleComment} disabled={!draft.trim()} />
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  header: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ccc',
+  },
+  comment: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  pending: {
+    opacity: 0.5,
+  },
+  commentAuthor: {
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  commentBody: {
+    fontSize: 15,
+  },
+  commentTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 20,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#ccc',
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+});
@@ -0,0 +1,298 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { ReactNode, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Button,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import Avatar from '../../../../components/Avatar';
+import { useAuth } from '../../../../hooks/useAuth';
+import { useFollowList, useFollowRequests } from '../../../../hooks/useFollowList';
+import { useProfile } from '../../../../hooks/useProfile';
+import {
+  FollowListKind,
+  FollowRequest,
+  FollowStatus,
+  followStatusOf,
+} from '../../../../lib/follows';
+import { navigate } from '../../../../lib/router';
+import { showError } from '../../../../lib/toasts';
+
+type Tab = FollowListKind | 'requests';
+
+type Person = {
+  user_id: string;
+  display_name: string | null;
+  username: string;
+  avatar_url: string | null;
+};
+
+export default function ProfileFollowersScreen() {
+  const { name, tab: initialTab } = useLocalSearchParams<{ name: string; tab?: Tab }>();
+  const { user } = useAuth();
+  const { profile, loading: profileLoading } = useProfile(name, user?.id);
+  const { t } = useTranslation();
+  const [tab, setTab] = useState<Tab>(initialTab ?? 'followers');
+  const [query, setQuery] = useState('');
+
+  const isOwn = !!profile && profile.id === user?.id;
+  // Private accounts only show their lists to followers
+  const hidden =
+    !!profile &&
+    !isOwn &&
+    (profile.is_blocked || profile.has_blocked_me || (profile.is_private && !profile.is_following));
+  const listKind: FollowListKind = tab === 'following' ? 'following' : 'followers';
+  const list = useFollowList(
+    hidden || tab === 'requests' ? undefined : profile?.id,
+    listKind,
+    query,
+    user?.id
+  );
+  const requests = useFollowRequests(isOwn ? user?.id : undefined);
+
+  // Handle errors
+  useEffect(() => {
+    const error = list.error ?? requests.error;
+    if (error) {
+      showError(error);
+    }
+  }, [list.error, requests.error]);
+
+  const tabs: Tab[] = isOwn ? ['followers', 'following', 'requests'] : ['followers', 'following'];
+
+  const renderPerson = (person: Person, action: ReactNode) => (
+    <Pressable
+      style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+      onPress={() => navigate('Profile', { name: person.username })}
+    >
+      <Avatar uri={person.avatar_url} name={person.display_name ?? person.username} size={44} />
+      <View style={styles.names}>
+        <Text style={styles.displayName} numberOfLines={1}>
+          {person.display_name ?? person.username}
+        </Text>
+        <Text style={styles.username} numberOfLines={1}>
+          @{person.username}
+        </Text>
+      </View>
+      {action}
+    </Pressable>
+  );
+
+  const followButtonTitle = (status: FollowStatus) =>
+    status === 'following'
+      ? t('profile.unfollow')
+      : status === 'requested'
+        ? t('profile.requested')
+        : t('profile.follow');
+
+  const header = (
+    <Stack.Screen options={{ title: profile ? `@${profile.username}` : t('followers.title') }} />
+  );
+
+  if (profileLoading) {
+    return (
+      <View style={styles.centered}>
+        {header}
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!profile || hidden) {
+    return (
+      <View style={styles.centered}>
+        {header}
+        <Text style={styles.empty}>
+          {profile ? t('followers.private') : t('profile.notFoundMessage', { username: name })}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {header}
+      <View style={styles.tabs}>
+        {tabs.map((candidate) => (
+          <Pressable
+            key={candidate}
+            style={[styles.tab, tab === candidate && styles.activeTab]}
+            onPress={() => setTab(candidate)}
+          >
+            <Text style={[styles.tabText, tab === candidate && styles.activeTabText]}>
+              {t(`followers.tabs.${candidate}`)}
+              {candidate === 'requests' && requests.requests.length > 0
+                ? ` (${requests.requests.length})`
+                : ''}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {tab === 'requests' ? (
+        <FlatList
+          data={requests.requests}
+          keyExtractor={(item) => item.user_id}
+          renderItem={({ item }: { item: FollowRequest }) =>
+            renderPerson(
+              item,
+              <View style={styles.requestActions}>
+                <Button
+                  title={t('followers.approve')}
+                  onPress={() => requests.respond(item, true)}
+                />
+                <Button
+                  title={t('followers.deny')}
+                  color="#FF3B30"
+                  onPress={() => requests.respond(item, false)}
+                />
+              </View>
+            )
+          }
+          refreshControl={<RefreshControl refreshing={false} onRefresh={requests.reload} />}
+          ListEmptyComponent={
+            requests.loading ? (
+              <ActivityIndicator style={styles.loadingMore} />
+            ) : (
+              <Text style={styles.empty}>{t('followers.noRequests')}</Text>
+            )
+          }
+          ItemSeparatorComponent={() => <View style={styles.separator} />}
+        />
+      ) : (
+        <>
+          <TextInput
+            style={styles.search}
+            value={query}
+            onChangeText={setQuery}
+            placeholder={t('followers.searchPlaceholder')}
+            autoCapitalize="none"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+          />
+          <FlatList
+            data={list.entries}
+            keyExtractor={(item) => item.user_id}
+            renderItem={({ item }) =>
+              renderPerson(
+                item,
+                item.user_id === user?.id ? null : (
+                  <Button
+                    title={followButtonTitle(followStatusOf(item))}
+                    onPress={() => list.toggleFollow(item)}
+                  />
+                )
+              )
+            }
+            onEndReached={list.loadMore}
+            onEndReachedThreshold={0.5}
+            keyboardShouldPersistTaps="handled"
+            refreshControl={
+              <RefreshControl refreshing={list.refreshing} onRefresh={list.refresh} />
+            }
+            ListFooterComponent={
+              list.loadingMore ? <ActivityIndicator style={styles.loadingMore} /> : null
+            }
+            ListEmptyComponent={
+              list.loading ? (
+                <ActivityIndicator style={styles.loadingMore} />
+              ) : (
+                <Text style={styles.empty}>
+                  {query ? t('followers.noResults') : t(`followers.empty.${listKind}`)}
+                </Text>
+              )
+            }
+            ItemSeparatorComponent={() => <View style={styles.separator} />}
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ccc',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: '#007AFF',
+  },
+  tabText: {
+    fontSize: 15,
+    color: '#8E8E93',
+  },
+  activeTabText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  search: {
+    margin: 10,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 12,
+  },
+  rowPressed: {
+    backgroundColor: '#F2F2F7',
+  },
+  names: {
+    flex: 1,
+  },
+  displayName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  username: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  requestActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: '#ccc',
+    marginLeft: 72,
+  },
+  loadingMore: {
+    marginVertical: 10,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 40,
+  },
+});
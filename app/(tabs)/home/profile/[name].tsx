@@ -0,0 +1,273 @@
+import { LinearGradient } from 'expo-linear-gradient';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Button, Pressable, Share, StyleSheet, Text, View } from 'react-native';
+import Avatar from '../../../../components/Avatar';
+import ParallaxScrollView from '../../../../components/ParallaxScrollView';
+import PresenceDot from '../../../../components/PresenceDot';
+import Skeleton from '../../../../components/Skeleton';
+import { useAuth } from '../../../../hooks/useAuth';
+import { useProfile } from '../../../../hooks/useProfile';
+import {
+  DIRECT_CONVERSATION_ERROR_KEYS,
+  getOrCreateDirectConversation,
+} from '../../../../lib/messages';
+import { getShareUrl, navigate } from '../../../../lib/router';
+import { showError } from '../../../../lib/toasts';
+import { universityFromDomain } from '../../../../lib/universities';
+
+const AVATAR_SIZE = 112;
+const HEADER_COLORS = { light: '#D0E4FF', dark: '#1D3D5C' };
+
+export default function ProfileScreen() {
+  const { name } = useLocalSearchParams<{ name: string }>();
+  const { user } = useAuth();
+  const { profile, loading, updating, error, follow, unfollow, block, unblock } = useProfile(
+    name,
+    user?.id
+  );
+  const { t, i18n } = useTranslation();
+  const [openingChat, setOpeningChat] = useState(false);
+
+  // Handle errors
+  useEffect(() => {
+    if (error) {
+      showError(error);
+    }
+  }, [error]);
+
+  const isOwn = !!profile && profile.id === user?.id;
+  const formatCount = (count: number) => count.toLocaleString(i18n.language);
+
+  const handleMessage = async () => {
+    if (!profile) {
+      return;
+    }
+    setOpeningChat(true);
+    try {
+      const conversationId = await getOrCreateDirectConversation(profile.id);
+      navigate('MessageConversation', { conversationId });
+    } catch (err) {
+      showError(err, DIRECT_CONVERSATION_ERROR_KEYS);
+    } finally {
+      setOpeningChat(false);
+    }
+  };
+
+  const handleShare = () => {
+    if (profile) {
+      Share.share({ message: getShareUrl('Profile', { name: profile.username }) });
+    }
+  };
+
+  const confirmBlock = () => {
+    Alert.alert(
+      t('profile.blockTitle', { username: profile?.username }),
+      t('profile.blockMessage'),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('profile.block'), style: 'destructive', onPress: block },
+      ]
+    );
+  };
+
+  const header = (
+    <Stack.Screen
+      options={{
+        title: profile ? `@${profile.username}` : t('profile.title'),
+        headerRight:
+          profile && !isOwn && !profile.is_blocked && !profile.has_blocked_me
+            ? () => <Button title={t('profile.block')} color="#FF3B30" onPress={confirmBlock} />
+            : undefined,
+      }}
+    />
+  );
+
+  const headerImage = (
+    <LinearGradient colors={['#007AFF', '#5AC8FA']} style={styles.headerImage}>
+      <View>
+        {loading ? (
+          <Skeleton width={AVATAR_SIZE} height={AVATAR_SIZE} radius={AVATAR_SIZE / 2} />
+        ) : (
+          <Avatar
+            uri={
+              profile && !profile.is_blocked && !profile.has_blocked_me ? profile.avatar_url : null
+            }
+            name={profile?.display_name ?? profile?.username}
+            size={AVATAR_SIZE}
+            style={styles.avatar}
+          />
+        )}
+        {profile && !isOwn && !profile.is_blocked && !profile.has_blocked_me && (
+          <PresenceDot userId={profile.id} size={24} />
+        )}
+      </View>
+    </LinearGradient>
+  );
+
+  if (loading) {
+    return (
+      <ParallaxScrollView headerImage={headerImage} headerBackgroundColor={HEADER_COLORS}>
+        {header}
+        <Skeleton width="60%" height={28} />
+        <Skeleton width="40%" />
+        <Skeleton width="70%" />
+        <Skeleton height={48} />
+        <View style={styles.counts}>
+          <Skeleton width={80} height={40} />
+          <Skeleton width={80} height={40} />
+        </View>
+      </ParallaxScrollView>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <View style={styles.centered}>
+        {header}
+        <Text style={styles.stateTitle}>{t('profile.notFoundTitle')}</Text>
+        <Text style={styles.stateMessage}>{t('profile.notFoundMessage', { username: name })}</Text>
+      </View>
+    );
+  }
+
+  if (profile.is_blocked || profile.has_blocked_me) {
+    return (
+      <ParallaxScrollView headerImage={headerImage} headerBackgroundColor={HEADER_COLORS}>
+        {header}
+        <Text style={styles.username}>@{profile.username}</Text>
+        {profile.is_blocked ? (
+          <>
+            <Text style={styles.stateMessage}>{t('profile.blockedMessage')}</Text>
+            <Button title={t('profile.unblock')} onPress={unblock} disabled={updating} />
+          </>
+        ) : (
+          <Text style={styles.stateMessage}>{t('profile.unavailableMessage')}</Text>
+        )}
+      </ParallaxScrollView>
+    );
+  }
+
+  const university = universityFromDomain(profile.email_domain);
+
+  return (
+    <ParallaxScrollView headerImage={headerImage} headerBackgroundColor={HEADER_COLORS}>
+      {header}
+      <View>
+        <Text style={styles.displayName}>{profile.display_name ?? profile.username}</Text>
+        <Text style={styles.username}>@{profile.username}</Text>
+      </View>
+      {university && <Text style={styles.university}>{university}</Text>}
+      {!!profile.bio && <Text style={styles.bio}>{profile.bio}</Text>}
+      {profile.is_private && <Text style={styles.private}>{t('profile.private')}</Text>}
+      <Pressable
+        style={styles.counts}
+        onPress={() => navigate('ProfileFollowers', { name: profile.username })}
+        disabled={profile.is_private && !profile.is_following && !isOwn}
+      >
+        <View style={styles.count}>
+          <Text style={styles.countValue}>{formatCount(profile.follower_count)}</Text>
+          <Text style={styles.countLabel}>{t('profile.followers')}</Text>
+        </View>
+        <View style={styles.count}>
+          <Text style={styles.countValue}>{formatCount(profile.following_count)}</Text>
+          <Text style={styles.countLabel}>{t('profile.following')}</Text>
+        </View>
+      </Pressable>
+      {isOwn ? (
+        <Button title={t('profile.edit')} onPress={() => navigate('AccountSettings')} />
+      ) : (
+        <View style={styles.actions}>
+          <View style={styles.action}>
+            <Button
+              title={
+                profile.is_following
+                  ? t('profile.unfollow')
+                  : profile.has_requested
+                    ? t('profile.requested')
+                    : t('profile.follow')
+              }
+              onPress={profile.is_following || profile.has_requested ? unfollow : follow}
+            />
+          </View>
+          <View style={styles.action}>
+            <Button title={t('profile.message')} onPress={handleMessage} disabled={openingChat} />
+          </View>
+        </View>
+      )}
+      <Button title={t('profile.share')} onPress={handleShare} />
+    </ParallaxScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    gap: 8,
+  },
+  headerImage: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    paddingBottom: 24,
+  },
+  avatar: {
+    borderWidth: 3,
+    borderColor: '#fff',
+  },
+  displayName: {
+    fontSize: 26,
+    fontWeight: 'bold',
+  },
+  username: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  university: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  private: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  bio: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  counts: {
+    flexDirection: 'row',
+    gap: 32,
+  },
+  count: {
+    alignItems: 'flex-start',
+  },
+  countValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  countLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  action: {
+    flex: 1,
+  },
+  stateTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  stateMessage: {
+    fontSize: 15,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
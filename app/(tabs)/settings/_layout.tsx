@@ -0,0 +1,23 @@
+import { Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+export default function SettingsLayout() {
+  const { t } = useTranslation();
+
+  return (
+    <Stack>
+      <Stack.Screen name="index" options={{ title: t('settings.title') }} />
+      <Stack.Screen name="account-settings" options={{ title: t('account.title') }} />
+      <Stack.Screen
+        name="privacy-and-security/index"
+        options={{ title: t('privacy.title') }}
+      />
+      <Stack.Screen name="privacy-and-security/face-id" options={{ title: t('privacy.appLock') }} />
+      <Stack.Screen
+        name="privacy-and-security/blocked-users"
+        options={{ title: t('blocked.title') }}
+      />
+      <Stack.Screen name="diagnostics" options={{ title: t('diagnostics.title') }} />
+    </Stack>
+  );
+}
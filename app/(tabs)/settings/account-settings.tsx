@@ -0,0 +1,310 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import AvatarPicker from '../../../components/AvatarPicker';
+import { useAccountSettings } from '../../../hooks/useAccountSettings';
+import { useAuth } from '../../../hooks/useAuth';
+import { useUsernameAvailability } from '../../../hooks/useUsernameAvailability';
+import {
+  MAX_BIO_LENGTH,
+  MAX_DISPLAY_NAME_LENGTH,
+  nextUsernameChangeAt,
+  USERNAME_CHANGE_INTERVAL_DAYS,
+} from '../../../lib/account';
+import { AppError } from '../../../lib/errors';
+import { createLogger } from '../../../lib/logger';
+import { profileEditSchema } from '../../../lib/profileSchemas';
+import { showError } from '../../../lib/toasts';
+
+const log = createLogger('ACCOUNT');
+
+export default function AccountSettingsScreen() {
+  const { user, signOut } = useAuth();
+  const { t, i18n } = useTranslation();
+  const { profile, loading, saving, error, saveProfile, changeUsername, deleteAccount } =
+    useAccountSettings(user?.id);
+  const [form, setForm] = useState({ display_name: '', bio: '', avatar_url: '' });
+  const [username, setUsername] = useState('');
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const availability = useUsernameAvailability(username.trim(), profile?.username);
+
+  // Fill the form once the profile has loaded
+  useEffect(() => {
+    if (profile) {
+      setForm({
+        display_name: profile.display_name,
+        bio: profile.bio ?? '',
+        avatar_url: profile.avatar_url ?? '',
+      });
+      setUsername(profile.username);
+    }
+  }, [profile]);
+
+  // Handle errors
+  useEffect(() => {
+    if (error) {
+      showError(error);
+    }
+  }, [error]);
+
+  if (loading || !profile) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  const profileChanged =
+    form.display_name.trim() !== profile.display_name ||
+    form.bio.trim() !== (profile.bio ?? '') ||
+    form.avatar_url.trim() !== (profile.avatar_url ?? '');
+  const nextChangeAt = nextUsernameChangeAt(profile);
+
+  const handleSaveProfile = async () => {
+    const parsed = profileEditSchema.safeParse(form);
+    if (!parsed.success) {
+      showError(new AppError('validation', { messageKey: parsed.error.issues[0].message }));
+      return;
+    }
+    if (await saveProfile(parsed.data)) {
+      Alert.alert(t('account.savedTitle'), t('account.savedMessage'));
+    }
+  };
+
+  const handleChangeUsername = () => {
+    const next = username.trim();
+    Alert.alert(
+      t('account.changeUsernameTitle', { username: next }),
+      t('account.changeUsernameMessage', { count: USERNAME_CHANGE_INTERVAL_DAYS }),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('account.changeUsername'), onPress: () => changeUsername(next) },
+      ]
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!(await deleteAccount())) {
+      return;
+    }
+    try {
+      await signOut();
+    } catch (err) {
+      // The account is already gone, so a failed sign-out only leaves a dead session
+      log.error('Sign out after deletion failed', { error: err });
+    }
+  };
+
+  const availabilityText = {
+    unchanged: null,
+    invalid: t('account.usernameInvalid'),
+    checking: t('account.usernameChecking'),
+    available: t('account.usernameAvailable'),
+    taken: t('account.usernameTaken'),
+    unknown: null,
+  }[availability];
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.flex}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={100}
+    >
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionTitle}>{t('account.profile')}</Text>
+        <AvatarPicker
+          userId={user!.id}
+          uri={form.avatar_url || null}
+          name={form.display_name || profile.username}
+          onChange={(uri) => setForm((prev) => ({ ...prev, avatar_url: uri ?? '' }))}
+        />
+        <Text style={styles.label}>{t('completeProfile.displayName')}</Text>
+        <TextInput
+          style={styles.input}
+          value={form.display_name}
+          onChangeText={(text) => setForm((prev) => ({ ...prev, display_name: text }))}
+          maxLength={MAX_DISPLAY_NAME_LENGTH}
+          autoCapitalize="words"
+        />
+        <Text style={styles.label}>{t('account.bio')}</Text>
+        <TextInput
+          style={[styles.input, styles.bio]}
+          value={form.bio}
+          onChangeText={(text) => setForm((prev) => ({ ...prev, bio: text }))}
+          placeholder={t('account.bioPlaceholder')}
+          maxLength={MAX_BIO_LENGTH}
+          multiline
+        />
+        <Text style={styles.counter}>
+          {form.bio.length}/{MAX_BIO_LENGTH}
+        </Text>
+        <Button
+          title={t('account.saveProfile')}
+          onPress={handleSaveProfile}
+          disabled={!profileChanged || saving}
+        />
+
+        <Text style={styles.sectionTitle}>{t('account.username')}</Text>
+        <TextInput
+          style={styles.input}
+          value={username}
+          onChangeText={setUsername}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!nextChangeAt}
+        />
+        {nextChangeAt ? (
+          <Text style={styles.hint}>
+            {t('account.usernameLocked', {
+              date: nextChangeAt.toLocaleDateString(i18n.language, {
+                day: 'numeric',
+                month: 'long',
+              }),
+            })}
+          </Text>
+        ) : (
+          <View style={styles.availability}>
+            {availability === 'checking' && <ActivityIndicator size="small" />}
+            {availabilityText && (
+              <Text
+                style={[
+                  styles.hint,
+                  availability === 'available' && styles.available,
+                  (availability === 'taken' || availability === 'invalid') && styles.unavailable,
+                ]}
+              >
+                {availabilityText}
+              </Text>
+            )}
+          </View>
+        )}
+        <Button
+          title={t('account.changeUsername')}
+          onPress={handleChangeUsername}
+          disabled={
+            !!nextChangeAt || saving || (availability !== 'available' && availability !== 'unknown')
+          }
+        />
+
+        <Text style={styles.sectionTitle}>{t('account.email')}</Text>
+        <Text style={styles.label}>{user?.email}</Text>
+        <Text style={styles.hint}>{t('account.emailHint')}</Text>
+
+        <Text style={styles.sectionTitle}>{t('account.deleteAccount')}</Text>
+        {confirmingDelete ? (
+          <>
+            <Text style={styles.hint}>
+              {t('account.deleteConfirmMessage', { username: profile.username })}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={deleteConfirmation}
+              onChangeText={setDeleteConfirmation}
+              placeholder={profile.username}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.buttonRow}>
+              <Button
+                title={t('cancel')}
+                onPress={() => {
+                  setConfirmingDelete(false);
+                  setDeleteConfirmation('');
+                }}
+              />
+              <Button
+                title={t('account.deleteForever')}
+                color="#FF3B30"
+                onPress={handleDelete}
+                disabled={saving || deleteConfirmation.trim() !== profile.username}
+              />
+            </View>
+          </>
+        ) : (
+          <>
+            <Text style={styles.hint}>{t('account.deleteDescription')}</Text>
+            <Button
+              title={t('account.deleteAccount')}
+              color="#FF3B30"
+              onPress={() => setConfirmingDelete(true)}
+            />
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    padding: 20,
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 20,
+  },
+  label: {
+    fontSize: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  bio: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  counter: {
+    alignSelf: 'flex-end',
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  availability: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    minHeight: 20,
+  },
+  available: {
+    color: '#34C759',
+  },
+  unavailable: {
+    color: '#FF3B30',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+});
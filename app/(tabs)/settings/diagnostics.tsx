@@ -0,0 +1,154 @@
+import { Stack } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Button,
+  FlatList,
+  Platform,
+  Share,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { useLogs } from '../../../hooks/useLogs';
+import { clearLogs, formatLogEntries, LogEntry, LogLevel, setLogLevel } from '../../../lib/logger';
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '#8E8E93',
+  info: '#007AFF',
+  warn: '#FF9500',
+  error: '#FF3B30',
+};
+
+// Hidden screen, opened by long-pressing the version in Settings, for looking
+// at recent logs and sending them along with a bug report
+export default function DiagnosticsScreen() {
+  const { t } = useTranslation();
+  const { entries, level } = useLogs();
+  const newestFirst = [...entries].reverse();
+
+  const handleShare = () => {
+    Share.share({ message: formatLogEntries(entries) });
+  };
+
+  const confirmClear = () => {
+    Alert.alert(t('diagnostics.clearTitle'), t('diagnostics.clearMessage'), [
+      { text: t('cancel'), style: 'cancel' },
+      { text: t('diagnostics.clear'), style: 'destructive', onPress: () => clearLogs() },
+    ]);
+  };
+
+  // Off keeps only warnings and errors, as release builds do by default
+  const toggleVerbose = (verbose: boolean) => {
+    setLogLevel(verbose ? 'debug' : 'warn');
+  };
+
+  const renderItem = ({ item }: { item: LogEntry }) => (
+    <View style={styles.entry}>
+      <Text style={styles.meta}>
+        <Text style={{ color: LEVEL_COLORS[item.level] }}>{item.level.toUpperCase()}</Text>
+        {`  ${new Date(item.time).toLocaleTimeString()}  ${item.namespace}`}
+      </Text>
+      <Text style={styles.message}>{item.message}</Text>
+      {item.data !== undefined && (
+        <Text style={styles.data} numberOfLines={8}>
+          {JSON.stringify(item.data, null, 2)}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <Button
+              title={t('diagnostics.share')}
+              onPress={handleShare}
+              disabled={entries.length === 0}
+            />
+          ),
+        }}
+      />
+      <FlatList
+        style={styles.container}
+        data={newestFirst}
+        keyExtractor={(item, index) => `${item.time}-${index}`}
+        renderItem={renderItem}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <View style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={styles.label}>{t('diagnostics.verbose')}</Text>
+                <Text style={styles.hint}>{t('diagnostics.verboseHint')}</Text>
+              </View>
+              <Switch value={level === 'debug'} onValueChange={toggleVerbose} />
+            </View>
+            <Button
+              title={t('diagnostics.clear')}
+              color="#FF3B30"
+              onPress={confirmClear}
+              disabled={entries.length === 0}
+            />
+          </View>
+        }
+        ListEmptyComponent={<Text style={styles.empty}>{t('diagnostics.empty')}</Text>}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  entry: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 2,
+  },
+  meta: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  message: {
+    fontSize: 14,
+  },
+  data: {
+    fontSize: 12,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    color: '#3C3C43',
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: '#ccc',
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 40,
+  },
+});
@@ -1,11 +1,16 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Alert, Button, StyleSheet, Text, View } from 'react-native';
+import { Button, StyleSheet, Text, View } from 'react-native';
+import { useAuth } from '../../../hooks/useAuth';
+import { navigate } from '../../../lib/router';
+import { showError } from '../../../lib/toasts';
 
 export default function SettingsScreen() {
   const { t, i18n } = useTranslation();
   const [currentLanguage, setCurrentLanguage] = useState(i18n.language);
+  const { signOut } = useAuth();
 
   // Persist language selection
   const changeLanguage = async (lang: string) => {
@@ -14,7 +19,7 @@ export default function SettingsScreen() {
       await AsyncStorage.setItem('appLanguage', lang);
       setCurrentLanguage(lang);
     } catch (err) {
-      Alert.alert(t('error.title'), t('error.changeLanguage'));
+      showError(err, { fallback: 'error.changeLanguage' });
     }
   };
 
@@ -30,6 +35,14 @@ export default function SettingsScreen() {
     loadLanguage();
   }, [i18n]);
 
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      showError(err, { fallback: 'error.signOut' });
+    }
+  };
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>{t('settings.title')}</Text>
@@ -46,6 +59,17 @@ export default function SettingsScreen() {
           disabled={currentLanguage === 'vi'}
         />
       </View>
+      <View style={styles.section}>
+        <Button title={t('account.title')} onPress={() => navigate('AccountSettings')} />
+        <Button title={t('privacy.title')} onPress={() => navigate('PrivacyAndSecurity')} />
+      </View>
+      <View style={styles.section}>
+        <Button title={t('settings.signOut')} onPress={handleSignOut} color="#FF3B30" />
+      </View>
+      {/* Long-press opens the hidden Diagnostics screen */}
+      <Text style={styles.version} onLongPress={() => navigate('Diagnostics')}>
+        {t('settings.version', { version: Constants.expoConfig?.version ?? '' })}
+      </Text>
     </View>
   );
 }
@@ -70,4 +94,12 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 10,
   },
+  section: {
+    marginTop: 30,
+  },
+  version: {
+    marginTop: 30,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
 });
\ No newline at end of file
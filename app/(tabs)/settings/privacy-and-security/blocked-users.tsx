@@ -0,0 +1,125 @@
+import { useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Button,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import Avatar from '../../../../components/Avatar';
+import { useAuth } from '../../../../hooks/useAuth';
+import { useBlockedUsers } from '../../../../hooks/useBlockedUsers';
+import type { BlockedUser } from '../../../../lib/blocks';
+import { navigate } from '../../../../lib/router';
+import { showError } from '../../../../lib/toasts';
+
+export default function BlockedUsersScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const { blockedUsers, loading, error, reload, unblock } = useBlockedUsers(user?.id);
+
+  // Handle errors
+  useEffect(() => {
+    if (error) {
+      showError(error);
+    }
+  }, [error]);
+
+  const confirmUnblock = (blockedUser: BlockedUser) => {
+    Alert.alert(
+      t('blocked.unblockTitle', { username: blockedUser.username }),
+      t('blocked.unblockMessage'),
+      [
+        { text: t('cancel'), style: 'cancel' },
+        { text: t('profile.unblock'), onPress: () => unblock(blockedUser) },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: BlockedUser }) => (
+    <Pressable
+      style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+      onPress={() => navigate('Profile', { name: item.username })}
+    >
+      <Avatar uri={item.avatar_url} name={item.display_name ?? item.username} size={44} />
+      <View style={styles.names}>
+        <Text style={styles.displayName} numberOfLines={1}>
+          {item.display_name ?? item.username}
+        </Text>
+        <Text style={styles.username} numberOfLines={1}>
+          @{item.username}
+        </Text>
+      </View>
+      <Button title={t('profile.unblock')} onPress={() => confirmUnblock(item)} />
+    </Pressable>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={blockedUsers}
+      keyExtractor={(item) => item.user_id}
+      renderItem={renderItem}
+      refreshControl={<RefreshControl refreshing={false} onRefresh={reload} />}
+      ListHeaderComponent={<Text style={styles.hint}>{t('blocked.hint')}</Text>}
+      ListEmptyComponent={
+        loading ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : (
+          <Text style={styles.empty}>{t('blocked.empty')}</Text>
+        )
+      }
+      ItemSeparatorComponent={() => <View style={styles.separator} />}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    padding: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 12,
+  },
+  rowPressed: {
+    backgroundColor: '#F2F2F7',
+  },
+  names: {
+    flex: 1,
+  },
+  displayName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  username: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: '#ccc',
+    marginLeft: 72,
+  },
+  loading: {
+    marginVertical: 10,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Button,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {
+  AppLockSettings,
+  canUseBiometrics,
+  DEFAULT_APP_LOCK_SETTINGS,
+  fetchAppLockSettings,
+  hasPin,
+  LOCK_TIMEOUTS,
+  LockTimeout,
+  PIN_LENGTH,
+  setPin,
+  updateAppLockSettings,
+} from '../../../../lib/appLock';
+import { AppError } from '../../../../lib/errors';
+import { showError } from '../../../../lib/toasts';
+
+type PinStep = { stage: 'enter' } | { stage: 'confirm'; first: string };
+
+export default function FaceIDScreen() {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<AppLockSettings>(DEFAULT_APP_LOCK_SETTINGS);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [pinSet, setPinSet] = useState(false);
+  const [pinStep, setPinStep] = useState<PinStep | null>(null);
+  const [pinInput, setPinInput] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  // Load saved settings and what the device supports
+  useEffect(() => {
+    Promise.all([fetchAppLockSettings(), canUseBiometrics(), hasPin()])
+      .then(([saved, available, storedPin]) => {
+        setSettings(saved);
+        setBiometricsAvailable(available);
+        setPinSet(storedPin);
+      })
+      .catch((err) => showError(err, { fallback: 'error.loadAppLock' }))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateSettings = async (changes: Partial<AppLockSettings>) => {
+    try {
+      setSettings(await updateAppLockSettings(changes));
+    } catch (err) {
+      showError(err, { fallback: 'error.saveAppLock' });
+    }
+  };
+
+  // The lock can only be turned on once there is a PIN to fall back to
+  const toggleEnabled = (value: boolean) => {
+    if (value && !pinSet) {
+      setPinStep({ stage: 'enter' });
+      return;
+    }
+    updateSettings({ enabled: value });
+  };
+
+  const cancelPin = () => {
+    setPinStep(null);
+    setPinInput('');
+  };
+
+  // Ask for the new PIN twice before saving it
+  const handlePinChange = async (value: string) => {
+    const digits = value.replace(/\D/g, '').slice(0, PIN_LENGTH);
+    setPinInput(digits);
+    if (!pinStep || digits.length < PIN_LENGTH) {
+      return;
+    }
+    if (pinStep.stage === 'enter') {
+      setPinStep({ stage: 'confirm', first: digits });
+      setPinInput('');
+      return;
+    }
+    if (digits !== pinStep.first) {
+      showError(new AppError('validation', { messageKey: 'appLock.pinMismatch' }));
+      setPinStep({ stage: 'enter' });
+      setPinInput('');
+      return;
+    }
+    try {
+      await setPin(digits);
+      setPinSet(true);
+      cancelPin();
+      if (!settings.enabled) {
+        await updateSettings({ enabled: true });
+      }
+    } catch (err) {
+      showError(err, { fallback: 'error.saveAppLock' });
+    }
+  };
+
+  const timeoutLabel = (timeout: LockTimeout) =>
+    timeout === 0
+      ? t('appLock.timeouts.immediately')
+      : t('appLock.timeouts.minutes', { count: timeout / 60 });
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  if (pinStep) {
+    return (
+      <View style={styles.pinContainer}>
+        <Text style={styles.label}>
+          {pinStep.stage === 'enter' ? t('appLock.choosePin') : t('appLock.confirmPin')}
+        </Text>
+        <TextInput
+          key={pinStep.stage}
+          style={styles.pinInput}
+          value={pinInput}
+          onChangeText={handlePinChange}
+          keyboardType="number-pad"
+          secureTextEntry
+          maxLength={PIN_LENGTH}
+          autoFocus
+        />
+        <Button title={t('cancel')} onPress={cancelPin} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>{t('appLock.enabled')}</Text>
+          <Text style={styles.description}>{t('appLock.enabledDescription')}</Text>
+        </View>
+        <Switch value={settings.enabled} onValueChange={toggleEnabled} />
+      </View>
+
+      {settings.enabled && (
+        <>
+          {biometricsAvailable && (
+            <View style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={styles.label}>{t('appLock.biometrics')}</Text>
+                <Text style={styles.description}>{t('appLock.biometricsDescription')}</Text>
+              </View>
+              <Switch
+                value={settings.biometrics}
+                onValueChange={(value) => updateSettings({ biometrics: value })}
+              />
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>{t('appLock.timeout')}</Text>
+          {LOCK_TIMEOUTS.map((timeout) => (
+            <Pressable
+              key={timeout}
+              style={styles.row}
+              onPress={() => updateSettings({ timeout })}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: settings.timeout === timeout }}
+            >
+              <Text style={[styles.label, styles.rowText]}>{timeoutLabel(timeout)}</Text>
+              {settings.timeout === timeout && <Text style={styles.check}>✓</Text>}
+            </Pressable>
+          ))}
+
+          <Button title={t('appLock.changePin')} onPress={() => setPinStep({ stage: 'enter' })} />
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    padding: 20,
+    gap: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+  },
+  description: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 10,
+  },
+  check: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  pinContainer: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 40,
+    gap: 20,
+  },
+  pinInput: {
+    width: 160,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Pressable, ScrollView, StyleSheet, Switch, Text, View } from 'react-native';
+import { useAuth } from '../../../../hooks/useAuth';
+import { setPresenceHidden } from '../../../../lib/presence';
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  DM_PERMISSIONS,
+  fetchPrivacySettings,
+  PrivacySettings,
+  updatePrivacySettings,
+} from '../../../../lib/privacy';
+import { navigate } from '../../../../lib/router';
+import { showError } from '../../../../lib/toasts';
+
+export default function PrivacyAndSecurityScreen() {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<PrivacySettings>(DEFAULT_PRIVACY_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  // Load saved settings
+  useEffect(() => {
+    if (!user?.id) {
+      return;
+    }
+    fetchPrivacySettings(user.id)
+      .then(setSettings)
+      .catch((err) => showError(err, { fallback: 'error.loadPrivacySettings' }))
+      .finally(() => setLoading(false));
+  }, [user?.id]);
+
+  // Save a change optimistically, reverting if the server rejects it
+  const updateSetting = async <K extends keyof PrivacySettings>(
+    key: K,
+    value: PrivacySettings[K]
+  ) => {
+    if (!user?.id) {
+      return;
+    }
+    const previous = settings;
+    setSettings((prev) => ({ ...prev, [key]: value }));
+    try {
+      const saved = await updatePrivacySettings(user.id, { [key]: value });
+      setSettings(saved);
+      if (key === 'hide_last_seen') {
+        setPresenceHidden(saved.hide_last_seen);
+      }
+    } catch (err) {
+      setSettings(previous);
+      showError(err, { fallback: 'error.savePrivacySettings' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>{t('privacy.privateAccount')}</Text>
+          <Text style={styles.description}>{t('privacy.privateAccountDescription')}</Text>
+        </View>
+        <Switch
+          value={settings.private_account}
+          onValueChange={(value) => updateSetting('private_account', value)}
+        />
+      </View>
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>{t('privacy.hideLastSeen')}</Text>
+          <Text style={styles.description}>{t('privacy.hideLastSeenDescription')}</Text>
+        </View>
+        <Switch
+          value={settings.hide_last_seen}
+          onValueChange={(value) => updateSetting('hide_last_seen', value)}
+        />
+      </View>
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>{t('privacy.readReceipts')}</Text>
+          <Text style={styles.description}>{t('privacy.readReceiptsDescription')}</Text>
+        </View>
+        <Switch
+          value={settings.read_receipts}
+          onValueChange={(value) => updateSetting('read_receipts', value)}
+        />
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('privacy.dmPermission')}</Text>
+      {DM_PERMISSIONS.map((permission) => (
+        <Pressable
+          key={permission}
+          style={styles.row}
+          onPress={() => updateSetting('dm_permission', permission)}
+          accessibilityRole="radio"
+          accessibilityState={{ checked: settings.dm_permission === permission }}
+        >
+          <Text style={[styles.label, styles.rowText]}>
+            {t(`privacy.dmPermissions.${permission}`)}
+          </Text>
+          {settings.dm_permission === permission && <Text style={styles.check}>✓</Text>}
+        </Pressable>
+      ))}
+
+      <Text style={styles.sectionTitle}>{t('privacy.security')}</Text>
+      <Button title={t('blocked.title')} onPress={() => navigate('BlockedUsers')} />
+      <Button title={t('privacy.appLock')} onPress={() => navigate('FaceID')} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  container: {
+    padding: 20,
+    gap: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+  },
+  description: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 10,
+  },
+  check: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,17 @@
+import { getAuthState } from '../lib/auth';
+import { resolveIncomingLink } from '../lib/deepLinks';
+import { createLogger } from '../lib/logger';
+import { getPath } from '../lib/router';
+
+const log = createLogger('NATIVE INTENT');
+
+// Rewrites links that open the app, on cold and warm starts, before
+// expo-router resolves them to a screen
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return resolveIncomingLink(path, getAuthState().status === 'ready');
+  } catch (err) {
+    log.error('Error resolving link', { path, error: err });
+    return getPath('Home');
+  }
+}
@@ -1,26 +1,90 @@
 import { Stack } from 'expo-router';
+import * as SplashScreen from 'expo-splash-screen';
 import * as WebBrowser from 'expo-web-browser';
 import { useEffect } from 'react';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import AppLock from '../components/AppLock';
+import ErrorToasts from '../components/ErrorToasts';
+import { useAuth } from '../hooks/useAuth';
 import '../i18n/i18n'; // Initialize i18next
-import { supabase } from '../lib/supabase';
+import { startAppLock } from '../lib/appLock';
+import { startAuth } from '../lib/auth';
+import { conversationOutboxHandlers } from '../lib/conversations';
+import { takePendingDeepLink } from '../lib/deepLinks';
+import { startLogger } from '../lib/logger';
+import { messageOutboxHandlers } from '../lib/messages';
+import { startOutbox } from '../lib/outbox';
+import { startPresence } from '../lib/presence';
+import { receiptOutboxHandlers } from '../lib/receipts';
+import { openLink } from '../lib/router';
 // Dismiss the in-app browser after OAuth redirect
 WebBrowser.maybeCompleteAuthSession();
+// Keep the splash screen up until we know where to send the user
+SplashScreen.preventAutoHideAsync();
 
 export default function RootLayout() {
-  // Clean up Supabase subscriptions on unmount
+  // Keep recent logs across launches for the Diagnostics screen
   useEffect(() => {
-    return () => {
-      supabase.auth.onAuthStateChange(() => {}).data.subscription.unsubscribe();
-    };
+    return startLogger();
+  }, []);
+
+  // Track the session and profile status for every screen
+  useEffect(() => {
+    return startAuth();
+  }, []);
+  const { status } = useAuth();
+  const resolved = status !== 'initializing' && status !== 'checkingProfile';
+
+  useEffect(() => {
+    if (resolved) {
+      SplashScreen.hideAsync();
+    }
+  }, [resolved]);
+
+  // A link opened before sign-in lands on login (see +native-intent); open it
+  // once signed in
+  useEffect(() => {
+    if (status === 'ready') {
+      const link = takePendingDeepLink();
+      if (link) {
+        openLink(link);
+      }
+    }
+  }, [status]);
+
+  // Replay queued messages and mutations whenever the device is online
+  useEffect(() => {
+    return startOutbox({
+      ...messageOutboxHandlers,
+      ...conversationOutboxHandlers,
+      ...receiptOutboxHandlers,
+    });
+  }, []);
+
+  // Share online presence while signed in and in the foreground
+  useEffect(() => {
+    return startPresence();
+  }, []);
+
+  // Lock the app on launch and after time in the background, if enabled
+  useEffect(() => {
+    return startAppLock();
   }, []);
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
+      {/* Signed-out users and unfinished profiles stay in (auth); see its layout */}
       <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+        <Stack.Protected guard={status === 'ready'}>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="hello" />
+        </Stack.Protected>
+        <Stack.Protected guard={status !== 'ready'}>
+          <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+        </Stack.Protected>
       </Stack>
+      <ErrorToasts />
+      <AppLock />
     </GestureHandlerRootView>
   );
-}
\ No newline at end of file
+}
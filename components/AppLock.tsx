@@ -0,0 +1,256 @@
+import { BlurView } from 'expo-blur';
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useAppInBackground, useAppLocked } from '@/hooks/useAppLock';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  canUseBiometrics,
+  fetchAppLockSettings,
+  getLockoutEnd,
+  isAppLockEnabled,
+  PIN_LENGTH,
+  unlockWithBiometrics,
+  verifyPin,
+} from '@/lib/appLock';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('APP LOCK');
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', '⌫'];
+
+// Covers the whole app while it is locked, and blurs it in the app switcher
+// whenever the lock is turned on
+export default function AppLock() {
+  const locked = useAppLocked();
+  const inBackground = useAppInBackground();
+
+  if (locked) {
+    return <LockScreen obscured={inBackground} />;
+  }
+  if (inBackground && isAppLockEnabled()) {
+    return <BlurView intensity={100} tint="light" style={StyleSheet.absoluteFill} />;
+  }
+  return null;
+}
+
+function LockScreen({ obscured }: { obscured: boolean }) {
+  const { t } = useTranslation();
+  const { signOut } = useAuth();
+  const insets = useSafeAreaInsets();
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [biometrics, setBiometrics] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  // The lock is cleared by startAppLock once SIGNED_OUT fires. If signing out
+  // fails, e.g. offline, the session is still live and the lock has to stay.
+  const forceSignOut = useCallback(async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      log.error('Forced sign out failed', { error: err });
+      setMessage(t('appLock.signOutFailed'));
+      return;
+    }
+    Alert.alert(t('appLock.signedOutTitle'), t('appLock.signedOutMessage'));
+  }, [signOut, t]);
+
+  const tryBiometrics = useCallback(async () => {
+    try {
+      await unlockWithBiometrics(t('appLock.biometricPrompt'));
+    } catch (err) {
+      log.error('Biometric unlock failed', { error: err });
+    }
+  }, [t]);
+
+  // Offer biometrics straight away when they are set up, and pick up any
+  // lockout that was running when the app was last closed
+  useEffect(() => {
+    const prepare = async () => {
+      const [settings, available, lockoutEnd] = await Promise.all([
+        fetchAppLockSettings(),
+        canUseBiometrics(),
+        getLockoutEnd(),
+      ]);
+      setLockedUntil(lockoutEnd);
+      const useBiometrics = settings.biometrics && available;
+      setBiometrics(useBiometrics);
+      if (useBiometrics && !lockoutEnd) {
+        tryBiometrics();
+      }
+    };
+    prepare().catch((err) => {
+      log.error('Error preparing lock screen', { error: err });
+    });
+  }, [tryBiometrics]);
+
+  // Count down a lockout
+  useEffect(() => {
+    if (!lockedUntil) {
+      return;
+    }
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+        setMessage(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const submit = async (candidate: string) => {
+    setChecking(true);
+    try {
+      const result = await verifyPin(candidate);
+      setPin('');
+      switch (result.status) {
+        case 'unlocked':
+          setMessage(null);
+          break;
+        case 'wrong':
+          setMessage(t('appLock.wrongPin', { count: result.remaining }));
+          break;
+        case 'lockedOut':
+          setLockedUntil(result.until);
+          setNow(Date.now());
+          setMessage(null);
+          break;
+        case 'signOut':
+          await forceSignOut();
+          break;
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const pressKey = (key: string) => {
+    if (checking || lockedUntil) {
+      return;
+    }
+    if (key === '⌫') {
+      setPin((prev) => prev.slice(0, -1));
+      return;
+    }
+    const next = pin + key;
+    setPin(next);
+    if (next.length === PIN_LENGTH) {
+      submit(next);
+    }
+  };
+
+  const secondsLeft = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + 40 }]}>
+      <Text style={styles.title}>{t('appLock.title')}</Text>
+      <Text style={styles.subtitle}>
+        {lockedUntil ? t('appLock.lockedOut', { count: secondsLeft }) : t('appLock.enterPin')}
+      </Text>
+      <View style={styles.dots}>
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+        ))}
+      </View>
+      <Text style={styles.message}>{message ?? ' '}</Text>
+      <View style={styles.pad}>
+        {KEYS.map((key, index) =>
+          key ? (
+            <Pressable
+              key={key}
+              style={({ pressed }) => [styles.key, pressed && styles.keyPressed]}
+              onPress={() => pressKey(key)}
+              disabled={checking || !!lockedUntil}
+              accessibilityRole="button"
+              accessibilityLabel={key === '⌫' ? t('appLock.delete') : key}
+            >
+              <Text style={styles.keyText}>{key}</Text>
+            </Pressable>
+          ) : (
+            <View key={`blank-${index}`} style={styles.key} />
+          )
+        )}
+      </View>
+      {biometrics && !lockedUntil && (
+        <Pressable onPress={tryBiometrics} style={styles.biometrics} accessibilityRole="button">
+          <Text style={styles.link}>{t('appLock.useBiometrics')}</Text>
+        </Pressable>
+      )}
+      {obscured && <BlurView intensity={100} tint="light" style={StyleSheet.absoluteFill} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 30,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: '#8E8E93',
+  },
+  dotFilled: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  message: {
+    color: '#FF3B30',
+    marginTop: 16,
+    minHeight: 20,
+  },
+  pad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 270,
+    marginTop: 20,
+  },
+  key: {
+    width: 76,
+    height: 76,
+    margin: 7,
+    borderRadius: 38,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyPressed: {
+    backgroundColor: '#E5E5EA',
+  },
+  keyText: {
+    fontSize: 28,
+  },
+  biometrics: {
+    marginTop: 20,
+  },
+  link: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+});
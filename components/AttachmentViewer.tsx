@@ -0,0 +1,57 @@
+import { Image } from 'expo-image';
+import { useTranslation } from 'react-i18next';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+type Props = {
+  // Full-size image to show; the viewer is hidden while null
+  uri: string | null;
+  onClose: () => void;
+};
+
+// Full-screen viewer for a photo sent in chat
+export default function AttachmentViewer({ uri, onClose }: Props) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+
+  return (
+    <Modal visible={!!uri} animationType="fade" onRequestClose={onClose} statusBarTranslucent>
+      <View style={styles.container}>
+        {uri && <Image source={{ uri }} style={styles.image} contentFit="contain" />}
+        <Pressable
+          style={[styles.close, { top: insets.top + 10 }]}
+          onPress={onClose}
+          accessibilityRole="button"
+        >
+          <Text style={styles.closeText}>{t('attachments.close')}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  close: {
+    position: 'absolute',
+    right: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  closeText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
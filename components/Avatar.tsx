@@ -0,0 +1,64 @@
+import { Image } from 'expo-image';
+import { useEffect, useState } from 'react';
+import { ImageStyle, PixelRatio, StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native';
+
+import { avatarVariantUrl } from '@/lib/avatars';
+
+type Props = {
+  uri: string | null | undefined;
+  // Display name or username, used for the initials fallback
+  name?: string | null;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+const getInitials = (name: string | null | undefined) =>
+  (name ?? '?')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join('');
+
+// A round profile photo, loaded at the smallest size that stays sharp and
+// cached on disk. Shows initials when there is no photo or it fails to load.
+export default function Avatar({ uri, name, size = 40, style }: Props) {
+  const [failed, setFailed] = useState(false);
+  const round = { width: size, height: size, borderRadius: size / 2 };
+
+  useEffect(() => {
+    setFailed(false);
+  }, [uri]);
+
+  if (uri && !failed) {
+    return (
+      <Image
+        source={{ uri: avatarVariantUrl(uri, PixelRatio.getPixelSizeForLayoutSize(size)) }}
+        style={[round, style as StyleProp<ImageStyle>]}
+        cachePolicy="memory-disk"
+        recyclingKey={uri}
+        onError={() => setFailed(true)}
+      />
+    );
+  }
+
+  return (
+    <View style={[styles.fallback, round, style]}>
+      <Text style={[styles.initials, { fontSize: size * 0.375 }]} numberOfLines={1}>
+        {getInitials(name)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fallback: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#C7C7CC',
+  },
+  initials: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import Avatar from '@/components/Avatar';
+import OptionSheet from '@/components/OptionSheet';
+import { AvatarSource, pickAvatar, uploadAvatar } from '@/lib/avatars';
+import { createLogger } from '@/lib/logger';
+import { showError } from '@/lib/toasts';
+
+const log = createLogger('AVATAR');
+
+type Props = {
+  userId: string;
+  uri: string | null | undefined;
+  name?: string | null;
+  // Called with the uploaded photo's URL, or null when the photo is removed
+  onChange: (uri: string | null) => void;
+  size?: number;
+};
+
+// Profile photo with a menu to take, choose or remove one. Picked photos are
+// uploaded straight away; saving the URL on the profile is up to the caller.
+export default function AvatarPicker({ userId, uri, name, onChange, size = 96 }: Props) {
+  const { t } = useTranslation();
+  const [menuVisible, setMenuVisible] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const handlePick = async (source: AvatarSource) => {
+    let asset;
+    try {
+      asset = await pickAvatar(source);
+    } catch (err) {
+      log.error('Error picking avatar', { error: err });
+      showError(err, { fallback: 'error.uploadAvatar' });
+      return;
+    }
+    if (!asset) {
+      return;
+    }
+
+    setUploading(true);
+    try {
+      onChange(await uploadAvatar(userId, asset));
+    } catch (err) {
+      log.error('Error uploading avatar', { error: err });
+      showError(err, { fallback: 'error.uploadAvatar' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        onPress={() => setMenuVisible(true)}
+        disabled={uploading}
+        accessibilityRole="button"
+        accessibilityLabel={t('avatar.change')}
+      >
+        <Avatar uri={uri} name={name} size={size} />
+        {uploading && (
+          <View style={[styles.overlay, { borderRadius: size / 2 }]}>
+            <ActivityIndicator color="#fff" />
+          </View>
+        )}
+      </Pressable>
+      <Pressable onPress={() => setMenuVisible(true)} disabled={uploading}>
+        <Text style={styles.link}>{uri ? t('avatar.change') : t('avatar.add')}</Text>
+      </Pressable>
+      <OptionSheet
+        visible={menuVisible}
+        title={t('avatar.title')}
+        options={[
+          { label: t('attachments.camera'), onPress: () => handlePick('camera') },
+          { label: t('attachments.library'), onPress: () => handlePick('library') },
+          ...(uri
+            ? [{ label: t('avatar.remove'), onPress: () => onChange(null), destructive: true }]
+            : []),
+        ]}
+        onClose={() => setMenuVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  link: {
+    color: '#007AFF',
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,198 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import Avatar from '@/components/Avatar';
+import PresenceDot from '@/components/PresenceDot';
+import { useAuth } from '@/hooks/useAuth';
+import { useInbox } from '@/hooks/useInbox';
+import type { ConversationPreview } from '@/lib/conversations';
+import { formatSystemMessage } from '@/lib/messages';
+import { navigate } from '@/lib/router';
+import { formatRelativeTime } from '@/lib/time';
+import { showError } from '@/lib/toasts';
+
+export default function ConversationList() {
+  const { user } = useAuth();
+  const { conversations, loading, refreshing, loadingMore, error, refresh, loadMore, markRead } =
+    useInbox(user?.id);
+  const { t, i18n } = useTranslation();
+
+  // Handle errors
+  useEffect(() => {
+    if (error) {
+      showError(error);
+    }
+  }, [error]);
+
+  const openConversation = (conversationId: string) => {
+    markRead(conversationId);
+    navigate('MessageConversation', { conversationId });
+  };
+
+  const renderItem = ({ item }: { item: ConversationPreview }) => {
+    const name = item.is_group
+      ? (item.group_name ?? t('inbox.unknownGroup'))
+      : (item.other_display_name ?? item.other_username ?? t('inbox.unknownUser'));
+    const avatarUrl = item.is_group ? item.group_avatar_url : item.other_avatar_url;
+    // Messages with only an attachment have an empty body
+    const body = item.last_message_body || t('inbox.attachment');
+    const preview =
+      item.last_message_body === null
+        ? t('inbox.noMessages')
+        : item.last_message_kind === 'system'
+          ? formatSystemMessage(item.last_message_metadata, t)
+          : item.last_message_sender_id === user?.id
+            ? t('inbox.youPrefix', { message: body })
+            : body;
+    // Muted conversations, or all of them with in-app message alerts off,
+    // still count unread messages but do not draw attention to them
+    const unread = item.unread_count > 0;
+    const highlight = unread && item.notify;
+
+    return (
+      <Pressable
+        style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+        onPress={() => openConversation(item.conversation_id)}
+      >
+        <View>
+          <Avatar uri={avatarUrl} name={name} size={48} />
+          {!item.is_group && <PresenceDot userId={item.other_user_id} />}
+        </View>
+        <View style={styles.body}>
+          <View style={styles.header}>
+            <Text style={[styles.name, highlight && styles.unreadText]} numberOfLines={1}>
+              {name}
+            </Text>
+            {item.is_muted && (
+              <MaterialCommunityIcons name="bell-off-outline" size={14} color="#8E8E93" />
+            )}
+            <Text style={styles.time}>
+              {formatRelativeTime(item.last_message_at, t, i18n.language)}
+            </Text>
+          </View>
+          <View style={styles.header}>
+            <Text style={[styles.preview, highlight && styles.unreadText]} numberOfLines={1}>
+              {preview}
+            </Text>
+            {unread && (
+              <View style={[styles.badge, !item.notify && styles.badgeQuiet]}>
+                <Text style={styles.badgeText}>
+                  {item.unread_count > 99 ? '99+' : item.unread_count}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </Pressable>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <Text>{t('loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      data={conversations}
+      keyExtractor={(item) => item.conversation_id}
+      renderItem={renderItem}
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
+      ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.loadingMore} /> : null}
+      ListEmptyComponent={<Text style={styles.empty}>{t('inbox.empty')}</Text>}
+      ItemSeparatorComponent={() => <View style={styles.separator} />}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  rowPressed: {
+    backgroundColor: '#F2F2F7',
+  },
+  body: {
+    flex: 1,
+    gap: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  name: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  time: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  preview: {
+    flex: 1,
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  unreadText: {
+    color: '#000',
+    fontWeight: 'bold',
+  },
+  badge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeQuiet: {
+    backgroundColor: '#C7C7CC',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: '#ccc',
+    marginLeft: 76,
+  },
+  loadingMore: {
+    marginVertical: 10,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#8E8E93',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,56 @@
+import { useTranslation } from 'react-i18next';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useToasts } from '@/hooks/useToasts';
+import { dismissToast } from '@/lib/toasts';
+
+// Errors raised with showError(), stacked at the top of the screen. Each one
+// disappears after a few seconds, or when tapped.
+export default function ErrorToasts() {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const toasts = useToasts();
+
+  if (toasts.length === 0) {
+    return null;
+  }
+  return (
+    <View style={[styles.container, { top: insets.top + 8 }]} pointerEvents="box-none">
+      {toasts.map((toast) => (
+        <Pressable
+          key={toast.id}
+          style={styles.toast}
+          onPress={() => dismissToast(toast.id)}
+          accessibilityRole="alert"
+        >
+          <Text style={styles.message}>{t(toast.error.messageKey, toast.error.messageParams)}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    gap: 8,
+  },
+  toast: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    shadowColor: '#000',
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 4,
+  },
+  message: {
+    color: '#fff',
+    fontSize: 15,
+  },
+});
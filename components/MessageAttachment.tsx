@@ -0,0 +1,183 @@
+import { Image } from 'expo-image';
+import * as WebBrowser from 'expo-web-browser';
+import { useTranslation } from 'react-i18next';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { useAttachmentUrl, useUploadProgress } from '@/hooks/useAttachment';
+import { formatFileSize, getAttachmentUrl, isImageAttachment } from '@/lib/attachments';
+import type { DisplayMessage } from '@/lib/messages';
+import { showError } from '@/lib/toasts';
+
+const THUMBNAIL_WIDTH = 220;
+
+type Props = {
+  message: DisplayMessage;
+  isOwn: boolean;
+  // Open a photo in the full-screen viewer
+  onOpenImage: (uri: string) => void;
+  // Stop a pending upload and drop the message
+  onCancel: (messageId: string) => void;
+};
+
+// Photo thumbnail or file row inside a chat bubble. Queued attachments render
+// from the device and show upload progress with a cancel button.
+export default function MessageAttachment({ message, isOwn, onOpenImage, onCancel }: Props) {
+  const { t } = useTranslation();
+  const local = message.localAttachment;
+  const stored = message.attachment;
+  const pending = message.status === 'pending';
+  const progress = useUploadProgress(pending && local ? message.id : null);
+  const thumbnailUrl = useAttachmentUrl(stored?.thumbnail_path);
+
+  if (!local && !stored) {
+    return null;
+  }
+
+  const isImage = local ? isImageAttachment(local) : isImageAttachment(stored!);
+  const name = local?.name ?? stored!.name;
+  const size = local?.size ?? stored!.size;
+  const width = local?.width ?? stored?.width;
+  const height = local?.height ?? stored?.height;
+  const percent =
+    progress && progress.total > 0 ? Math.round((progress.sent / progress.total) * 100) : null;
+
+  const open = async () => {
+    if (local) {
+      if (isImage) {
+        onOpenImage(local.uri);
+      }
+      return;
+    }
+    try {
+      const url = await getAttachmentUrl(stored!.path);
+      if (isImage) {
+        onOpenImage(url);
+      } else {
+        await WebBrowser.openBrowserAsync(url);
+      }
+    } catch (err) {
+      showError(err, { fallback: 'error.openAttachment' });
+    }
+  };
+
+  const overlay = pending && (
+    <View style={styles.overlay}>
+      {percent === null ? (
+        <ActivityIndicator color="#fff" />
+      ) : (
+        <Text style={styles.progressText}>{t('attachments.uploading', { percent })}</Text>
+      )}
+      <Pressable
+        style={styles.cancel}
+        onPress={() => onCancel(message.id)}
+        accessibilityRole="button"
+        hitSlop={8}
+      >
+        <Text style={styles.cancelText}>{t('attachments.cancel')}</Text>
+      </Pressable>
+    </View>
+  );
+
+  if (isImage) {
+    const thumbnail = local?.thumbnailUri ?? local?.uri ?? thumbnailUrl;
+    const aspectRatio = width && height ? width / height : 1;
+    return (
+      <Pressable onPress={open} disabled={pending}>
+        <View style={[styles.image, { aspectRatio }]}>
+          {thumbnail ? (
+            <Image source={{ uri: thumbnail }} style={StyleSheet.absoluteFill} contentFit="cover" />
+          ) : (
+            <ActivityIndicator style={StyleSheet.absoluteFill} />
+          )}
+          {overlay}
+        </View>
+      </Pressable>
+    );
+  }
+
+  return (
+    <Pressable onPress={open} disabled={pending}>
+      <View style={styles.file}>
+        <Text style={styles.fileIcon}>📄</Text>
+        <View style={styles.fileInfo}>
+          <Text style={[styles.fileName, isOwn && styles.ownFileText]} numberOfLines={1}>
+            {name}
+          </Text>
+          <Text style={[styles.fileSize, isOwn && styles.ownFileText]}>
+            {percent === null ? formatFileSize(size) : t('attachments.uploading', { percent })}
+          </Text>
+        </View>
+        {pending && (
+          <Pressable onPress={() => onCancel(message.id)} accessibilityRole="button" hitSlop={8}>
+            <Text style={[styles.fileCancel, isOwn && styles.ownFileText]}>
+              {t('attachments.cancel')}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: THUMBNAIL_WIDTH,
+    maxHeight: THUMBNAIL_WIDTH * 1.5,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#D1D1D6',
+    marginBottom: 4,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+  },
+  progressText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  cancel: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  cancelText: {
+    color: '#fff',
+    fontSize: 13,
+  },
+  file: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 4,
+    marginBottom: 4,
+    minWidth: 180,
+  },
+  fileIcon: {
+    fontSize: 28,
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#000',
+  },
+  fileSize: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  ownFileText: {
+    color: '#fff',
+  },
+  fileCancel: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,89 @@
+import { useTranslation } from 'react-i18next';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+export type SheetOption = {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+};
+
+type Props = {
+  visible: boolean;
+  title?: string;
+  options: SheetOption[];
+  onClose: () => void;
+};
+
+// Bottom sheet of choices, for menus longer than an Android alert can hold
+export default function OptionSheet({ visible, title, options, onClose }: Props) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} accessibilityRole="button" />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 10 }]}>
+        {title && <Text style={styles.title}>{title}</Text>}
+        {options.map((option) => (
+          <Pressable
+            key={option.label}
+            style={({ pressed }) => [styles.option, pressed && styles.optionPressed]}
+            onPress={() => {
+              onClose();
+              option.onPress();
+            }}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.optionText, option.destructive && styles.destructive]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+        <Pressable
+          style={({ pressed }) => [styles.option, pressed && styles.optionPressed]}
+          onPress={onClose}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.optionText, styles.cancel]}>{t('cancel')}</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    paddingTop: 10,
+  },
+  title: {
+    fontSize: 13,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  option: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  optionPressed: {
+    backgroundColor: '#F2F2F7',
+  },
+  optionText: {
+    fontSize: 17,
+    color: '#007AFF',
+  },
+  destructive: {
+    color: '#FF3B30',
+  },
+  cancel: {
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,116 @@
+import { Image } from 'expo-image';
+import { useTranslation } from 'react-i18next';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import Avatar from '@/components/Avatar';
+import { Post } from '@/lib/posts';
+import { navigate } from '@/lib/router';
+import { formatRelativeTime } from '@/lib/time';
+
+type Props = {
+  post: Post;
+  onToggleLike: (post: Post) => void;
+  // Open the post with its comments; omitted on the post screen itself
+  onOpen?: (post: Post) => void;
+};
+
+// A post in the feed or at the top of its own screen
+export default function PostCard({ post, onToggleLike, onOpen }: Props) {
+  const { t, i18n } = useTranslation();
+  const name = post.author_display_name ?? post.author_username;
+
+  return (
+    <Pressable style={styles.card} onPress={onOpen ? () => onOpen(post) : undefined}>
+      <Pressable
+        style={styles.author}
+        onPress={() => navigate('Profile', { name: post.author_username })}
+      >
+        <Avatar uri={post.author_avatar_url} name={name} />
+        <View style={styles.authorText}>
+          <Text style={styles.name} numberOfLines={1}>
+            {name}
+          </Text>
+          <Text style={styles.meta} numberOfLines={1}>
+            @{post.author_username} · {formatRelativeTime(post.created_at, t, i18n.language)}
+          </Text>
+        </View>
+      </Pressable>
+      {!!post.body && <Text style={styles.body}>{post.body}</Text>}
+      {post.image_url && (
+        <Image
+          // Signed URLs change on every load; the path identifies the image
+          source={{ uri: post.image_url, cacheKey: post.image_path ?? undefined }}
+          style={[
+            styles.image,
+            {
+              aspectRatio:
+                post.image_width && post.image_height ? post.image_width / post.image_height : 1,
+            },
+          ]}
+          contentFit="cover"
+          cachePolicy="memory-disk"
+        />
+      )}
+      <View style={styles.actions}>
+        <Pressable
+          onPress={() => onToggleLike(post)}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityState={{ selected: post.liked_by_me }}
+        >
+          <Text style={[styles.action, post.liked_by_me && styles.liked]}>
+            {post.liked_by_me ? '♥' : '♡'} {t('feed.likes', { count: post.like_count })}
+          </Text>
+        </Pressable>
+        <Pressable onPress={onOpen ? () => onOpen(post) : undefined} hitSlop={8}>
+          <Text style={styles.action}>💬 {t('feed.comments', { count: post.comment_count })}</Text>
+        </Pressable>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    gap: 10,
+    backgroundColor: '#fff',
+  },
+  author: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  authorText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  body: {
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  image: {
+    width: '100%',
+    maxHeight: 420,
+    borderRadius: 12,
+    backgroundColor: '#E5E5EA',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 24,
+  },
+  action: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  liked: {
+    color: '#FF2D55',
+  },
+});
@@ -0,0 +1,32 @@
+import { StyleSheet, View } from 'react-native';
+
+import { useOnlineStatus } from '@/hooks/usePresence';
+
+type Props = {
+  userId: string | null | undefined;
+  size?: number;
+};
+
+// Green dot shown on the corner of an avatar while the user is online
+export default function PresenceDot({ userId, size = 12 }: Props) {
+  const online = useOnlineStatus(userId);
+
+  if (!online) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.dot, { width: size, height: size, borderRadius: size / 2 }]} />
+  );
+}
+
+const styles = StyleSheet.create({
+  dot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#34C759',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+});
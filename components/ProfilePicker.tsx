@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import Avatar from '@/components/Avatar';
+import { createLogger } from '@/lib/logger';
+import { Profile, searchProfiles } from '@/lib/profiles';
+
+const log = createLogger('GROUP');
+
+type Props = {
+  selected: Profile[];
+  onToggle: (profile: Profile) => void;
+  // Users that cannot be picked, e.g. existing group members
+  excludeIds?: string[];
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function ProfilePicker({ selected, onToggle, excludeIds = [] }: Props) {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Profile[]>([]);
+  const [searching, setSearching] = useState(false);
+  const excludeKey = excludeIds.join(',');
+
+  // Debounced search as the user types
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let active = true;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const profiles = await searchProfiles(query);
+        if (active) {
+          const excluded = new Set(excludeKey.split(','));
+          setResults(profiles.filter((profile) => !excluded.has(profile.id)));
+        }
+      } catch (err) {
+        log.error('Profile search failed', { error: err });
+      } finally {
+        if (active) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [query, excludeKey]);
+
+  const selectedIds = new Set(selected.map((profile) => profile.id));
+
+  return (
+    <View style={styles.container}>
+      {selected.length > 0 && (
+        <View style={styles.chips}>
+          {selected.map((profile) => (
+            <Pressable key={profile.id} style={styles.chip} onPress={() => onToggle(profile)}>
+              <Text style={styles.chipText}>{profile.display_name} ✕</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder={t('groups.searchPlaceholder')}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {searching && <ActivityIndicator />}
+      {results.map((profile) => (
+        <Pressable key={profile.id} style={styles.row} onPress={() => onToggle(profile)}>
+          <Avatar uri={profile.avatar_url} name={profile.display_name} size={36} />
+          <View style={styles.body}>
+            <Text style={styles.name}>{profile.display_name}</Text>
+            <Text style={styles.username}>@{profile.username}</Text>
+          </View>
+          <Text style={styles.check}>{selectedIds.has(profile.id) ? '✓' : ''}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    backgroundColor: '#E5E5EA',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  body: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+  },
+  username: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  check: {
+    fontSize: 18,
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { DimensionValue, StyleProp, StyleSheet, ViewStyle } from 'react-native';
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withRepeat,
+  withTiming,
+} from 'react-native-reanimated';
+
+type Props = {
+  width?: DimensionValue;
+  height?: DimensionValue;
+  radius?: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+// Pulsing grey placeholder shown in place of content that is still loading
+export default function Skeleton({ width = '100%', height = 16, radius = 4, style }: Props) {
+  const opacity = useSharedValue(1);
+
+  useEffect(() => {
+    opacity.value = withRepeat(withTiming(0.4, { duration: 800 }), -1, true);
+  }, [opacity]);
+
+  const animatedStyle = useAnimatedStyle(() => ({ opacity: opacity.value }));
+
+  return (
+    <Animated.View
+      style={[styles.skeleton, { width, height, borderRadius: radius }, animatedStyle, style]}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  skeleton: {
+    backgroundColor: '#E5E5EA',
+  },
+});
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AccountProfile,
+  changeUsername as changeUsernameRequest,
+  deleteAccount as deleteAccountRequest,
+  fetchAccountProfile,
+  ProfileChanges,
+  updateProfile,
+  USERNAME_ERROR_KEYS,
+} from '../lib/account';
+import { pruneAvatars } from '../lib/avatars';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('ACCOUNT');
+
+// The signed-in user's editable profile
+export const useAccountSettings = (userId: string | undefined) => {
+  const [profile, setProfile] = useState<AccountProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    fetchAccountProfile(userId)
+      .then((loaded) => {
+        setProfile(loaded);
+        setError(null);
+      })
+      .catch((err) => {
+        log.error('Error loading account', { error: err });
+        setError(toAppError(err, { fallback: 'error.loadAccount' }));
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  // Save the display name, bio and avatar. Resolves to whether it worked.
+  const saveProfile = useCallback(
+    async (changes: ProfileChanges): Promise<boolean> => {
+      setSaving(true);
+      try {
+        await updateProfile(changes);
+        if (userId) {
+          pruneAvatars(userId, changes.avatar_url.trim() || null);
+        }
+        setProfile((prev) =>
+          prev
+            ? {
+                ...prev,
+                display_name: changes.display_name.trim(),
+                bio: changes.bio.trim() || null,
+                avatar_url: changes.avatar_url.trim() || null,
+              }
+            : prev
+        );
+        setError(null);
+        return true;
+      } catch (err) {
+        log.error('Error saving profile', { error: err });
+        setError(toAppError(err, { fallback: 'error.saveProfile' }));
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [userId]
+  );
+
+  // Server errors are turned into messages the user can act on
+  const changeUsername = useCallback(async (username: string): Promise<boolean> => {
+    setSaving(true);
+    try {
+      const changedAt = await changeUsernameRequest(username);
+      setProfile((prev) => (prev ? { ...prev, username, username_changed_at: changedAt } : prev));
+      setError(null);
+      return true;
+    } catch (err) {
+      log.error('Error changing username', { error: err });
+      setError(toAppError(err, USERNAME_ERROR_KEYS));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const deleteAccount = useCallback(async (): Promise<boolean> => {
+    if (!userId) {
+      return false;
+    }
+    setSaving(true);
+    try {
+      await deleteAccountRequest(userId);
+      return true;
+    } catch (err) {
+      log.error('Error deleting account', { error: err });
+      setError(toAppError(err, { fallback: 'error.deleteAccount' }));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [userId]);
+
+  return { profile, loading, saving, error, saveProfile, changeUsername, deleteAccount };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { addAppLockListener, isAppLocked } from '../lib/appLock';
+
+// Whether the app lock is currently shown
+export const useAppLocked = () => {
+  const [locked, setLocked] = useState(isAppLocked());
+
+  useEffect(() => {
+    setLocked(isAppLocked());
+    return addAppLockListener(setLocked);
+  }, []);
+
+  return locked;
+};
+
+// Whether the app is not in the foreground, including the moment the app
+// switcher takes its snapshot
+export const useAppInBackground = () => {
+  const [status, setStatus] = useState<AppStateStatus>(AppState.currentState);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', setStatus);
+    return () => subscription.remove();
+  }, []);
+
+  return status !== 'active';
+};
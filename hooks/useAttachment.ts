@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { addUploadProgressListener, getAttachmentUrl, UploadProgress } from '../lib/attachments';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('ATTACHMENT');
+
+// Signed download URL for an attachment in the private bucket
+export const useAttachmentUrl = (path: string | null | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!path) {
+      setUrl(null);
+      return;
+    }
+    let active = true;
+    getAttachmentUrl(path)
+      .then((signedUrl) => {
+        if (active) setUrl(signedUrl);
+      })
+      .catch((err) => {
+        log.error('Error signing attachment URL', { error: err });
+      });
+    return () => {
+      active = false;
+    };
+  }, [path]);
+
+  return url;
+};
+
+// Progress of a queued message's upload, or null before it starts
+export const useUploadProgress = (messageId: string | null | undefined) => {
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+
+  useEffect(() => {
+    setProgress(null);
+    if (!messageId) {
+      return;
+    }
+    return addUploadProgressListener(messageId, setProgress);
+  }, [messageId]);
+
+  return progress;
+};
@@ -1,231 +1,87 @@
-import type { Session, User } from '@supabase/supabase-js';
-import { PostgrestError } from '@supabase/supabase-js';
 import { makeRedirectUri } from 'expo-auth-session';
 import * as QueryParams from 'expo-auth-session/build/QueryParams';
 import * as WebBrowser from 'expo-web-browser';
-import { useCallback, useEffect, useRef, useState } from 'react';
-import { useTranslation } from 'react-i18next';
+import { useEffect, useState } from 'react';
+import {
+  addAuthListener,
+  AuthState,
+  EMAIL_CODE_ERROR_KEYS,
+  EMAIL_LINK_ERROR_KEYS,
+  getAuthState,
+  redirectError,
+  retryAuth,
+  SIGN_IN_ERROR_KEYS,
+  sendEmailCode as sendEmailCodeRequest,
+  verifyEmailCode as verifyEmailCodeRequest,
+} from '../lib/auth';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
 import { supabase } from '../lib/supabase';
+import { isStudentEmail } from '../lib/universities';
 
-// Utility function for logging
-const debugLog = (message: string, data?: any) => {
-  console.log(`[AUTH DEBUG] ${message}`, data ? JSON.stringify(data, null, 2) : '');
-};
-
-// Utility for handling errors
-const handleError = (err: unknown, defaultMessage: string): Error => {
-  return err instanceof Error ? err : new Error(defaultMessage);
-};
-
-// Timeout wrapper for async operations
-const withTimeout = async <T>(promise: Promise<T>, ms: number, errorMessage: string): Promise<T> => {
-  const timeout = new Promise<T>((_, reject) => {
-    setTimeout(() => reject(new Error(errorMessage)), ms);
-  });
-  return Promise.race([promise, timeout]);
-};
-
-// Retry logic for async operations
-const withRetry = async <T>(fn: () => Promise<T>, retries: number, delayMs: number): Promise<T> => {
-  let lastError: unknown;
-  for (let i = 0; i <= retries; i++) {
-    try {
-      return await fn();
-    } catch (err) {
-      lastError = err;
-      if (i < retries) {
-        debugLog('Retrying operation', { attempt: i + 1, error: String(err) });
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-      }
-    }
-  }
-  throw lastError;
-};
+const log = createLogger('AUTH');
 
-// Singleton for auth state change listener
-let authListener: { unsubscribe: () => void } | null = null;
+// Logs keep only the domain of an address, never the address itself
+const emailDomain = (email: string) => email.trim().toLowerCase().split('@')[1] ?? null;
 
-interface AuthState {
-  session: Session | null;
-  user: User | null;
-  loading: boolean;
-  error: Error | null;
-  needsProfileCompletion: boolean | null;
+// Result of the last sign-in or sign-out started from this screen
+interface ActionState {
+  pending: boolean;
+  error: AppError | null;
 }
 
+// The shared auth state plus sign-in and sign-out. Every caller sees the same
+// state; see lib/auth for how it changes.
 export const useAuth = () => {
-  const { t } = useTranslation();
-  const [authState, setAuthState] = useState<AuthState>({
-    session: null,
-    user: null,
-    loading: true,
-    error: null,
-    needsProfileCompletion: null,
-  });
-  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  // Debounce utility
-  const debounce = (fn: () => Promise<void>, delay: number) => {
-    return () => {
-      if (debounceRef.current) {
-        clearTimeout(debounceRef.current);
-      }
-      debounceRef.current = setTimeout(async () => {
-        await fn();
-      }, delay);
-    };
-  };
-
-  // Check if profile completion is needed
-  const checkProfileCompletion = useCallback(async (userId: string): Promise<boolean> => {
-    try {
-      debugLog('Checking profile completion for user', { userId });
-
-      // Refresh session to ensure valid token
-      debugLog('Refreshing session before RPC');
-      const { data: { session }, error: refreshError } = await supabase.auth.refreshSession();
-      if (refreshError) {
-        debugLog('Session refresh error', { error: refreshError.message });
-        throw refreshError;
-      }
-      debugLog('Session refreshed', { hasSession: !!session, userId: session?.user?.id });
+  const [authState, setAuthState] = useState<AuthState>(getAuthState());
+  const [action, setAction] = useState<ActionState>({ pending: false, error: null });
 
-      const rpcPromise = async (): Promise<{ data: boolean | null; error: PostgrestError | null }> => {
-        return await supabase.rpc('should_user_complete_profile').single();
-      };
-
-      const { data, error } = await withRetry(
-        () => withTimeout(rpcPromise(), 10000, 'Profile completion check timed out'),
-        3,
-        1500
-      );
-
-      debugLog('Profile completion check result', { data, error });
-
-      if (error) {
-        debugLog('Error checking profile completion', { error: error.message });
-        throw error;
-      }
-
-      const needsCompletion = !data;
-      debugLog('Needs profile completion', { needsCompletion });
-      return needsCompletion;
-    } catch (err) {
-      debugLog('Exception in checkProfileCompletion', {
-        error: err instanceof Error ? err.message : String(err),
-      });
-      return true; // Assume incomplete if error
-    }
-  }, []);
-
-  // Check initial session (no profile check)
   useEffect(() => {
-    const initializeSession = async () => {
-      try {
-        debugLog('Initializing session');
-        const { data: { session } } = await supabase.auth.getSession();
-        debugLog('Initial session retrieved', {
-          hasSession: !!session,
-          userId: session?.user?.id,
-        });
+    setAuthState(getAuthState());
+    return addAuthListener(setAuthState);
+  }, []);
 
-        setAuthState({
-          session,
-          user: session?.user ?? null,
-          loading: false,
-          error: null,
-          needsProfileCompletion: null,
-        });
-      } catch (err) {
-        debugLog('Error initializing session', {
-          error: err instanceof Error ? err.message : String(err),
-        });
-        setAuthState({
-          session: null,
-          user: null,
-          loading: false,
-          error: handleError(err, t('error.initializeSession')),
-          needsProfileCompletion: null,
-        });
-      }
-    };
-    initializeSession();
-  }, [t]);
+  // Sign in with the tokens on a cendy://auth redirect, from Google or an email link
+  const setSessionFromRedirect = async (url: string) => {
+    const { params, errorCode } = QueryParams.getQueryParams(url);
+    log.debug('Redirect params', { params, errorCode });
 
-  // Listen for auth state changes
-  useEffect(() => {
-    debugLog('Setting up auth state change listener');
-    if (!authListener) {
-      const listener = supabase.auth.onAuthStateChange(async (event, session) => {
-        debugLog('Auth state changed', {
-          event,
-          hasSession: !!session,
-          userId: session?.user?.id,
-        });
+    const error = redirectError(params, errorCode);
+    if (error) {
+      log.warn('Redirect error received', { errorCode, error: params.error });
+      throw error;
+    }
 
-        if (event === 'SIGNED_IN' && session?.user?.id) {
-          const updateProfileState = async () => {
-            try {
-              const needsProfileCompletion = await checkProfileCompletion(session.user.id);
-              debugLog('Updating auth state after SIGNED_IN', {
-                event,
-                hasSession: !!session,
-                userId: session.user.id,
-                needsProfileCompletion,
-              });
-              setAuthState({
-                session,
-                user: session.user,
-                loading: false,
-                error: null,
-                needsProfileCompletion,
-              });
-            } catch (err) {
-              debugLog('Error during SIGNED_IN profile check', {
-                error: err instanceof Error ? err.message : String(err),
-              });
-              setAuthState({
-                session,
-                user: session.user,
-                loading: false,
-                error: null,
-                needsProfileCompletion: true,
-              });
-            }
-          };
-          // Debounce profile check to avoid concurrent calls
-          debounce(updateProfileState, 500)();
-        } else {
-          debugLog('Updating auth state for non-SIGNED_IN event', { event });
-          setAuthState({
-            session,
-            user: session?.user ?? null,
-            loading: false,
-            error: null,
-            needsProfileCompletion: null,
-          });
-        }
-      });
-      authListener = listener.data.subscription;
+    const { access_token, refresh_token } = params;
+    if (!access_token) {
+      log.warn('No access token received');
+      throw new AppError('auth', { messageKey: 'error.noAccessToken' });
     }
 
-    return () => {
-      debugLog('Cleaning up auth state change listener');
-      if (authListener) {
-        authListener.unsubscribe();
-        authListener = null;
-      }
-    };
-  }, [checkProfileCompletion]);
+    const { data: sessionData, error: sessionError } = await supabase.auth.setSession({
+      access_token,
+      refresh_token,
+    });
+    log.debug('Session set result', {
+      hasSession: !!sessionData.session,
+      userId: sessionData.session?.user?.id,
+      sessionError,
+    });
+
+    if (sessionError) {
+      log.error('Session error', { error: sessionError.message });
+      throw sessionError;
+    }
+  };
 
   // Sign in with Google
   const signInWithGoogle = async () => {
     try {
-      debugLog('Starting Google Sign-In');
-      setAuthState((prev) => ({ ...prev, loading: true, error: null }));
+      log.info('Starting Google Sign-In');
+      setAction({ pending: true, error: null });
 
       const redirectUrl = makeRedirectUri({ scheme: 'cendy', path: 'auth' });
-      debugLog('Redirect URL', { redirectUrl });
+      log.debug('Redirect URL', { redirectUrl });
 
       const { data, error } = await supabase.auth.signInWithOAuth({
         provider: 'google',
@@ -236,145 +92,119 @@ export const useAuth = () => {
       });
 
       if (error) {
-        debugLog('OAuth initialization error', { error: error.message });
+        log.error('OAuth initialization error', { error: error.message });
         throw error;
       }
 
       if (!data.url) {
-        debugLog('No OAuth URL received');
-        throw new Error(t('error.noOAuthUrl'));
+        log.warn('No OAuth URL received');
+        throw new AppError('unknown', { messageKey: 'error.noOAuthUrl' });
       }
 
-      debugLog('Opening OAuth session', { url: data.url });
+      log.debug('Opening OAuth session', { url: data.url });
       const result = await WebBrowser.openAuthSessionAsync(data.url, redirectUrl);
-      debugLog('OAuth session result', { result });
+      log.debug('OAuth session result', { result });
 
       if (result.type === 'success') {
-        const { params, errorCode } = QueryParams.getQueryParams(result.url);
-        debugLog('OAuth params', { params, errorCode });
-
-        if (errorCode || params.error) {
-          debugLog('OAuth error received', { errorCode, error: params.error });
-          const errorMessage =
-            params.error_description === '403: Only student email addresses are allowed'
-              ? t('error.studentEmailRequired')
-              : `${t('error.oauthError')}: ${errorCode || params.error}`;
-          throw new Error(errorMessage);
-        }
-
-        const { access_token, refresh_token } = params;
-        if (!access_token) {
-          debugLog('No access token received');
-          throw new Error(t('error.noAccessToken'));
-        }
-
-        const { data: sessionData, error: sessionError } = await supabase.auth.setSession({
-          access_token,
-          refresh_token,
-        });
-        debugLog('Session set result', {
-          hasSession: !!sessionData.session,
-          userId: sessionData.session?.user?.id,
-          sessionError,
-        });
-
-        if (sessionError) {
-          debugLog('Session error', { error: sessionError.message });
-          throw sessionError;
-        }
+        await setSessionFromRedirect(result.url);
+        // The auth store takes over from here
+        setAction({ pending: false, error: null });
       } else {
-        debugLog('OAuth session not successful', { result });
-        throw new Error(t('error.oauthCanceled'));
+        log.warn('OAuth session not successful', { result });
+        throw new AppError('auth', { messageKey: 'error.oauthCanceled' });
       }
     } catch (err) {
-      debugLog('Google Sign-In error', {
-        error: err instanceof Error ? err.message : String(err),
+      log.error('Google Sign-In error', { error: err });
+      setAction({ pending: false, error: toAppError(err, SIGN_IN_ERROR_KEYS) });
+    }
+  };
+
+  // Email the user a sign-in code and link. Resolves to whether it was sent.
+  const sendEmailCode = async (email: string): Promise<boolean> => {
+    if (!isStudentEmail(email)) {
+      setAction({
+        pending: false,
+        error: new AppError('validation', { messageKey: 'error.studentEmailRequired' }),
       });
-      setAuthState((prev) => ({
-        ...prev,
-        loading: false,
-        error: handleError(err, t('error.signIn')),
-        needsProfileCompletion: null,
-      }));
+      return false;
+    }
+    try {
+      log.info('Sending email code', { domain: emailDomain(email) });
+      setAction({ pending: true, error: null });
+      await sendEmailCodeRequest(email, makeRedirectUri({ scheme: 'cendy', path: 'auth' }));
+      setAction({ pending: false, error: null });
+      return true;
+    } catch (err) {
+      log.error('Send email code error', { error: err });
+      setAction({ pending: false, error: toAppError(err, EMAIL_CODE_ERROR_KEYS) });
+      return false;
     }
   };
 
-  // Sign out
-  const signOut = async () => {
+  // Sign in with the code from the email
+  const verifyEmailCode = async (email: string, code: string): Promise<boolean> => {
     try {
-      debugLog('Starting sign out');
-      setAuthState((prev) => ({ ...prev, loading: true, error: null }));
-      const { error } = await supabase.auth.signOut();
-      if (error) {
-        debugLog('Sign out error', { error: error.message });
-        throw error;
-      }
-      debugLog('Sign out successful');
-      setAuthState({
-        session: null,
-        user: null,
-        loading: false,
-        error: null,
-        needsProfileCompletion: null,
-      });
+      log.info('Verifying email code', { domain: emailDomain(email) });
+      setAction({ pending: true, error: null });
+      await verifyEmailCodeRequest(email, code);
+      // The auth store takes over from here
+      setAction({ pending: false, error: null });
+      return true;
     } catch (err) {
-      debugLog('Sign out error', {
-        error: err instanceof Error ? err.message : String(err),
-      });
-      setAuthState((prev) => ({
-        ...prev,
-        loading: false,
-        error: handleError(err, t('error.signOut')),
-        needsProfileCompletion: null,
-      }));
+      log.error('Verify email code error', { error: err });
+      setAction({ pending: false, error: toAppError(err, EMAIL_CODE_ERROR_KEYS) });
+      return false;
     }
   };
 
-  // Get current session
-  const getSession = async () => {
+  // Sign in from the link in the email, opened as a cendy://auth deep link
+  const completeEmailLink = async (url: string) => {
     try {
-      debugLog('Getting current session');
-      const { data: { session } } = await supabase.auth.getSession();
-      let needsProfileCompletion: boolean | null = null;
-      if (session?.user?.id) {
-        needsProfileCompletion = await checkProfileCompletion(session.user.id);
+      log.info('Completing email link');
+      setAction({ pending: true, error: null });
+      await setSessionFromRedirect(url);
+      setAction({ pending: false, error: null });
+    } catch (err) {
+      log.error('Email link error', { error: err });
+      setAction({ pending: false, error: toAppError(err, EMAIL_LINK_ERROR_KEYS) });
+    }
+  };
+
+  // Sign out
+  const signOut = async () => {
+    try {
+      log.info('Starting sign out');
+      setAction({ pending: true, error: null });
+      const { error } = await supabase.auth.signOut();
+      if (error) {
+        log.error('Sign out error', { error: error.message });
+        throw error;
       }
-      debugLog('Session retrieved', {
-        hasSession: !!session,
-        userId: session?.user?.id,
-        needsProfileCompletion,
-      });
-      setAuthState((prev) => ({
-        ...prev,
-        session,
-        user: session?.user ?? null,
-        loading: false,
-        error: null,
-        needsProfileCompletion,
-      }));
-      return session;
+      log.info('Sign out successful');
+      setAction({ pending: false, error: null });
     } catch (err) {
-      debugLog('Error getting session', {
-        error: err instanceof Error ? err.message : String(err),
-      });
-      setAuthState((prev) => ({
-        ...prev,
-        loading: false,
-        error: handleError(err, t('error.getSession')),
-        needsProfileCompletion: null,
-      }));
-      return null;
+      log.error('Sign out error', { error: err });
+      const error = toAppError(err, { fallback: 'error.signOut' });
+      setAction({ pending: false, error });
+      // The session is still there, so callers must not act as if signed out
+      throw error;
     }
   };
 
+  const { status } = authState;
   return {
+    status,
     session: authState.session,
     user: authState.user,
-    loading: authState.loading,
-    error: authState.error,
-    needsProfileCompletion: authState.needsProfileCompletion,
+    loading: action.pending || status === 'initializing' || status === 'checkingProfile',
+    error: action.error ?? authState.error,
+    // null until it is known, or while signed out
+    needsProfileCompletion: status === 'needsProfile' ? true : status === 'ready' ? false : null,
     signInWithGoogle,
+    sendEmailCode,
+    verifyEmailCode,
+    completeEmailLink,
     signOut,
-    getSession,
+    retry: retryAuth,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { addBlockListener, BlockedUser, fetchBlockedUsers, unblockUser } from '../lib/blocks';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('BLOCKS');
+
+// People the current user has blocked
+export const useBlockedUsers = (userId: string | undefined) => {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!userId) {
+      return;
+    }
+    try {
+      setBlockedUsers(await fetchBlockedUsers());
+      setError(null);
+    } catch (err) {
+      log.error('Error loading blocked users', { error: err });
+      setError(toAppError(err, { fallback: 'error.loadBlockedUsers' }));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    reload();
+  }, [reload]);
+
+  // Blocks made from a profile while this list is mounted
+  useEffect(() => {
+    return addBlockListener(() => {
+      reload();
+    });
+  }, [reload]);
+
+  // Unblock someone; they leave the list right away and come back if the
+  // server refuses
+  const unblock = useCallback(
+    async (blockedUser: BlockedUser) => {
+      if (!userId) {
+        return;
+      }
+      setBlockedUsers((prev) =>
+        prev.filter((candidate) => candidate.user_id !== blockedUser.user_id)
+      );
+      try {
+        await unblockUser(userId, blockedUser.user_id);
+      } catch (err) {
+        log.error('Error unblocking user', { error: err });
+        setBlockedUsers((prev) =>
+          [...prev, blockedUser].sort((a, b) => b.blocked_at.localeCompare(a.blocked_at))
+        );
+        setError(toAppError(err, { fallback: 'error.unblockUser' }));
+      }
+    },
+    [userId]
+  );
+
+  return { blockedUsers, loading, error, reload, unblock };
+};
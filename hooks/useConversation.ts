@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { cancelUpload, deleteLocalAttachment, LocalAttachment } from '../lib/attachments';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+import {
+  DisplayMessage,
+  fetchMessages,
+  Message,
+  MESSAGE_PAGE_SIZE,
+  OutgoingMessagePayload,
+  queueMessage,
+  SEND_MESSAGE_KIND,
+  subscribeToMessages,
+  toDisplayMessage,
+} from '../lib/messages';
+import {
+  addOutboxListener,
+  discardEntry,
+  getOutboxEntries,
+  OutboxEntry,
+  retryEntry,
+} from '../lib/outbox';
+
+const log = createLogger('CHAT');
+
+const newestFirst = (a: Message, b: Message) =>
+  a.created_at === b.created_at
+    ? b.id.localeCompare(a.id)
+    : b.created_at.localeCompare(a.created_at);
+
+// Add messages to a newest-first list, skipping ones we already have
+const mergeMessages = (current: Message[], incoming: Message[]): Message[] => {
+  const known = new Set(current.map((message) => message.id));
+  const fresh = incoming.filter((message) => !known.has(message.id));
+  if (fresh.length === 0) {
+    return current;
+  }
+  return [...current, ...fresh].sort(newestFirst);
+};
+
+// Queued sends that belong to the given conversation
+const outgoingFor = (entries: OutboxEntry[], conversationId: string | undefined) =>
+  entries.filter(
+    (entry): entry is OutboxEntry<OutgoingMessagePayload> =>
+      entry.kind === SEND_MESSAGE_KIND &&
+      (entry.payload as OutgoingMessagePayload).conversationId === conversationId
+  );
+
+interface ConversationState {
+  messages: Message[];
+  loading: boolean;
+  loadingOlder: boolean;
+  hasMore: boolean;
+  error: AppError | null;
+}
+
+export const useConversation = (conversationId: string | undefined, userId: string | undefined) => {
+  const [state, setState] = useState<ConversationState>({
+    messages: [],
+    loading: true,
+    loadingOlder: false,
+    hasMore: true,
+    error: null,
+  });
+  const [outgoing, setOutgoing] = useState<OutboxEntry<OutgoingMessagePayload>[]>(() =>
+    outgoingFor(getOutboxEntries(), conversationId)
+  );
+  // Mirror of state for callbacks that must not be recreated on every message
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Track queued sends for this conversation and merge them once stored
+  useEffect(() => {
+    setOutgoing(outgoingFor(getOutboxEntries(), conversationId));
+    return addOutboxListener((event) => {
+      if (event.type === 'changed') {
+        setOutgoing(outgoingFor(event.entries, conversationId));
+      } else if (
+        event.entry.kind === SEND_MESSAGE_KIND &&
+        (event.entry.payload as OutgoingMessagePayload).conversationId === conversationId
+      ) {
+        setState((prev) => ({
+          ...prev,
+          messages: mergeMessages(prev.messages, [event.result as Message]),
+        }));
+      }
+    });
+  }, [conversationId]);
+
+  // Load the latest page and subscribe to new messages
+  useEffect(() => {
+    if (!conversationId) {
+      return;
+    }
+
+    let active = true;
+    setState({ messages: [], loading: true, loadingOlder: false, hasMore: true, error: null });
+
+    const unsubscribe = subscribeToMessages(conversationId, (message) => {
+      log.debug('Realtime message received', { id: message.id });
+      setState((prev) => ({ ...prev, messages: mergeMessages(prev.messages, [message]) }));
+    });
+
+    const loadInitial = async () => {
+      try {
+        log.debug('Loading messages', { conversationId });
+        const page = await fetchMessages(conversationId);
+        if (!active) return;
+        setState((prev) => ({
+          ...prev,
+          messages: mergeMessages(prev.messages, page),
+          loading: false,
+          hasMore: page.length === MESSAGE_PAGE_SIZE,
+        }));
+      } catch (err) {
+        log.error('Error loading messages', { error: err });
+        if (!active) return;
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: toAppError(err, { fallback: 'error.loadMessages' }),
+        }));
+      }
+    };
+    loadInitial();
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [conversationId]);
+
+  // Load the page preceding the oldest loaded message
+  const loadOlder = useCallback(async () => {
+    const { messages, loading, loadingOlder, hasMore } = stateRef.current;
+    if (!conversationId || loading || loadingOlder || !hasMore || messages.length === 0) {
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loadingOlder: true }));
+    try {
+      const oldest = messages[messages.length - 1];
+      const page = await fetchMessages(conversationId, oldest);
+      setState((prev) => ({
+        ...prev,
+        messages: mergeMessages(prev.messages, page),
+        loadingOlder: false,
+        hasMore: page.length === MESSAGE_PAGE_SIZE,
+      }));
+    } catch (err) {
+      log.error('Error loading older messages', { error: err });
+      setState((prev) => ({
+        ...prev,
+        loadingOlder: false,
+        error: toAppError(err, { fallback: 'error.loadMessages' }),
+      }));
+    }
+  }, [conversationId]);
+
+  // Queue a message; it renders immediately and is sent by the outbox
+  const send = useCallback(
+    async (body: string, attachment?: LocalAttachment) => {
+      const trimmed = body.trim();
+      if (!conversationId || !userId || (!trimmed && !attachment)) {
+        return false;
+      }
+
+      try {
+        await queueMessage({ conversationId, senderId: userId, body: trimmed, attachment });
+        return true;
+      } catch (err) {
+        log.error('Error queueing message', { error: err });
+        setState((prev) => ({
+          ...prev,
+          error: toAppError(err, { fallback: 'error.sendMessage' }),
+        }));
+        return false;
+      }
+    },
+    [conversationId, userId]
+  );
+
+  // Drop a queued message, stopping its upload and removing its local files
+  const discard = useCallback(
+    async (messageId: string) => {
+      const entry = outgoing.find((candidate) => candidate.id === messageId);
+      await cancelUpload(messageId);
+      await discardEntry(messageId);
+      if (entry?.payload.attachment) {
+        await deleteLocalAttachment(entry.payload.attachment);
+      }
+    },
+    [outgoing]
+  );
+
+  // Stored messages plus queued ones that have not reached the server yet
+  const messages = useMemo<DisplayMessage[]>(() => {
+    const stored = new Set(state.messages.map((message) => message.id));
+    const queued = outgoing.filter((entry) => !stored.has(entry.id)).map(toDisplayMessage);
+    const sent = state.messages.map((message) => ({ ...message, status: 'sent' as const }));
+    return [...queued, ...sent].sort(newestFirst);
+  }, [state.messages, outgoing]);
+
+  return {
+    messages,
+    loading: state.loading,
+    loadingOlder: state.loadingOlder,
+    hasMore: state.hasMore,
+    error: state.error,
+    loadOlder,
+    send,
+    retry: retryEntry,
+    discard,
+  };
+};
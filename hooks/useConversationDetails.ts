@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppError, toAppError } from '../lib/errors';
+import { ConversationDetails, fetchConversationDetails } from '../lib/groups';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('GROUP');
+
+export const useConversationDetails = (conversationId: string | undefined) => {
+  const [details, setDetails] = useState<ConversationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!conversationId) {
+      return;
+    }
+    try {
+      const result = await fetchConversationDetails(conversationId);
+      setDetails(result);
+      setError(null);
+    } catch (err) {
+      log.error('Error loading conversation details', { error: err });
+      setError(toAppError(err, { fallback: 'error.loadConversation' }));
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    setLoading(true);
+    reload();
+  }, [reload]);
+
+  return { details, loading, error, reload };
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+import {
+  ConversationMute,
+  fetchConversationMute,
+  MuteDuration,
+  muteConversation,
+  unmuteConversation,
+} from '../lib/notificationSettings';
+
+const log = createLogger('NOTIFICATIONS');
+
+const NOT_MUTED: ConversationMute = { muted: false, until: null };
+
+// The current user's mute on a conversation
+export const useConversationMute = (
+  conversationId: string | undefined,
+  userId: string | undefined
+) => {
+  const [mute, setMuteState] = useState<ConversationMute>(NOT_MUTED);
+  const [error, setError] = useState<AppError | null>(null);
+
+  useEffect(() => {
+    if (!conversationId || !userId) {
+      return;
+    }
+    fetchConversationMute(userId, conversationId)
+      .then(setMuteState)
+      .catch((err) => {
+        log.error('Error loading mute', { error: err });
+      });
+  }, [conversationId, userId]);
+
+  // Mute for a while, or unmute with null
+  const setMute = useCallback(
+    async (duration: MuteDuration | null) => {
+      if (!conversationId || !userId) {
+        return;
+      }
+      try {
+        if (duration) {
+          setMuteState(await muteConversation(userId, conversationId, duration));
+        } else {
+          await unmuteConversation(userId, conversationId);
+          setMuteState(NOT_MUTED);
+        }
+        setError(null);
+      } catch (err) {
+        log.error('Error changing mute', { error: err });
+        setError(toAppError(err, { fallback: 'error.muteConversation' }));
+      }
+    },
+    [conversationId, userId]
+  );
+
+  return { mute, setMute, error };
+};
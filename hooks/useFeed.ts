@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { addBlockListener } from '../lib/blocks';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+import {
+  addPostListener,
+  FEED_PAGE_SIZE,
+  fetchFeed,
+  isPostInFeed,
+  Post,
+  subscribeToNewPosts,
+  toggleLike as toggleLikeRequest,
+} from '../lib/posts';
+
+const log = createLogger('FEED');
+
+interface FeedState {
+  posts: Post[];
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  // Posts were published since the feed was last loaded
+  hasNewPosts: boolean;
+  error: AppError | null;
+}
+
+export const useFeed = (userId: string | undefined) => {
+  const [state, setState] = useState<FeedState>({
+    posts: [],
+    loading: true,
+    refreshing: false,
+    loadingMore: false,
+    hasMore: true,
+    hasNewPosts: false,
+    error: null,
+  });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Replace the feed with its newest page
+  const refresh = useCallback(async (isPullToRefresh = false) => {
+    if (isPullToRefresh) {
+      setState((prev) => ({ ...prev, refreshing: true, error: null }));
+    }
+    try {
+      const page = await fetchFeed();
+      setState((prev) => ({
+        ...prev,
+        posts: page,
+        loading: false,
+        refreshing: false,
+        hasNewPosts: false,
+        hasMore: page.length === FEED_PAGE_SIZE,
+      }));
+    } catch (err) {
+      log.error('Error loading feed', { error: err });
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        refreshing: false,
+        error: toAppError(err, { fallback: 'error.loadFeed' }),
+      }));
+    }
+  }, []);
+
+  // Load the page after the last loaded post
+  const loadMore = useCallback(async () => {
+    const { posts, loading, loadingMore, hasMore } = stateRef.current;
+    if (loading || loadingMore || !hasMore || posts.length === 0) {
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loadingMore: true }));
+    try {
+      const page = await fetchFeed(posts[posts.length - 1]);
+      setState((prev) => {
+        const known = new Set(prev.posts.map((post) => post.id));
+        return {
+          ...prev,
+          posts: [...prev.posts, ...page.filter((post) => !known.has(post.id))],
+          loadingMore: false,
+          hasMore: page.length === FEED_PAGE_SIZE,
+        };
+      });
+    } catch (err) {
+      log.error('Error loading more posts', { error: err });
+      setState((prev) => ({
+        ...prev,
+        loadingMore: false,
+        error: toAppError(err, { fallback: 'error.loadFeed' }),
+      }));
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    refresh();
+  }, [userId, refresh]);
+
+  // Announce posts by others instead of inserting them, so the list does not
+  // jump. Our own posts are shown straight away.
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    return subscribeToNewPosts(userId, (post) => {
+      log.debug('New post published', { id: post.id });
+      if (post.author_id === userId) {
+        refresh();
+      } else if (!stateRef.current.hasNewPosts) {
+        isPostInFeed(post.id)
+          .then((inFeed) => {
+            if (inFeed) {
+              setState((prev) => ({ ...prev, hasNewPosts: true }));
+            }
+          })
+          .catch((err) => log.error('Error checking new post', { error: err }));
+      }
+    });
+  }, [userId, refresh]);
+
+  // Apply likes and comments made on this device, here or on a post screen
+  useEffect(() => {
+    return addPostListener((change) => {
+      setState((prev) => ({
+        ...prev,
+        posts: prev.posts.map((post) => (post.id === change.id ? { ...post, ...change } : post)),
+      }));
+    });
+  }, []);
+
+  // Drop posts by someone as soon as they are blocked; unblocked users' posts
+  // come back with the next refresh
+  useEffect(() => {
+    return addBlockListener((change) => {
+      if (change.blocked) {
+        setState((prev) => ({
+          ...prev,
+          posts: prev.posts.filter((post) => post.author_id !== change.userId),
+        }));
+      }
+    });
+  }, []);
+
+  const toggleLike = useCallback(
+    async (post: Post) => {
+      if (!userId) {
+        return;
+      }
+      try {
+        await toggleLikeRequest(post, userId);
+      } catch (err) {
+        log.error('Error toggling like', { error: err });
+        setState((prev) => ({ ...prev, error: toAppError(err, { fallback: 'error.likePost' }) }));
+      }
+    },
+    [userId]
+  );
+
+  return {
+    posts: state.posts,
+    loading: state.loading,
+    refreshing: state.refreshing,
+    loadingMore: state.loadingMore,
+    hasMore: state.hasMore,
+    hasNewPosts: state.hasNewPosts,
+    error: state.error,
+    refresh,
+    loadMore,
+    toggleLike,
+  };
+};
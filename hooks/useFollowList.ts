@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppError, toAppError } from '../lib/errors';
+import {
+  addFollowListener,
+  changeFollow,
+  emitFollowChange,
+  fetchFollowList,
+  fetchFollowRequests,
+  FOLLOW_PAGE_SIZE,
+  FollowListEntry,
+  FollowListKind,
+  FollowRequest,
+  followStatusOf,
+  respondToFollowRequest,
+} from '../lib/follows';
+import { createLogger } from '../lib/logger';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const log = createLogger('FOLLOW');
+
+interface FollowListState {
+  entries: FollowListEntry[];
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: AppError | null;
+}
+
+const INITIAL_STATE: FollowListState = {
+  entries: [],
+  loading: true,
+  refreshing: false,
+  loadingMore: false,
+  hasMore: true,
+  error: null,
+};
+
+// Paginated followers or following list for a user, filtered by `query`
+export const useFollowList = (
+  userId: string | undefined,
+  kind: FollowListKind,
+  query: string,
+  viewerId: string | undefined
+) => {
+  const [state, setState] = useState<FollowListState>(INITIAL_STATE);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Ignore pages that arrive after the list or search changed
+  const requestId = useRef(0);
+
+  const loadFirstPage = useCallback(
+    async (isPullToRefresh = false) => {
+      if (!userId) {
+        return;
+      }
+      const id = ++requestId.current;
+      if (isPullToRefresh) {
+        setState((prev) => ({ ...prev, refreshing: true, error: null }));
+      }
+      try {
+        const page = await fetchFollowList(userId, kind, query);
+        if (id !== requestId.current) return;
+        setState({
+          ...INITIAL_STATE,
+          entries: page,
+          loading: false,
+          hasMore: page.length === FOLLOW_PAGE_SIZE,
+        });
+      } catch (err) {
+        log.error('Error loading follow list', { error: err });
+        if (id !== requestId.current) return;
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          refreshing: false,
+          error: toAppError(err, { fallback: 'error.loadFollowList' }),
+        }));
+      }
+    },
+    [userId, kind, query]
+  );
+
+  // Reload when the list changes, debouncing search input
+  useEffect(() => {
+    const requests = requestId;
+    setState(INITIAL_STATE);
+    const timer = setTimeout(() => loadFirstPage(), query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => {
+      clearTimeout(timer);
+      // Any response still on its way is for the old list
+      requests.current++;
+    };
+  }, [loadFirstPage, query]);
+
+  const loadMore = useCallback(async () => {
+    const { entries, loading, loadingMore, hasMore } = stateRef.current;
+    if (!userId || loading || loadingMore || !hasMore || entries.length === 0) {
+      return;
+    }
+
+    const id = requestId.current;
+    setState((prev) => ({ ...prev, loadingMore: true }));
+    try {
+      const page = await fetchFollowList(userId, kind, query, entries[entries.length - 1]);
+      if (id !== requestId.current) return;
+      setState((prev) => {
+        const known = new Set(prev.entries.map((entry) => entry.user_id));
+        return {
+          ...prev,
+          entries: [...prev.entries, ...page.filter((entry) => !known.has(entry.user_id))],
+          loadingMore: false,
+          hasMore: page.length === FOLLOW_PAGE_SIZE,
+        };
+      });
+    } catch (err) {
+      log.error('Error loading more of follow list', { error: err });
+      setState((prev) => ({
+        ...prev,
+        loadingMore: false,
+        error: toAppError(err, { fallback: 'error.loadFollowList' }),
+      }));
+    }
+  }, [userId, kind, query]);
+
+  // Keep follow buttons in step with follows made here or elsewhere
+  useEffect(() => {
+    return addFollowListener((change) => {
+      if (change.followerId !== viewerId) {
+        return;
+      }
+      setState((prev) => ({
+        ...prev,
+        entries: prev.entries.map((entry) =>
+          entry.user_id === change.followeeId
+            ? {
+                ...entry,
+                is_following: change.status === 'following',
+                has_requested: change.status === 'requested',
+              }
+            : entry
+        ),
+      }));
+    });
+  }, [viewerId]);
+
+  // Follow or unfollow someone in the list; the button flips immediately
+  const toggleFollow = useCallback(
+    async (entry: FollowListEntry) => {
+      if (!viewerId) {
+        return;
+      }
+      const previous = followStatusOf(entry);
+      try {
+        await changeFollow(
+          viewerId,
+          entry.user_id,
+          previous,
+          previous === 'none' ? 'following' : 'none'
+        );
+      } catch (err) {
+        log.error('Error changing follow', { error: err });
+        setState((prev) => ({
+          ...prev,
+          error: toAppError(err, { fallback: 'error.updateProfile' }),
+        }));
+      }
+    },
+    [viewerId]
+  );
+
+  return {
+    entries: state.entries,
+    loading: state.loading,
+    refreshing: state.refreshing,
+    loadingMore: state.loadingMore,
+    hasMore: state.hasMore,
+    error: state.error,
+    refresh: () => loadFirstPage(true),
+    loadMore,
+    toggleFollow,
+  };
+};
+
+// Pending requests to follow the current user's private account
+export const useFollowRequests = (viewerId: string | undefined) => {
+  const [requests, setRequests] = useState<FollowRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!viewerId) {
+      return;
+    }
+    try {
+      setRequests(await fetchFollowRequests());
+      setError(null);
+    } catch (err) {
+      log.error('Error loading follow requests', { error: err });
+      setError(toAppError(err, { fallback: 'error.loadFollowRequests' }));
+    } finally {
+      setLoading(false);
+    }
+  }, [viewerId]);
+
+  useEffect(() => {
+    setLoading(true);
+    reload();
+  }, [reload]);
+
+  // Approve or deny a request; it leaves the list right away and comes back
+  // if the server refuses
+  const respond = useCallback(
+    async (request: FollowRequest, approve: boolean) => {
+      if (!viewerId) {
+        return;
+      }
+      setRequests((prev) => prev.filter((candidate) => candidate.user_id !== request.user_id));
+      try {
+        await respondToFollowRequest(request.user_id, approve);
+        emitFollowChange({
+          followerId: request.user_id,
+          followeeId: viewerId,
+          previous: 'requested',
+          status: approve ? 'following' : 'none',
+        });
+      } catch (err) {
+        log.error('Error responding to follow request', { error: err });
+        setRequests((prev) =>
+          [...prev, request].sort((a, b) => b.requested_at.localeCompare(a.requested_at))
+        );
+        setError(toAppError(err, { fallback: 'error.respondFollowRequest' }));
+      }
+    },
+    [viewerId]
+  );
+
+  return { requests, loading, error, reload, respond };
+};
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { addBlockListener } from '../lib/blocks';
+import {
+  ConversationPreview,
+  fetchInbox,
+  INBOX_PAGE_SIZE,
+  queueMarkConversationRead,
+  subscribeToInbox,
+} from '../lib/conversations';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+import type { Message } from '../lib/messages';
+import { queueMarkConversationDelivered } from '../lib/receipts';
+
+const log = createLogger('INBOX');
+
+// Keep conversations ordered by latest activity, newest first
+const sortByActivity = (conversations: ConversationPreview[]): ConversationPreview[] =>
+  [...conversations].sort((a, b) =>
+    a.last_message_at === b.last_message_at
+      ? b.conversation_id.localeCompare(a.conversation_id)
+      : b.last_message_at.localeCompare(a.last_message_at)
+  );
+
+// Replace loaded conversations with fresher copies and add new ones
+const mergeConversations = (
+  current: ConversationPreview[],
+  incoming: ConversationPreview[]
+): ConversationPreview[] => {
+  const byId = new Map(current.map((conversation) => [conversation.conversation_id, conversation]));
+  for (const conversation of incoming) {
+    byId.set(conversation.conversation_id, conversation);
+  }
+  return sortByActivity([...byId.values()]);
+};
+
+interface InboxState {
+  conversations: ConversationPreview[];
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: AppError | null;
+}
+
+export const useInbox = (userId: string | undefined) => {
+  const [state, setState] = useState<InboxState>({
+    conversations: [],
+    loading: true,
+    refreshing: false,
+    loadingMore: false,
+    hasMore: true,
+    error: null,
+  });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Fetch the first page and merge it into what is already loaded
+  const refresh = useCallback(async (isPullToRefresh = false) => {
+    if (isPullToRefresh) {
+      setState((prev) => ({ ...prev, refreshing: true, error: null }));
+    }
+    try {
+      const page = await fetchInbox();
+      // Everything listed has now reached this device
+      page
+        .filter((conversation) => conversation.unread_count > 0)
+        .forEach((conversation) => queueMarkConversationDelivered(conversation.conversation_id));
+      setState((prev) => ({
+        ...prev,
+        conversations: isPullToRefresh
+          ? sortByActivity(page)
+          : mergeConversations(prev.conversations, page),
+        loading: false,
+        refreshing: false,
+        hasMore: isPullToRefresh || prev.loading ? page.length === INBOX_PAGE_SIZE : prev.hasMore,
+      }));
+    } catch (err) {
+      log.error('Error loading inbox', { error: err });
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        refreshing: false,
+        error: toAppError(err, { fallback: 'error.loadConversations' }),
+      }));
+    }
+  }, []);
+
+  // Load the next page after the last loaded conversation
+  const loadMore = useCallback(async () => {
+    const { conversations, loading, loadingMore, hasMore } = stateRef.current;
+    if (loading || loadingMore || !hasMore || conversations.length === 0) {
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loadingMore: true }));
+    try {
+      const page = await fetchInbox(conversations[conversations.length - 1]);
+      setState((prev) => ({
+        ...prev,
+        conversations: mergeConversations(prev.conversations, page),
+        loadingMore: false,
+        hasMore: page.length === INBOX_PAGE_SIZE,
+      }));
+    } catch (err) {
+      log.error('Error loading more conversations', { error: err });
+      setState((prev) => ({
+        ...prev,
+        loadingMore: false,
+        error: toAppError(err, { fallback: 'error.loadConversations' }),
+      }));
+    }
+  }, []);
+
+  // Reset the unread badge locally and queue the read marker update
+  const markRead = useCallback(async (conversationId: string) => {
+    setState((prev) => ({
+      ...prev,
+      conversations: prev.conversations.map((conversation) =>
+        conversation.conversation_id === conversationId
+          ? { ...conversation, unread_count: 0 }
+          : conversation
+      ),
+    }));
+    await queueMarkConversationRead(conversationId);
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    refresh();
+  }, [userId, refresh]);
+
+  // Move conversations to the top as new messages arrive
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const handleMessage = (message: Message) => {
+      if (message.sender_id !== userId) {
+        queueMarkConversationDelivered(message.conversation_id);
+      }
+
+      const known = stateRef.current.conversations.some(
+        (conversation) => conversation.conversation_id === message.conversation_id
+      );
+      if (!known) {
+        log.warn('Message for unknown conversation, refreshing', {
+          conversationId: message.conversation_id,
+        });
+        refresh();
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        conversations: sortByActivity(
+          prev.conversations.map((conversation) =>
+            conversation.conversation_id === message.conversation_id
+              ? {
+                  ...conversation,
+                  last_message_at: message.created_at,
+                  last_message_body: message.body,
+                  last_message_kind: message.kind,
+                  last_message_metadata: message.metadata,
+                  last_message_sender_id: message.sender_id,
+                  unread_count:
+                    message.sender_id === userId
+                      ? conversation.unread_count
+                      : conversation.unread_count + 1,
+                }
+              : conversation
+          )
+        ),
+      }));
+    };
+
+    return subscribeToInbox(userId, handleMessage);
+  }, [userId, refresh]);
+
+  // Blocking hides or restores conversations, so start again from the top
+  useEffect(() => {
+    return addBlockListener(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  return {
+    conversations: state.conversations,
+    loading: state.loading,
+    refreshing: state.refreshing,
+    loadingMore: state.loadingMore,
+    hasMore: state.hasMore,
+    error: state.error,
+    refresh: () => refresh(true),
+    loadMore,
+    markRead,
+  };
+};
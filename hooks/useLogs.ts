@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { addLogListener, getLogEntries, getLogLevel, LogEntry, LogLevel } from '../lib/logger';
+
+// Recent log entries and the current log level, kept live for the Diagnostics screen
+export const useLogs = () => {
+  const [entries, setEntries] = useState<LogEntry[]>(getLogEntries);
+  const [level, setLevel] = useState<LogLevel>(getLogLevel);
+
+  useEffect(() => {
+    setEntries(getLogEntries());
+    setLevel(getLogLevel());
+    return addLogListener((next) => {
+      setEntries(next);
+      setLevel(getLogLevel());
+    });
+  }, []);
+
+  return { entries, level };
+};
@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+import {
+  addNotificationReadListener,
+  AppNotification,
+  emitNotificationsRead,
+  fetchNotificationActor,
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markNotificationsRead,
+  NOTIFICATION_PAGE_SIZE,
+  subscribeToNotifications,
+} from '../lib/notifications';
+
+const RECOUNT_DELAY_MS = 500;
+
+const log = createLogger('NOTIFICATIONS');
+
+interface NotificationsState {
+  notifications: AppNotification[];
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: AppError | null;
+}
+
+const applyRead = (
+  notifications: AppNotification[],
+  ids: string[] | null,
+  readAt: string
+): AppNotification[] =>
+  notifications.map((notification) =>
+    !notification.read_at && (ids === null || ids.includes(notification.id))
+      ? { ...notification, read_at: readAt }
+      : notification
+  );
+
+// The current user's notifications, newest first, kept live over Realtime
+export const useNotifications = (userId: string | undefined) => {
+  const [state, setState] = useState<NotificationsState>({
+    notifications: [],
+    loading: true,
+    refreshing: false,
+    loadingMore: false,
+    hasMore: true,
+    error: null,
+  });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const refresh = useCallback(
+    async (isPullToRefresh = false) => {
+      if (!userId) {
+        return;
+      }
+      if (isPullToRefresh) {
+        setState((prev) => ({ ...prev, refreshing: true, error: null }));
+      }
+      try {
+        const page = await fetchNotifications(userId);
+        setState((prev) => ({
+          ...prev,
+          notifications: page,
+          loading: false,
+          refreshing: false,
+          hasMore: page.length === NOTIFICATION_PAGE_SIZE,
+        }));
+      } catch (err) {
+        log.error('Error loading notifications', { error: err });
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          refreshing: false,
+          error: toAppError(err, { fallback: 'error.loadNotifications' }),
+        }));
+      }
+    },
+    [userId]
+  );
+
+  const loadMore = useCallback(async () => {
+    const { notifications, loading, loadingMore, hasMore } = stateRef.current;
+    if (!userId || loading || loadingMore || !hasMore || notifications.length === 0) {
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loadingMore: true }));
+    try {
+      const page = await fetchNotifications(userId, notifications[notifications.length - 1]);
+      setState((prev) => {
+        const known = new Set(prev.notifications.map((notification) => notification.id));
+        return {
+          ...prev,
+          notifications: [
+            ...prev.notifications,
+            ...page.filter((notification) => !known.has(notification.id)),
+          ],
+          loadingMore: false,
+          hasMore: page.length === NOTIFICATION_PAGE_SIZE,
+        };
+      });
+    } catch (err) {
+      log.error('Error loading more notifications', { error: err });
+      setState((prev) => ({
+        ...prev,
+        loadingMore: false,
+        error: toAppError(err, { fallback: 'error.loadNotifications' }),
+      }));
+    }
+  }, [userId]);
+
+  // Initial load
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // New notifications go on top; reads from other devices are applied in place
+  // and removed notifications are dropped
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    return subscribeToNotifications(
+      userId,
+      'list',
+      async (row) => {
+        try {
+          const notification = await fetchNotificationActor(row);
+          setState((prev) =>
+            prev.notifications.some((existing) => existing.id === notification.id)
+              ? prev
+              : { ...prev, notifications: [notification, ...prev.notifications] }
+          );
+        } catch (err) {
+          log.error('Error loading new notification', { error: err });
+        }
+      },
+      (row) => {
+        if (row.read_at) {
+          setState((prev) => ({
+            ...prev,
+            notifications: applyRead(prev.notifications, [row.id], row.read_at as string),
+          }));
+        }
+      },
+      (row) => {
+        setState((prev) => ({
+          ...prev,
+          notifications: prev.notifications.filter((notification) => notification.id !== row.id),
+        }));
+      }
+    );
+  }, [userId]);
+
+  useEffect(() => {
+    return addNotificationReadListener(({ ids, readAt }) => {
+      setState((prev) => ({ ...prev, notifications: applyRead(prev.notifications, ids, readAt) }));
+    });
+  }, []);
+
+  // Mark notifications read here and on the badge straight away. Marking read
+  // is not worth an error if it fails; the rows stay unread on the next load.
+  const markRead = useCallback(async (ids: string[] | null) => {
+    if (ids !== null) {
+      const unread = new Set(
+        stateRef.current.notifications
+          .filter((notification) => !notification.read_at)
+          .map((notification) => notification.id)
+      );
+      ids = ids.filter((id) => unread.has(id));
+      if (ids.length === 0) {
+        return;
+      }
+    }
+    emitNotificationsRead({ ids, readAt: new Date().toISOString() });
+    try {
+      await markNotificationsRead(ids ?? undefined);
+    } catch (err) {
+      log.error('Error marking notifications read', { error: err });
+    }
+  }, []);
+
+  return {
+    notifications: state.notifications,
+    loading: state.loading,
+    refreshing: state.refreshing,
+    loadingMore: state.loadingMore,
+    hasMore: state.hasMore,
+    error: state.error,
+    refresh,
+    loadMore,
+    markRead: (notification: AppNotification) => markRead([notification.id]),
+    markAllRead: () => markRead(null),
+  };
+};
+
+// Number of unread notifications, for the Home tab badge
+export const useUnreadNotificationCount = (userId: string | undefined) => {
+  const [count, setCount] = useState(0);
+
+  const reload = useCallback(async () => {
+    if (!userId) {
+      setCount(0);
+      return;
+    }
+    try {
+      setCount(await fetchUnreadNotificationCount(userId));
+    } catch (err) {
+      log.error('Error loading unread notification count', { error: err });
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    // Reads may come from another device and removed rows may or may not have
+    // been read, so count again rather than guess. Marking all read updates
+    // every row, so wait for the burst to end.
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleReload = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(reload, RECOUNT_DELAY_MS);
+    };
+    const unsubscribe = subscribeToNotifications(
+      userId,
+      'badge',
+      (row) => {
+        if (!row.read_at) {
+          setCount((prev) => prev + 1);
+        }
+      },
+      scheduleReload,
+      scheduleReload
+    );
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      unsubscribe();
+    };
+  }, [userId, reload]);
+
+  useEffect(() => {
+    return addNotificationReadListener(({ ids }) => {
+      setCount((prev) => (ids === null ? 0 : Math.max(0, prev - ids.length)));
+    });
+  }, []);
+
+  return count;
+};
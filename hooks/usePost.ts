@@ -0,0 +1,111 @@
+import * as Crypto from 'expo-crypto';
+import { useCallback, useEffect, useState } from 'react';
+import { AppError, toAppError } from '../lib/errors';
+import { createLogger } from '../lib/logger';
+import {
+  addComment as addCommentRequest,
+  addPostListener,
+  emitPostChange,
+  fetchComments,
+  fetchPost,
+  Post,
+  PostComment,
+  toggleLike as toggleLikeRequest,
+} from '../lib/posts';
+import type { Profile } from '../lib/profiles';
+
+const log = createLogger('FEED');
+
+// A comment shown before the server confirms it
+export interface DisplayComment extends PostComment {
+  pending?: boolean;
+}
+
+// A post with its comments. `post` stays null once loaded if the post is gone.
+export const usePost = (postId: string | undefined, userId: string | undefined) => {
+  const [post, setPost] = useState<Post | null>(null);
+  const [comments, setComments] = useState<DisplayComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!postId) {
+      return;
+    }
+    try {
+      const [loadedPost, loadedComments] = await Promise.all([
+        fetchPost(postId),
+        fetchComments(postId),
+      ]);
+      setPost(loadedPost);
+      setComments(loadedComments);
+      setError(null);
+    } catch (err) {
+      log.error('Error loading post', { error: err });
+      setError(toAppError(err, { fallback: 'error.loadPost' }));
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    setLoading(true);
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    return addPostListener((change) => {
+      setPost((prev) => (prev && prev.id === change.id ? { ...prev, ...change } : prev));
+    });
+  }, []);
+
+  const toggleLike = useCallback(async () => {
+    if (!post || !userId) {
+      return;
+    }
+    try {
+      await toggleLikeRequest(post, userId);
+    } catch (err) {
+      setError(toAppError(err, { fallback: 'error.likePost' }));
+    }
+  }, [post, userId]);
+
+  // Show the comment and bump the count right away; both are undone on failure
+  const addComment = useCallback(
+    async (body: string, author: Profile | null) => {
+      if (!post || !userId || !body.trim()) {
+        return false;
+      }
+
+      const id = Crypto.randomUUID();
+      const optimistic: DisplayComment = {
+        id,
+        post_id: post.id,
+        author_id: userId,
+        body: body.trim(),
+        created_at: new Date().toISOString(),
+        author,
+        pending: true,
+      };
+      setComments((prev) => [...prev, optimistic]);
+      emitPostChange({ id: post.id, comment_count: post.comment_count + 1 });
+
+      try {
+        const saved = await addCommentRequest(id, post.id, body);
+        setComments((prev) =>
+          prev.map((comment) => (comment.id === id ? { ...saved, author } : comment))
+        );
+        return true;
+      } catch (err) {
+        log.error('Error adding comment', { error: err });
+        setComments((prev) => prev.filter((comment) => comment.id !== id));
+        emitPostChange({ id: post.id, comment_count: post.comment_count });
+        setError(toAppError(err, { fallback: 'error.addComment' }));
+        return false;
+      }
+    },
+    [post, userId]
+  );
+
+  return { post, comments, loading, error, reload, toggleLike, addComment };
+};
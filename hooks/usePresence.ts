@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { createLogger } from '../lib/logger';
+import { addPresenceListener, fetchLastSeen, isUserOnline, watchPresence } from '../lib/presence';
+
+const log = createLogger('PRESENCE');
+
+// Whether a user is currently online, kept live from their presence channel
+export const useOnlineStatus = (userId: string | null | undefined) => {
+  const [online, setOnline] = useState(() => (userId ? isUserOnline(userId) : false));
+
+  useEffect(() => {
+    if (!userId) {
+      setOnline(false);
+      return;
+    }
+    const removeListener = addPresenceListener((onlineUserIds) =>
+      setOnline(onlineUserIds.has(userId))
+    );
+    const unwatch = watchPresence(userId);
+    setOnline(isUserOnline(userId));
+    return () => {
+      removeListener();
+      unwatch();
+    };
+  }, [userId]);
+
+  return online;
+};
+
+// A user's last-seen time, or null if they hide it or were never seen
+export const useLastSeen = (userId: string | null | undefined) => {
+  const online = useOnlineStatus(userId);
+  const [lastSeenAt, setLastSeenAt] = useState<string | null>(null);
+
+  // Refetch when the user goes offline so the time reflects that moment
+  useEffect(() => {
+    if (!userId || online) {
+      return;
+    }
+    let active = true;
+    fetchLastSeen([userId])
+      .then((lastSeen) => {
+        if (active) setLastSeenAt(lastSeen[userId] ?? null);
+      })
+      .catch((err) => {
+        log.error('Error fetching last seen', { error: err });
+      });
+    return () => {
+      active = false;
+    };
+  }, [userId, online]);
+
+  return { online, lastSeenAt };
+};
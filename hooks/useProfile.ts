@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import { blockUser, unblockUser } from '../lib/blocks';
+import { AppError, toAppError } from '../lib/errors';
+import {
+  addFollowListener,
+  changeFollow,
+  FollowChange,
+  FollowStatus,
+  followStatusOf,
+} from '../lib/follows';
+import { createLogger } from '../lib/logger';
+import { fetchProfilePage, ProfilePage } from '../lib/profiles';
+
+const log = createLogger('PROFILE');
+
+// Followers/following count difference caused by a change
+const countDelta = (change: FollowChange) =>
+  (change.status === 'following' ? 1 : 0) - (change.previous === 'following' ? 1 : 0);
+
+// Apply a follow change made anywhere in the app to a loaded profile
+const applyFollowChange = (
+  profile: ProfilePage,
+  change: FollowChange,
+  viewerId: string | undefined
+): ProfilePage => {
+  let next = profile;
+  if (change.followeeId === profile.id) {
+    next = { ...next, follower_count: next.follower_count + countDelta(change) };
+    if (change.followerId === viewerId) {
+      next = {
+        ...next,
+        is_following: change.status === 'following',
+        has_requested: change.status === 'requested',
+      };
+    }
+  }
+  if (change.followerId === profile.id) {
+    next = { ...next, following_count: next.following_count + countDelta(change) };
+  }
+  return next;
+};
+
+// Profile page for a username. `profile` stays null once loaded if nobody has
+// that username.
+export const useProfile = (username: string | undefined, userId: string | undefined) => {
+  const [profile, setProfile] = useState<ProfilePage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!username) {
+      return;
+    }
+    try {
+      log.debug('Loading profile', { username });
+      setProfile(await fetchProfilePage(username));
+      setError(null);
+    } catch (err) {
+      log.error('Error loading profile', { error: err });
+      setError(toAppError(err, { fallback: 'error.loadProfile' }));
+    } finally {
+      setLoading(false);
+    }
+  }, [username]);
+
+  useEffect(() => {
+    setLoading(true);
+    setProfile(null);
+    reload();
+  }, [reload]);
+
+  // Keep counts and the follow button in step with follows made elsewhere
+  useEffect(() => {
+    return addFollowListener((change) => {
+      setProfile((prev) => (prev ? applyFollowChange(prev, change, userId) : prev));
+    });
+  }, [userId]);
+
+  // Block or unblock the viewed user, then refetch so counts and flags come
+  // from the server
+  const update = useCallback(
+    async (action: (viewerId: string, profileId: string) => Promise<void>) => {
+      if (!userId || !profile || updating) {
+        return;
+      }
+      setUpdating(true);
+      try {
+        await action(userId, profile.id);
+        await reload();
+      } catch (err) {
+        log.error('Error updating profile relationship', { error: err });
+        setError(toAppError(err, { fallback: 'error.updateProfile' }));
+      } finally {
+        setUpdating(false);
+      }
+    },
+    [userId, profile, updating, reload]
+  );
+
+  // Follow (or request to follow a private account) or unfollow, updating the
+  // screen before the server answers
+  const setFollowStatus = useCallback(
+    async (next: FollowStatus) => {
+      if (!userId || !profile) {
+        return;
+      }
+      try {
+        await changeFollow(userId, profile.id, followStatusOf(profile), next);
+      } catch (err) {
+        log.error('Error changing follow', { error: err });
+        setError(toAppError(err, { fallback: 'error.updateProfile' }));
+      }
+    },
+    [userId, profile]
+  );
+
+  const follow = useCallback(
+    () => setFollowStatus(profile?.is_private ? 'requested' : 'following'),
+    [setFollowStatus, profile?.is_private]
+  );
+  const unfollow = useCallback(() => setFollowStatus('none'), [setFollowStatus]);
+  const block = useCallback(() => update(blockUser), [update]);
+  const unblock = useCallback(() => update(unblockUser), [update]);
+
+  return { profile, loading, updating, error, reload, follow, unfollow, block, unblock };
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createLogger } from '../lib/logger';
+import { fetchReadMarkers, ReadMarker, subscribeToReceipts } from '../lib/receipts';
+
+const log = createLogger('CHAT');
+
+// Read and delivery markers of the other members, refetched whenever one of
+// them reports progress
+export const useReadReceipts = (conversationId: string | undefined) => {
+  const [markers, setMarkers] = useState<ReadMarker[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!conversationId) {
+      return;
+    }
+    try {
+      setMarkers(await fetchReadMarkers(conversationId));
+    } catch (err) {
+      log.error('Error loading read markers', { error: err });
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!conversationId) {
+      return;
+    }
+    reload();
+    return subscribeToReceipts(conversationId, reload);
+  }, [conversationId, reload]);
+
+  return { markers, reload };
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { addToastListener, getToasts, Toast } from '../lib/toasts';
+
+// Error toasts currently on screen
+export const useToasts = () => {
+  const [toasts, setToasts] = useState<Toast[]>(getToasts);
+
+  useEffect(() => {
+    setToasts(getToasts());
+    return addToastListener(setToasts);
+  }, []);
+
+  return toasts;
+};
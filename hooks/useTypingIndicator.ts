@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { joinTypingChannel, TYPING_EXPIRY_MS, TYPING_THROTTLE_MS } from '../lib/presence';
+
+export const useTypingIndicator = (conversationId: string | undefined, userId: string | undefined) => {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const channelRef = useRef<ReturnType<typeof joinTypingChannel> | null>(null);
+  const expiryTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const lastSentAt = useRef(0);
+
+  useEffect(() => {
+    if (!conversationId || !userId) {
+      return;
+    }
+    const timers = expiryTimers.current;
+
+    const clearTyping = (typingUserId: string) => {
+      clearTimeout(timers.get(typingUserId));
+      timers.delete(typingUserId);
+      setTypingUserIds((prev) => prev.filter((id) => id !== typingUserId));
+    };
+
+    const channel = joinTypingChannel(conversationId, userId, (typingUserId, isTyping) => {
+      if (!isTyping) {
+        clearTyping(typingUserId);
+        return;
+      }
+      // Drop stale state if the sender goes quiet without a "stopped" event
+      clearTimeout(timers.get(typingUserId));
+      timers.set(typingUserId, setTimeout(() => clearTyping(typingUserId), TYPING_EXPIRY_MS));
+      setTypingUserIds((prev) => (prev.includes(typingUserId) ? prev : [...prev, typingUserId]));
+    });
+    channelRef.current = channel;
+
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      setTypingUserIds([]);
+      channel.leave();
+      channelRef.current = null;
+    };
+  }, [conversationId, userId]);
+
+  // Call on every keystroke; broadcasts at most once per throttle window
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentAt.current < TYPING_THROTTLE_MS) {
+      return;
+    }
+    lastSentAt.current = now;
+    channelRef.current?.send(true);
+  }, []);
+
+  // Call after sending or clearing the draft
+  const stopTyping = useCallback(() => {
+    if (lastSentAt.current === 0) {
+      return;
+    }
+    lastSentAt.current = 0;
+    channelRef.current?.send(false);
+  }, []);
+
+  return { typingUserIds, notifyTyping, stopTyping };
+};
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { isUsernameAvailable } from '../lib/account';
+import { createLogger } from '../lib/logger';
+import { usernameSchema } from '../lib/profileSchemas';
+
+const log = createLogger('ACCOUNT');
+
+// Wait for typing to pause before asking the server about a username
+const AVAILABILITY_DELAY_MS = 400;
+
+// 'unknown' means the check itself failed; the server still validates on save
+export type UsernameAvailability =
+  | 'unchanged'
+  | 'invalid'
+  | 'checking'
+  | 'available'
+  | 'taken'
+  | 'unknown';
+
+// Live check of a username being typed. An empty field or the user's current
+// username is 'unchanged'.
+export const useUsernameAvailability = (
+  username: string,
+  currentUsername?: string | null
+): UsernameAvailability => {
+  const [availability, setAvailability] = useState<UsernameAvailability>('unchanged');
+
+  useEffect(() => {
+    if (!username || username === currentUsername) {
+      setAvailability('unchanged');
+      return;
+    }
+    if (!usernameSchema.safeParse(username).success) {
+      setAvailability('invalid');
+      return;
+    }
+
+    setAvailability('checking');
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      isUsernameAvailable(username)
+        .then((available) => {
+          if (!cancelled) {
+            setAvailability(available ? 'available' : 'taken');
+          }
+        })
+        .catch((err) => {
+          log.error('Error checking username', { error: err });
+          if (!cancelled) {
+            setAvailability('unknown');
+          }
+        });
+    }, AVAILABILITY_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [username, currentUsername]);
+
+  return availability;
+};
@@ -0,0 +1,112 @@
+import { AVATAR_BUCKET } from './avatars';
+import type { ErrorMessageKeys } from './errors';
+import { createLogger } from './logger';
+import { POST_IMAGE_BUCKET } from './posts';
+import { removeFolder } from './storage';
+import { supabase } from './supabase';
+
+const log = createLogger('ACCOUNT');
+
+// Kept in step with public.is_valid_username
+export const USERNAME_PATTERN = /^[A-Za-z0-9_.]{3,30}$/;
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+export const MAX_BIO_LENGTH = 160;
+export const MAX_INTERESTS = 5;
+// How long a username has to be kept before it can be changed again
+export const USERNAME_CHANGE_INTERVAL_DAYS = 14;
+
+export interface AccountProfile {
+  display_name: string;
+  username: string;
+  avatar_url: string | null;
+  bio: string | null;
+  username_changed_at: string | null;
+}
+
+export interface ProfileChanges {
+  display_name: string;
+  bio: string;
+  avatar_url: string;
+}
+
+export const fetchAccountProfile = async (userId: string): Promise<AccountProfile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('display_name, username, avatar_url, bio, username_changed_at')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data as AccountProfile;
+};
+
+export const updateProfile = async (changes: ProfileChanges): Promise<void> => {
+  const { error } = await supabase.rpc('update_profile', {
+    p_display_name: changes.display_name,
+    p_bio: changes.bio,
+    p_avatar_url: changes.avatar_url,
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+// When the username may next be changed, or null if it can be changed now
+export const nextUsernameChangeAt = (profile: AccountProfile): Date | null => {
+  if (!profile.username_changed_at) {
+    return null;
+  }
+  const next = new Date(profile.username_changed_at);
+  next.setDate(next.getDate() + USERNAME_CHANGE_INTERVAL_DAYS);
+  return next > new Date() ? next : null;
+};
+
+export const isUsernameAvailable = async (username: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_username_available', { p_username: username });
+
+  if (error) {
+    throw error;
+  }
+  return !!data;
+};
+
+// Change the username and return when the change was recorded
+export const changeUsername = async (username: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('change_username', { p_username: username });
+
+  if (error) {
+    throw error;
+  }
+  return data as string;
+};
+
+// Messages for errors raised by change_username
+export const USERNAME_ERROR_KEYS: ErrorMessageKeys = {
+  conflict: 'account.usernameTaken',
+  validation: 'account.usernameInvalid',
+  rateLimit: 'account.usernameTooSoon',
+  fallback: 'error.changeUsername',
+};
+
+// Delete the account, then the user's uploaded post images and avatars. Rows
+// in the database go with the account; files in Storage have to be removed
+// here, while the session's token is still accepted. The account goes first
+// so a failed deletion never leaves the user without their photos.
+export const deleteAccount = async (userId: string): Promise<void> => {
+  const { error } = await supabase.rpc('delete_account');
+
+  if (error) {
+    throw error;
+  }
+
+  try {
+    await removeFolder(POST_IMAGE_BUCKET, userId);
+    await removeFolder(AVATAR_BUCKET, userId);
+  } catch (err) {
+    // The account is already gone; leftover files are not worth failing over
+    log.error('Error removing files of deleted account', { error: err });
+  }
+};
@@ -0,0 +1,226 @@
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { AppState, AppStateStatus } from 'react-native';
+import { createLogger } from './logger';
+import { supabase } from './supabase';
+
+// Optional app lock. Settings and the PIN hash never leave the device; they
+// live in the keychain/keystore and are wiped on sign-out. The app locks on
+// launch and whenever it returns from the background after the timeout.
+
+const SETTINGS_KEY = 'appLock.settings';
+const PIN_KEY = 'appLock.pin';
+const ATTEMPTS_KEY = 'appLock.attempts';
+
+export const PIN_LENGTH = 4;
+// Wrong PINs allowed before each lockout
+export const ATTEMPTS_PER_LOCKOUT = 3;
+// Wrong PINs in total before the user is signed out
+export const MAX_FAILED_ATTEMPTS = 10;
+// The first lockout; each one after it is twice as long
+const LOCKOUT_MS = 30 * 1000;
+
+// Seconds in the background before the app locks again
+export const LOCK_TIMEOUTS = [0, 60, 300, 900] as const;
+export type LockTimeout = (typeof LOCK_TIMEOUTS)[number];
+
+export interface AppLockSettings {
+  enabled: boolean;
+  biometrics: boolean;
+  timeout: LockTimeout;
+}
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometrics: true,
+  timeout: 60,
+};
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+interface FailedAttempts {
+  count: number;
+  lockedUntil: number | null;
+}
+
+export type PinResult =
+  | { status: 'unlocked' }
+  | { status: 'wrong'; remaining: number }
+  | { status: 'lockedOut'; until: number }
+  | { status: 'signOut' };
+
+const log = createLogger('APP LOCK');
+
+let settings: AppLockSettings = DEFAULT_APP_LOCK_SETTINGS;
+let locked = false;
+let backgroundedAt: number | null = null;
+const listeners = new Set<(locked: boolean) => void>();
+
+const setLocked = (value: boolean) => {
+  if (locked !== value) {
+    locked = value;
+    listeners.forEach((listener) => listener(locked));
+  }
+};
+
+export const isAppLocked = () => locked;
+
+export const isAppLockEnabled = () => settings.enabled;
+
+export const addAppLockListener = (listener: (locked: boolean) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const fetchAppLockSettings = async (): Promise<AppLockSettings> => {
+  const stored = await SecureStore.getItemAsync(SETTINGS_KEY);
+  settings = stored
+    ? { ...DEFAULT_APP_LOCK_SETTINGS, ...JSON.parse(stored) }
+    : DEFAULT_APP_LOCK_SETTINGS;
+  return settings;
+};
+
+export const updateAppLockSettings = async (
+  changes: Partial<AppLockSettings>
+): Promise<AppLockSettings> => {
+  const next = { ...settings, ...changes };
+  await SecureStore.setItemAsync(SETTINGS_KEY, JSON.stringify(next));
+  settings = next;
+  return settings;
+};
+
+const hashPin = (salt: string, pin: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const hasPin = async (): Promise<boolean> => !!(await SecureStore.getItemAsync(PIN_KEY));
+
+// Store a new PIN as a salted hash and forget earlier failed attempts
+export const setPin = async (pin: string): Promise<void> => {
+  const salt = toHex(Crypto.getRandomBytes(16));
+  const stored: StoredPin = { salt, hash: await hashPin(salt, pin) };
+  await SecureStore.setItemAsync(PIN_KEY, JSON.stringify(stored));
+  await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+};
+
+const readAttempts = async (): Promise<FailedAttempts> => {
+  const stored = await SecureStore.getItemAsync(ATTEMPTS_KEY);
+  return stored ? JSON.parse(stored) : { count: 0, lockedUntil: null };
+};
+
+// When the PIN pad opens again, if a lockout is still running
+export const getLockoutEnd = async (): Promise<number | null> => {
+  const { lockedUntil } = await readAttempts();
+  return lockedUntil && lockedUntil > Date.now() ? lockedUntil : null;
+};
+
+// Check a PIN. Every few wrong guesses lock the pad for a while, longer each
+// time; too many in total and the caller must sign the user out. Once that
+// point is reached no PIN is accepted until the lock is cleared on sign-out.
+export const verifyPin = async (pin: string): Promise<PinResult> => {
+  const attempts = await readAttempts();
+  if (attempts.count >= MAX_FAILED_ATTEMPTS) {
+    return { status: 'signOut' };
+  }
+  if (attempts.lockedUntil && attempts.lockedUntil > Date.now()) {
+    return { status: 'lockedOut', until: attempts.lockedUntil };
+  }
+
+  const stored = await SecureStore.getItemAsync(PIN_KEY);
+  if (!stored) {
+    return { status: 'signOut' };
+  }
+  const { salt, hash } = JSON.parse(stored) as StoredPin;
+  if ((await hashPin(salt, pin)) === hash) {
+    await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    setLocked(false);
+    return { status: 'unlocked' };
+  }
+
+  const count = attempts.count + 1;
+  log.warn('Wrong PIN', { count });
+  if (count >= MAX_FAILED_ATTEMPTS) {
+    await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify({ count, lockedUntil: null }));
+    return { status: 'signOut' };
+  }
+  const lockouts = Math.floor(count / ATTEMPTS_PER_LOCKOUT);
+  const lockedUntil =
+    count % ATTEMPTS_PER_LOCKOUT === 0 ? Date.now() + LOCKOUT_MS * 2 ** (lockouts - 1) : null;
+  await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify({ count, lockedUntil }));
+  return lockedUntil
+    ? { status: 'lockedOut', until: lockedUntil }
+    : { status: 'wrong', remaining: ATTEMPTS_PER_LOCKOUT - (count % ATTEMPTS_PER_LOCKOUT) };
+};
+
+// Whether the device has biometrics set up that we could use
+export const canUseBiometrics = async (): Promise<boolean> =>
+  (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+
+// Ask for Face ID, Touch ID or the fingerprint sensor. The PIN is our own
+// fallback, so the system passcode is not offered.
+export const unlockWithBiometrics = async (promptMessage: string): Promise<boolean> => {
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    disableDeviceFallback: true,
+  });
+  if (result.success) {
+    await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    setLocked(false);
+  }
+  return result.success;
+};
+
+// Forget the lock entirely, e.g. when the user signs out
+export const clearAppLock = async (): Promise<void> => {
+  await Promise.all([
+    SecureStore.deleteItemAsync(SETTINGS_KEY),
+    SecureStore.deleteItemAsync(PIN_KEY),
+    SecureStore.deleteItemAsync(ATTEMPTS_KEY),
+  ]);
+  settings = DEFAULT_APP_LOCK_SETTINGS;
+  setLocked(false);
+};
+
+// Lock on launch and after time in the background, and drop the lock on
+// sign-out. Returns a function that stops watching.
+export const startAppLock = (): (() => void) => {
+  fetchAppLockSettings()
+    .then(async (loaded) => {
+      const { data } = await supabase.auth.getSession();
+      if (loaded.enabled && data.session) {
+        setLocked(true);
+      }
+    })
+    .catch((err) => log.error('Error loading settings', { error: err }));
+
+  const { data } = supabase.auth.onAuthStateChange((event) => {
+    if (event === 'SIGNED_OUT') {
+      clearAppLock().catch((err) => log.error('Error clearing lock', { error: err }));
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+    if (status === 'background') {
+      backgroundedAt = backgroundedAt ?? Date.now();
+    } else if (status === 'active') {
+      const elapsed = backgroundedAt === null ? 0 : Date.now() - backgroundedAt;
+      if (settings.enabled && backgroundedAt !== null && elapsed >= settings.timeout * 1000) {
+        setLocked(true);
+      }
+      backgroundedAt = null;
+    }
+  });
+
+  return () => {
+    data.subscription.unsubscribe();
+    appStateSubscription.remove();
+  };
+};
@@ -0,0 +1,314 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import { AppError, codeFromStatus } from './errors';
+import { createLogger } from './logger';
+import { supabase } from './supabase';
+
+// Photos and files sent in chat. Picked files are resized and copied into the
+// app's documents folder so a queued message survives a restart, then uploaded
+// to the private chat-attachments bucket right before the message is sent.
+
+export const ATTACHMENT_BUCKET = 'chat-attachments';
+// Longest edge of a sent photo and of its thumbnail
+const MAX_IMAGE_SIZE = 1600;
+const THUMBNAIL_SIZE = 320;
+const IMAGE_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.6;
+// Matches the bucket's file size limit
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+// Signed URLs are cached a little shorter than they live
+const SIGNED_URL_TTL_S = 60 * 60;
+const SIGNED_URL_CACHE_MS = 50 * 60 * 1000;
+
+const LOCAL_DIRECTORY = `${FileSystem.documentDirectory}attachments/`;
+
+// Attachment details stored on the message
+export interface MessageAttachment {
+  path: string;
+  thumbnail_path: string | null;
+  mime_type: string;
+  name: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+}
+
+// A picked file waiting in the outbox
+export interface LocalAttachment {
+  uri: string;
+  thumbnailUri: string | null;
+  mimeType: string;
+  name: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+}
+
+export type AttachmentSource = 'camera' | 'library' | 'document';
+
+export interface UploadProgress {
+  sent: number;
+  total: number;
+}
+
+const log = createLogger('ATTACHMENT');
+
+export const isImageAttachment = (attachment: { mime_type?: string; mimeType?: string }) =>
+  (attachment.mime_type ?? attachment.mimeType ?? '').startsWith('image/');
+
+// e.g. "2.4 MB"
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const extensionOf = (name: string) => {
+  const match = /\.([A-Za-z0-9]+)$/.exec(name);
+  return match ? match[1].toLowerCase() : 'bin';
+};
+
+const ensureLocalDirectory = async () => {
+  const info = await FileSystem.getInfoAsync(LOCAL_DIRECTORY);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(LOCAL_DIRECTORY, { intermediates: true });
+  }
+};
+
+const fileSize = async (uri: string): Promise<number> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists ? info.size : 0;
+};
+
+// Scale an image down so its longest edge fits `maxSize` and re-encode it as JPEG
+const resizeImage = async (
+  uri: string,
+  width: number,
+  height: number,
+  maxSize: number,
+  quality: number
+) => {
+  const context = ImageManipulator.manipulate(uri);
+  if (Math.max(width, height) > maxSize) {
+    context.resize(width >= height ? { width: maxSize } : { height: maxSize });
+  }
+  const image = await context.renderAsync();
+  return image.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+};
+
+const prepareImage = async (asset: ImagePicker.ImagePickerAsset): Promise<LocalAttachment> => {
+  const image = await resizeImage(
+    asset.uri,
+    asset.width,
+    asset.height,
+    MAX_IMAGE_SIZE,
+    IMAGE_QUALITY
+  );
+  const thumbnail = await resizeImage(
+    image.uri,
+    image.width,
+    image.height,
+    THUMBNAIL_SIZE,
+    THUMBNAIL_QUALITY
+  );
+
+  const id = Date.now().toString(36);
+  const uri = `${LOCAL_DIRECTORY}${id}.jpg`;
+  const thumbnailUri = `${LOCAL_DIRECTORY}${id}_thumb.jpg`;
+  await FileSystem.moveAsync({ from: image.uri, to: uri });
+  await FileSystem.moveAsync({ from: thumbnail.uri, to: thumbnailUri });
+
+  const baseName = asset.fileName?.replace(/\.[^.]+$/, '') ?? `photo-${id}`;
+  return {
+    uri,
+    thumbnailUri,
+    mimeType: 'image/jpeg',
+    name: `${baseName}.jpg`,
+    size: await fileSize(uri),
+    width: image.width,
+    height: image.height,
+  };
+};
+
+const prepareDocument = async (
+  asset: DocumentPicker.DocumentPickerAsset
+): Promise<LocalAttachment> => {
+  const uri = `${LOCAL_DIRECTORY}${Date.now().toString(36)}.${extensionOf(asset.name)}`;
+  await FileSystem.copyAsync({ from: asset.uri, to: uri });
+  return {
+    uri,
+    thumbnailUri: null,
+    mimeType: asset.mimeType ?? 'application/octet-stream',
+    name: asset.name,
+    size: asset.size ?? (await fileSize(uri)),
+    width: null,
+    height: null,
+  };
+};
+
+// Let the user take a photo, choose one, or choose a file. Resolves to null if
+// they cancel.
+export const pickAttachment = async (source: AttachmentSource): Promise<LocalAttachment | null> => {
+  await ensureLocalDirectory();
+
+  if (source === 'document') {
+    const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+    if (result.canceled) {
+      return null;
+    }
+    return prepareDocument(result.assets[0]);
+  }
+
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 1 };
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled) {
+    return null;
+  }
+  return prepareImage(result.assets[0]);
+};
+
+// Remove the local copies of an attachment once it is sent or discarded
+export const deleteLocalAttachment = async (attachment: LocalAttachment) => {
+  await Promise.all(
+    [attachment.uri, attachment.thumbnailUri]
+      .filter((uri): uri is string => !!uri)
+      .map((uri) => FileSystem.deleteAsync(uri, { idempotent: true }))
+  );
+};
+
+// Uploads in flight, keyed by message id, so they can be followed and cancelled
+const uploads = new Map<string, FileSystem.UploadTask>();
+const progressListeners = new Map<string, Set<(progress: UploadProgress) => void>>();
+const cancelled = new Set<string>();
+
+const emitProgress = (messageId: string, progress: UploadProgress) => {
+  progressListeners.get(messageId)?.forEach((listener) => listener(progress));
+};
+
+export const addUploadProgressListener = (
+  messageId: string,
+  listener: (progress: UploadProgress) => void
+): (() => void) => {
+  const listeners = progressListeners.get(messageId) ?? new Set();
+  listeners.add(listener);
+  progressListeners.set(messageId, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      progressListeners.delete(messageId);
+    }
+  };
+};
+
+// Upload one local file through a signed URL, reporting progress for `messageId`
+const uploadObject = async (
+  messageId: string,
+  path: string,
+  uri: string,
+  contentType: string,
+  reportProgress: boolean
+) => {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUploadUrl(path, { upsert: true });
+  if (error) {
+    throw error;
+  }
+
+  const task = FileSystem.createUploadTask(
+    data.signedUrl,
+    uri,
+    {
+      httpMethod: 'PUT',
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: {
+        apikey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+        'content-type': contentType,
+        'x-upsert': 'true',
+      },
+    },
+    reportProgress
+      ? ({ totalBytesSent, totalBytesExpectedToSend }) =>
+          emitProgress(messageId, { sent: totalBytesSent, total: totalBytesExpectedToSend })
+      : undefined
+  );
+
+  uploads.set(messageId, task);
+  try {
+    const result = await task.uploadAsync();
+    if (cancelled.has(messageId) || !result) {
+      throw new Error('Upload cancelled');
+    }
+    // Carry the status so a rejected upload fails for good instead of retrying
+    if (result.status >= 300) {
+      throw new AppError(codeFromStatus(result.status), {
+        cause: new Error(`Upload failed with status ${result.status}`),
+      });
+    }
+  } finally {
+    uploads.delete(messageId);
+  }
+};
+
+// Upload a queued attachment under <conversation>/<message>/ and describe it
+// for the message row. Uploads overwrite, so a retry after a partial upload is safe.
+export const uploadAttachment = async (
+  conversationId: string,
+  messageId: string,
+  attachment: LocalAttachment
+): Promise<MessageAttachment> => {
+  cancelled.delete(messageId);
+  const folder = `${conversationId}/${messageId}`;
+  const path = `${folder}/file.${extensionOf(attachment.name)}`;
+  const thumbnailPath = attachment.thumbnailUri ? `${folder}/thumbnail.jpg` : null;
+
+  log.debug('Uploading attachment', { messageId, size: attachment.size });
+  if (attachment.thumbnailUri && thumbnailPath) {
+    await uploadObject(messageId, thumbnailPath, attachment.thumbnailUri, 'image/jpeg', false);
+  }
+  await uploadObject(messageId, path, attachment.uri, attachment.mimeType, true);
+
+  return {
+    path,
+    thumbnail_path: thumbnailPath,
+    mime_type: attachment.mimeType,
+    name: attachment.name,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+  };
+};
+
+// Stop an upload in progress. The outbox entry itself is discarded by the caller.
+export const cancelUpload = async (messageId: string) => {
+  cancelled.add(messageId);
+  await uploads.get(messageId)?.cancelAsync();
+};
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+// Short-lived URL for downloading an attachment from the private bucket
+export const getAttachmentUrl = async (path: string): Promise<string> => {
+  const cached = signedUrls.get(path);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.url;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_S);
+  if (error) {
+    throw error;
+  }
+  signedUrls.set(path, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_CACHE_MS });
+  return data.signedUrl;
+};
@@ -0,0 +1,238 @@
+import type { Session, User } from '@supabase/supabase-js';
+import { AuthApiError, PostgrestError } from '@supabase/supabase-js';
+import { AppError, ErrorMessageKeys, toAppError } from './errors';
+import { createLogger } from './logger';
+import { supabase } from './supabase';
+
+// The app's one view of who is signed in. startAuth() is called once from the
+// root layout; screens follow it through useAuth().
+//
+//   initializing → signedOut | checkingProfile
+//   checkingProfile → needsProfile | ready | error
+//   needsProfile → ready (once onboarding is done)
+//   any state → signedOut (on sign-out) | checkingProfile (another user signs in)
+
+export type AuthStatus =
+  'initializing' | 'signedOut' | 'checkingProfile' | 'needsProfile' | 'ready' | 'error';
+
+export interface AuthState {
+  status: AuthStatus;
+  session: Session | null;
+  user: User | null;
+  error: AppError | null;
+}
+
+const log = createLogger('AUTH');
+
+// Timeout wrapper for async operations
+const withTimeout = async <T>(
+  promise: Promise<T>,
+  ms: number,
+  errorMessage: string
+): Promise<T> => {
+  const timeout = new Promise<T>((_, reject) => {
+    setTimeout(() => reject(new AppError('timeout', { cause: new Error(errorMessage) })), ms);
+  });
+  return Promise.race([promise, timeout]);
+};
+
+// Retry logic for async operations
+const withRetry = async <T>(fn: () => Promise<T>, retries: number, delayMs: number): Promise<T> => {
+  let lastError: unknown;
+  for (let i = 0; i <= retries; i++) {
+    try {
+      return await fn();
+    } catch (err) {
+      lastError = err;
+      if (i < retries) {
+        log.warn('Retrying operation', { attempt: i + 1, error: err });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+  throw lastError;
+};
+
+let state: AuthState = { status: 'initializing', session: null, user: null, error: null };
+const listeners = new Set<(state: AuthState) => void>();
+// Whether each user still has to finish onboarding. Completing a profile
+// cannot be undone, so a known answer never needs fetching again.
+const profileStatus = new Map<string, boolean>();
+// Bumped on every session change so a slow profile check cannot overwrite a
+// newer state
+let generation = 0;
+
+const setState = (next: AuthState) => {
+  log.info('Auth state', { from: state.status, to: next.status, userId: next.user?.id });
+  state = next;
+  listeners.forEach((listener) => listener(state));
+};
+
+export const getAuthState = () => state;
+
+export const addAuthListener = (listener: (state: AuthState) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const fetchNeedsProfile = async (): Promise<boolean> => {
+  const rpcPromise = async (): Promise<{ data: boolean | null; error: PostgrestError | null }> => {
+    return await supabase.rpc('should_user_complete_profile').single();
+  };
+
+  const { data, error } = await withRetry(
+    () => withTimeout(rpcPromise(), 10000, 'Profile completion check timed out'),
+    3,
+    1500
+  );
+
+  if (error) {
+    throw error;
+  }
+  return !data;
+};
+
+const profileState = (session: Session, needsProfile: boolean): AuthState => ({
+  status: needsProfile ? 'needsProfile' : 'ready',
+  session,
+  user: session.user,
+  error: null,
+});
+
+// Move to the state for a session, checking the profile only when the user
+// is new to this launch
+const applySession = async (session: Session | null) => {
+  const current = ++generation;
+
+  if (!session) {
+    setState({ status: 'signedOut', session: null, user: null, error: null });
+    return;
+  }
+
+  const cached = profileStatus.get(session.user.id);
+  if (cached !== undefined) {
+    setState(profileState(session, cached));
+    return;
+  }
+
+  setState({ status: 'checkingProfile', session, user: session.user, error: null });
+  try {
+    const needsProfile = await fetchNeedsProfile();
+    profileStatus.set(session.user.id, needsProfile);
+    if (current === generation) {
+      // The token may have been refreshed while the check ran
+      setState(profileState(state.session ?? session, needsProfile));
+    }
+  } catch (err) {
+    log.error('Error checking profile completion', { error: err });
+    if (current === generation) {
+      setState({
+        status: 'error',
+        session,
+        user: session.user,
+        error: toAppError(err),
+      });
+    }
+  }
+};
+
+// Follow the Supabase session for the lifetime of the app. Returns a function
+// that stops listening.
+export const startAuth = (): (() => void) => {
+  const { data } = supabase.auth.onAuthStateChange((event, session) => {
+    log.debug('Auth state changed', { event, hasSession: !!session, userId: session?.user?.id });
+
+    if (event === 'SIGNED_OUT') {
+      profileStatus.clear();
+    }
+    // A refreshed token or updated user only swaps the session in place
+    if (session && state.user?.id === session.user.id && state.status !== 'error') {
+      setState({ ...state, session, user: session.user });
+      return;
+    }
+    // Supabase calls back while holding its auth lock, so requests made here
+    // have to wait until the callback has returned
+    setTimeout(() => applySession(session), 0);
+  });
+
+  return () => {
+    data.subscription.unsubscribe();
+  };
+};
+
+// Check the profile again after the check failed
+export const retryAuth = async () => {
+  const { data } = await supabase.auth.getSession();
+  await applySession(data.session);
+};
+
+// Record that the signed-in user has finished onboarding
+export const markProfileComplete = (userId: string) => {
+  profileStatus.set(userId, false);
+  if (state.session && state.user?.id === userId) {
+    setState(profileState(state.session, false));
+  }
+};
+
+// Email sign-in. The email carries both a code and a link; the link opens the
+// app through the same cendy://auth redirect as Google.
+export const EMAIL_CODE_LENGTH = 6;
+// Kept in step with auth.email.max_frequency in supabase/config.toml
+export const EMAIL_CODE_RESEND_SECONDS = 60;
+
+export const sendEmailCode = async (email: string, redirectTo: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim().toLowerCase(),
+    options: { emailRedirectTo: redirectTo, shouldCreateUser: true },
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const verifyEmailCode = async (email: string, code: string): Promise<void> => {
+  const { error } = await supabase.auth.verifyOtp({
+    email: email.trim().toLowerCase(),
+    token: code,
+    type: 'email',
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Messages for sign-in errors. The server only refuses a sign-in, with a 403,
+// for addresses that are not on a student domain.
+export const SIGN_IN_ERROR_KEYS: ErrorMessageKeys = {
+  permission: 'error.studentEmailRequired',
+  rateLimit: 'error.emailRateLimited',
+  fallback: 'error.signIn',
+};
+
+export const EMAIL_CODE_ERROR_KEYS: ErrorMessageKeys = {
+  ...SIGN_IN_ERROR_KEYS,
+  auth: 'error.invalidEmailCode',
+};
+
+export const EMAIL_LINK_ERROR_KEYS: ErrorMessageKeys = {
+  ...SIGN_IN_ERROR_KEYS,
+  auth: 'error.emailLinkExpired',
+};
+
+// The error on a sign-in redirect, if any. The HTTP status comes as a prefix of
+// the description, e.g. "403: Only student email addresses are allowed".
+export const redirectError = (
+  params: Record<string, string>,
+  errorCode: string | null
+): AuthApiError | null => {
+  if (!errorCode && !params.error) {
+    return null;
+  }
+  const description = params.error_description ?? params.error ?? errorCode ?? '';
+  const status = Number(/^(\d{3}):/.exec(description)?.[1] ?? 0);
+  return new AuthApiError(description, status, params.error_code ?? errorCode ?? undefined);
+};
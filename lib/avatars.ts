@@ -0,0 +1,135 @@
+import * as Crypto from 'expo-crypto';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import { AppError } from './errors';
+import { createLogger } from './logger';
+import { getPublicUrl, uploadFile } from './storage';
+import { supabase } from './supabase';
+
+// Profile photos. A picked photo is cropped to a square and uploaded in a few
+// sizes to the public avatars bucket under <user_id>/<id>_<size>.jpg. The
+// profile stores the URL of the largest size; smaller ones are found by name.
+
+export const AVATAR_BUCKET = 'avatars';
+// Edge lengths of the uploaded variants, largest last
+export const AVATAR_SIZES = [64, 256, 512] as const;
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+const AVATAR_QUALITY = 0.8;
+
+export type AvatarSource = 'camera' | 'library';
+
+const log = createLogger('AVATAR');
+
+const VARIANT_PATTERN = /_(\d+)\.jpg$/;
+
+// URL of the smallest uploaded variant that is at least `pixels` wide. URLs
+// from elsewhere (e.g. older profiles) are returned unchanged.
+export const avatarVariantUrl = (url: string, pixels: number): string => {
+  if (!url.includes(`/${AVATAR_BUCKET}/`) || !VARIANT_PATTERN.test(url)) {
+    return url;
+  }
+  const size =
+    AVATAR_SIZES.find((candidate) => candidate >= pixels) ?? AVATAR_SIZES[AVATAR_SIZES.length - 1];
+  return url.replace(VARIANT_PATTERN, `_${size}.jpg`);
+};
+
+// Let the user take or choose a photo, cropped to a square. Resolves to null if
+// they cancel; throws if camera access is denied.
+export const pickAvatar = async (
+  source: AvatarSource
+): Promise<ImagePicker.ImagePickerAsset | null> => {
+  const options: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ['images'],
+    allowsEditing: true,
+    aspect: [1, 1],
+    quality: 1,
+  };
+
+  if (source === 'camera') {
+    const { granted } = await ImagePicker.requestCameraPermissionsAsync();
+    if (!granted) {
+      throw new AppError('permission', { messageKey: 'attachments.cameraPermission' });
+    }
+  }
+
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  return result.canceled ? null : result.assets[0];
+};
+
+// The picker's editor is not square on every platform, so crop the centre again
+const cropToSquare = async (asset: ImagePicker.ImagePickerAsset) => {
+  const edge = Math.min(asset.width, asset.height);
+  const image = await ImageManipulator.manipulate(asset.uri)
+    .crop({
+      originX: Math.floor((asset.width - edge) / 2),
+      originY: Math.floor((asset.height - edge) / 2),
+      width: edge,
+      height: edge,
+    })
+    .renderAsync();
+  const saved = await image.saveAsync({ format: SaveFormat.JPEG });
+  return { uri: saved.uri, edge };
+};
+
+// Upload every variant of a picked photo and return the URL to store on the profile
+export const uploadAvatar = async (
+  userId: string,
+  asset: ImagePicker.ImagePickerAsset
+): Promise<string> => {
+  const square = await cropToSquare(asset);
+  const id = Crypto.randomUUID();
+  let url = '';
+
+  for (const size of AVATAR_SIZES) {
+    const context = ImageManipulator.manipulate(square.uri);
+    if (square.edge > size) {
+      context.resize({ width: size, height: size });
+    }
+    const variant = await (
+      await context.renderAsync()
+    ).saveAsync({
+      compress: AVATAR_QUALITY,
+      format: SaveFormat.JPEG,
+    });
+    const path = await uploadFile(
+      AVATAR_BUCKET,
+      `${userId}/${id}_${size}.jpg`,
+      variant.uri,
+      'image/jpeg'
+    );
+    url = getPublicUrl(AVATAR_BUCKET, path);
+  }
+
+  log.debug('Uploaded avatar', { userId, id });
+  return url;
+};
+
+// Delete uploaded photos the profile no longer points at. Failures are only
+// logged; a stale file is harmless.
+export const pruneAvatars = async (userId: string, currentUrl: string | null) => {
+  try {
+    const { data, error } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .list(userId, { limit: 1000 });
+    if (error) {
+      throw error;
+    }
+    const stale = data
+      .map((file) => file.name)
+      .filter((name) => !currentUrl?.includes(`/${userId}/${name.replace(VARIANT_PATTERN, '')}_`));
+    if (stale.length > 0) {
+      const { data: removed, error: removeError } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .remove(stale.map((name) => `${userId}/${name}`));
+      if (removeError) {
+        throw removeError;
+      }
+      log.debug('Pruned avatars', { userId, stale: stale.length, removed: removed.length });
+    }
+  } catch (err) {
+    log.error('Error pruning avatars', { error: err });
+  }
+};
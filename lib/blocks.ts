@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+
+export interface BlockedUser {
+  user_id: string;
+  display_name: string | null;
+  username: string;
+  avatar_url: string | null;
+  blocked_at: string;
+}
+
+// A block or unblock made on this device
+export interface BlockChange {
+  userId: string;
+  blocked: boolean;
+}
+
+const listeners = new Set<(change: BlockChange) => void>();
+
+// Tell mounted screens so they can drop or reload the other user's content
+const emitBlockChange = (change: BlockChange) => {
+  listeners.forEach((listener) => listener(change));
+};
+
+export const addBlockListener = (listener: (change: BlockChange) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Block a user. Any follow between the two of you is removed by the server.
+export const blockUser = async (blockerId: string, blockedId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('blocks')
+    .upsert(
+      { blocker_id: blockerId, blocked_id: blockedId },
+      { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw error;
+  }
+  emitBlockChange({ userId: blockedId, blocked: true });
+};
+
+export const unblockUser = async (blockerId: string, blockedId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('blocks')
+    .delete()
+    .eq('blocker_id', blockerId)
+    .eq('blocked_id', blockedId);
+
+  if (error) {
+    throw error;
+  }
+  emitBlockChange({ userId: blockedId, blocked: false });
+};
+
+export const fetchBlockedUsers = async (): Promise<BlockedUser[]> => {
+  const { data, error } = await supabase.rpc('get_blocked_users');
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as BlockedUser[];
+};
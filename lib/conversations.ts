@@ -0,0 +1,102 @@
+import type { Message, MessageKind, SystemMessageMetadata } from './messages';
+import { enqueue, OutboxHandler } from './outbox';
+import { broadcastReceiptsChanged } from './receipts';
+import { supabase } from './supabase';
+
+export const INBOX_PAGE_SIZE = 20;
+
+export interface ConversationPreview {
+  conversation_id: string;
+  last_message_at: string;
+  is_group: boolean;
+  group_name: string | null;
+  group_avatar_url: string | null;
+  other_user_id: string | null;
+  other_display_name: string | null;
+  other_username: string | null;
+  other_avatar_url: string | null;
+  last_message_body: string | null;
+  last_message_kind: MessageKind | null;
+  last_message_metadata: SystemMessageMetadata | null;
+  last_message_sender_id: string | null;
+  unread_count: number;
+  is_muted: boolean;
+  // False when the conversation is muted or in-app message alerts are off
+  notify: boolean;
+}
+
+// Fetch a page of the current user's conversations, most recent first. Pass the
+// last loaded conversation as `before` to fetch the next page.
+export const fetchInbox = async (
+  before?: Pick<ConversationPreview, 'conversation_id' | 'last_message_at'>,
+  limit: number = INBOX_PAGE_SIZE
+): Promise<ConversationPreview[]> => {
+  const { data, error } = await supabase.rpc('get_inbox', {
+    p_limit: limit,
+    p_before: before?.last_message_at ?? null,
+    p_before_id: before?.conversation_id ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ConversationPreview[];
+};
+
+// Move the current user's read marker up to the given message, or to the newest
+// message when none is given
+export const markConversationRead = async (
+  conversationId: string,
+  messageId?: string | null
+): Promise<void> => {
+  const { error } = await supabase.rpc('mark_conversation_read', {
+    p_conversation_id: conversationId,
+    p_message_id: messageId ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const MARK_READ_KIND = 'conversation.markRead';
+
+interface MarkReadPayload {
+  conversationId: string;
+  messageId?: string | null;
+}
+
+// Queue a read marker update; only the latest one per conversation is kept, so
+// scrolling through many messages results in a single request
+export const queueMarkConversationRead = (conversationId: string, messageId?: string | null) =>
+  enqueue<MarkReadPayload>(
+    MARK_READ_KIND,
+    { conversationId, messageId },
+    { dedupeKey: `${MARK_READ_KIND}:${conversationId}` }
+  );
+
+export const conversationOutboxHandlers: Record<string, OutboxHandler> = {
+  [MARK_READ_KIND]: async (entry) => {
+    const { conversationId, messageId } = entry.payload as MarkReadPayload;
+    await markConversationRead(conversationId, messageId);
+    await broadcastReceiptsChanged(conversationId);
+  },
+};
+
+// Subscribe to new messages across all of the current user's conversations.
+// Row level security limits the events to conversations the user belongs to.
+export const subscribeToInbox = (
+  userId: string,
+  onMessage: (message: Message) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`inbox:${userId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, (payload) =>
+      onMessage(payload.new as Message)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
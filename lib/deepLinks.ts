@@ -0,0 +1,38 @@
+import { getPath, type LinkedRoute, linkPath, parseLink } from './router';
+
+// Links opened while signed out are held here until sign-in finishes, since
+// the route guards send the user to login instead.
+
+let pendingLink: LinkedRoute | null = null;
+
+// Whether a link is the cendy://auth sign-in redirect
+export const isAuthRedirect = (url: string): boolean => linkPath(url) === 'auth';
+
+export const rememberDeepLink = (link: LinkedRoute) => {
+  pendingLink = link;
+};
+
+// The remembered link, once; null if there is none
+export const takePendingDeepLink = (): LinkedRoute | null => {
+  const link = pendingLink;
+  pendingLink = null;
+  return link;
+};
+
+// Where a link opened from outside the app should go, for cold and warm
+// starts alike. Auth redirects go to login, which finishes the sign-in; links
+// to unknown screens or with malformed params go home. Until signed in, the
+// link is remembered and the route guards show login instead.
+export const resolveIncomingLink = (url: string, signedIn: boolean): string => {
+  if (isAuthRedirect(url)) {
+    return getPath('Login');
+  }
+  const link = parseLink(url);
+  if (!link) {
+    return getPath('Home');
+  }
+  if (!signedIn) {
+    rememberDeepLink(link);
+  }
+  return url;
+};
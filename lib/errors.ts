@@ -0,0 +1,178 @@
+import { isAuthError, isAuthRetryableFetchError } from '@supabase/supabase-js';
+
+// Errors the user can be told about. Anything thrown by Supabase, fetch or our
+// own code is normalized into an AppError with one of a few stable codes, and
+// each code has a translation key under `error.`. Call sites can swap in a more
+// specific key for a code, e.g. "Only group admins can do that" for permission.
+
+export type AppErrorCode =
+  | 'auth'
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'conflict'
+  | 'permission'
+  | 'notFound'
+  | 'rateLimit'
+  | 'unknown';
+
+// What is shown for each code when the call site has nothing more specific
+export const ERROR_MESSAGE_KEYS: Record<AppErrorCode, string> = {
+  auth: 'error.auth',
+  network: 'error.network',
+  timeout: 'error.timeout',
+  validation: 'error.validation',
+  conflict: 'error.conflict',
+  permission: 'error.permission',
+  notFound: 'error.notFound',
+  rateLimit: 'error.rateLimit',
+  unknown: 'error.generic',
+};
+
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+  // Translation key and interpolation values for the message shown to the user
+  readonly messageKey: string;
+  readonly messageParams?: Record<string, unknown>;
+  readonly cause?: unknown;
+
+  constructor(
+    code: AppErrorCode,
+    options: { messageKey?: string; messageParams?: Record<string, unknown>; cause?: unknown } = {}
+  ) {
+    const causeMessage = (options.cause as { message?: unknown } | null)?.message;
+    super(typeof causeMessage === 'string' ? causeMessage : code);
+    this.name = 'AppError';
+    this.code = code;
+    this.messageKey = options.messageKey ?? ERROR_MESSAGE_KEYS[code];
+    this.messageParams = options.messageParams;
+    this.cause = options.cause;
+  }
+}
+
+// Per-call translation keys: one per code, and `fallback` for unknown errors
+export type ErrorMessageKeys = Partial<Record<AppErrorCode, string>> & { fallback?: string };
+
+// Supabase Auth error codes, see https://supabase.com/docs/guides/auth/debugging/error-codes
+const AUTH_ERROR_CODES: Record<string, AppErrorCode> = {
+  over_request_rate_limit: 'rateLimit',
+  over_email_send_rate_limit: 'rateLimit',
+  over_sms_send_rate_limit: 'rateLimit',
+  request_timeout: 'timeout',
+  hook_timeout: 'timeout',
+  hook_timeout_after_retry: 'timeout',
+  validation_failed: 'validation',
+  bad_json: 'validation',
+  email_address_invalid: 'validation',
+  weak_password: 'validation',
+  email_exists: 'conflict',
+  phone_exists: 'conflict',
+  user_already_exists: 'conflict',
+  identity_already_exists: 'conflict',
+  conflict: 'conflict',
+  otp_expired: 'auth',
+  invalid_credentials: 'auth',
+  session_expired: 'auth',
+  session_not_found: 'auth',
+  refresh_token_not_found: 'auth',
+  refresh_token_already_used: 'auth',
+  bad_jwt: 'auth',
+  no_authorization: 'auth',
+  flow_state_expired: 'auth',
+  flow_state_not_found: 'auth',
+  bad_code_verifier: 'auth',
+  bad_oauth_state: 'auth',
+  bad_oauth_callback: 'auth',
+  signup_disabled: 'permission',
+  user_banned: 'permission',
+  email_address_not_authorized: 'permission',
+  not_admin: 'permission',
+  insufficient_aal: 'permission',
+};
+
+// Postgres SQLSTATEs and PostgREST codes, including the ones our RPCs raise
+const DATABASE_ERROR_CODES: Record<string, AppErrorCode> = {
+  '42501': 'permission',
+  P0002: 'notFound',
+  PGRST116: 'notFound',
+  '23505': 'conflict',
+  '22023': 'validation',
+  '22P02': 'validation',
+  '23502': 'validation',
+  '23503': 'validation',
+  '23514': 'validation',
+  '54000': 'rateLimit',
+  '57014': 'timeout',
+  PGRST301: 'auth',
+  '28000': 'auth',
+};
+
+// Also used for requests made outside the Supabase client, such as uploads
+export const codeFromStatus = (status: number | undefined): AppErrorCode => {
+  switch (status) {
+    case 400:
+    case 413:
+    case 422:
+      return 'validation';
+    case 401:
+      return 'auth';
+    case 403:
+      return 'permission';
+    case 404:
+      return 'notFound';
+    case 408:
+    case 504:
+      return 'timeout';
+    case 409:
+      return 'conflict';
+    case 429:
+      return 'rateLimit';
+    default:
+      return 'unknown';
+  }
+};
+
+const classify = (err: unknown): AppErrorCode => {
+  if (isAuthError(err)) {
+    if (isAuthRetryableFetchError(err)) {
+      return 'network';
+    }
+    return (err.code && AUTH_ERROR_CODES[err.code]) || codeFromStatus(err.status);
+  }
+  // fetch rejects with a TypeError only when the request never got a response
+  if (err instanceof TypeError) {
+    return 'network';
+  }
+
+  const { code, status, statusCode } = (err ?? {}) as {
+    code?: unknown;
+    status?: unknown;
+    statusCode?: unknown;
+  };
+  if (typeof code === 'string') {
+    if (DATABASE_ERROR_CODES[code]) {
+      return DATABASE_ERROR_CODES[code];
+    }
+    // PostgREST leaves the code empty when the request failed before reaching it
+    if (code === '' && 'hint' in (err as object)) {
+      return 'network';
+    }
+  }
+  // Storage errors carry the HTTP status
+  const httpStatus = Number(status ?? statusCode);
+  return Number.isFinite(httpStatus) ? codeFromStatus(httpStatus) : 'unknown';
+};
+
+// Normalize anything thrown into an AppError. AppErrors pass through unchanged.
+export const toAppError = (err: unknown, keys: ErrorMessageKeys = {}): AppError => {
+  if (err instanceof AppError) {
+    return err;
+  }
+  const code = classify(err);
+  const messageKey = keys[code] ?? (code === 'unknown' ? keys.fallback : undefined);
+  return new AppError(code, { messageKey, cause: err });
+};
+
+// Translation key of the message to show for an error
+export const errorMessageKey = (err: unknown, keys?: ErrorMessageKeys): string =>
+  toAppError(err, keys).messageKey;
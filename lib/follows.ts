@@ -0,0 +1,148 @@
+import { supabase } from './supabase';
+
+export const FOLLOW_PAGE_SIZE = 30;
+
+// Relationship from the current user to someone else
+export type FollowStatus = 'none' | 'requested' | 'following';
+
+export type FollowListKind = 'followers' | 'following';
+
+export interface FollowListEntry {
+  user_id: string;
+  display_name: string | null;
+  username: string;
+  avatar_url: string | null;
+  followed_at: string;
+  is_following: boolean;
+  has_requested: boolean;
+}
+
+export interface FollowRequest {
+  user_id: string;
+  display_name: string | null;
+  username: string;
+  avatar_url: string | null;
+  requested_at: string;
+}
+
+// A follow state change made on this device. `previous` lets listeners adjust
+// counts without refetching.
+export interface FollowChange {
+  followerId: string;
+  followeeId: string;
+  previous: FollowStatus;
+  status: FollowStatus;
+}
+
+const listeners = new Set<(change: FollowChange) => void>();
+
+// Tell mounted screens about a follow change so their counts and buttons agree
+export const emitFollowChange = (change: FollowChange) => {
+  if (change.previous !== change.status) {
+    listeners.forEach((listener) => listener(change));
+  }
+};
+
+export const addFollowListener = (listener: (change: FollowChange) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const followStatusOf = (entry: {
+  is_following: boolean;
+  has_requested: boolean;
+}): FollowStatus => (entry.is_following ? 'following' : entry.has_requested ? 'requested' : 'none');
+
+// Follow a user. Private accounts get a request instead, which the returned
+// status reflects.
+export const followUser = async (userId: string): Promise<FollowStatus> => {
+  const { data, error } = await supabase.rpc('follow_user', { p_user_id: userId });
+
+  if (error) {
+    throw error;
+  }
+  return data as FollowStatus;
+};
+
+// Unfollow a user, or withdraw a pending request to follow them
+export const unfollowUser = async (userId: string): Promise<void> => {
+  const { error } = await supabase.rpc('unfollow_user', { p_user_id: userId });
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Move the current user's relationship with `userId` from `previous` to
+// `next` ('none' to unfollow). Listeners hear the expected state right away,
+// then the server's answer, or a rollback if the request fails.
+export const changeFollow = async (
+  viewerId: string,
+  userId: string,
+  previous: FollowStatus,
+  next: FollowStatus
+): Promise<FollowStatus> => {
+  const change = { followerId: viewerId, followeeId: userId };
+  emitFollowChange({ ...change, previous, status: next });
+  try {
+    if (next === 'none') {
+      await unfollowUser(userId);
+      return next;
+    }
+    const status = await followUser(userId);
+    emitFollowChange({ ...change, previous: next, status });
+    return status;
+  } catch (err) {
+    emitFollowChange({ ...change, previous: next, status: previous });
+    throw err;
+  }
+};
+
+// Fetch a page of a user's followers or followings, newest first. Pass the last
+// loaded entry as `before` for the next page.
+export const fetchFollowList = async (
+  userId: string,
+  kind: FollowListKind,
+  query?: string,
+  before?: Pick<FollowListEntry, 'user_id' | 'followed_at'>,
+  limit: number = FOLLOW_PAGE_SIZE
+): Promise<FollowListEntry[]> => {
+  const { data, error } = await supabase.rpc('get_follow_list', {
+    p_user_id: userId,
+    p_kind: kind,
+    p_query: query?.trim().replace(/[%_\\]/g, '') || null,
+    p_limit: limit,
+    p_before: before?.followed_at ?? null,
+    p_before_id: before?.user_id ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as FollowListEntry[];
+};
+
+export const fetchFollowRequests = async (): Promise<FollowRequest[]> => {
+  const { data, error } = await supabase.rpc('get_follow_requests');
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as FollowRequest[];
+};
+
+export const respondToFollowRequest = async (
+  requesterId: string,
+  approve: boolean
+): Promise<void> => {
+  const { error } = await supabase.rpc('respond_to_follow_request', {
+    p_requester_id: requesterId,
+    p_approve: approve,
+  });
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,123 @@
+import * as Crypto from 'expo-crypto';
+import type { ErrorMessageKeys } from './errors';
+import { fetchProfilesByIds, Profile } from './profiles';
+import { getPublicUrl, uploadFile } from './storage';
+import { supabase } from './supabase';
+
+const GROUP_AVATAR_BUCKET = 'group-avatars';
+
+export type MemberRole = 'member' | 'admin';
+
+export interface ConversationMember {
+  user_id: string;
+  role: MemberRole;
+  joined_at: string;
+  profile: Profile | null;
+}
+
+export interface ConversationDetails {
+  id: string;
+  is_group: boolean;
+  name: string | null;
+  avatar_url: string | null;
+  members: ConversationMember[];
+}
+
+// Load a conversation with its members and their profiles
+export const fetchConversationDetails = async (conversationId: string): Promise<ConversationDetails> => {
+  const [conversationResult, membersResult] = await Promise.all([
+    supabase
+      .from('conversations')
+      .select('id, is_group, name, avatar_url')
+      .eq('id', conversationId)
+      .single(),
+    supabase
+      .from('conversation_members')
+      .select('user_id, role, joined_at')
+      .eq('conversation_id', conversationId)
+      .order('joined_at'),
+  ]);
+
+  if (conversationResult.error) {
+    throw conversationResult.error;
+  }
+  if (membersResult.error) {
+    throw membersResult.error;
+  }
+
+  const members = membersResult.data ?? [];
+  const profiles = await fetchProfilesByIds(members.map((member) => member.user_id));
+  const profilesById = new Map(profiles.map((profile) => [profile.id, profile]));
+
+  return {
+    ...conversationResult.data,
+    members: members.map((member) => ({
+      ...member,
+      role: member.role as MemberRole,
+      profile: profilesById.get(member.user_id) ?? null,
+    })),
+  };
+};
+
+// Run a group RPC, rethrowing the PostgrestError so callers can inspect its code
+const callGroupRpc = async <T = void>(fn: string, args: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) {
+    throw error;
+  }
+  return data as T;
+};
+
+export const createGroup = (name: string, memberIds: string[], avatarUrl?: string | null) =>
+  callGroupRpc<string>('create_group_conversation', {
+    p_name: name,
+    p_member_ids: memberIds,
+    p_avatar_url: avatarUrl ?? null,
+  });
+
+export const updateGroup = (conversationId: string, changes: { name?: string; avatarUrl?: string }) =>
+  callGroupRpc('update_group', {
+    p_conversation_id: conversationId,
+    p_name: changes.name ?? null,
+    p_avatar_url: changes.avatarUrl ?? null,
+  });
+
+export const addGroupMembers = (conversationId: string, userIds: string[]) =>
+  callGroupRpc('add_group_members', { p_conversation_id: conversationId, p_user_ids: userIds });
+
+export const removeGroupMember = (conversationId: string, userId: string) =>
+  callGroupRpc('remove_group_member', { p_conversation_id: conversationId, p_user_id: userId });
+
+export const setGroupMemberRole = (conversationId: string, userId: string, role: MemberRole) =>
+  callGroupRpc('set_group_member_role', {
+    p_conversation_id: conversationId,
+    p_user_id: userId,
+    p_role: role,
+  });
+
+export const leaveGroup = (conversationId: string) =>
+  callGroupRpc('leave_group', { p_conversation_id: conversationId });
+
+// Upload a picked image as the group's avatar and return its public URL
+export const uploadGroupAvatar = async (
+  conversationId: string,
+  uri: string,
+  mimeType = 'image/jpeg'
+): Promise<string> => {
+  const extension = mimeType.split('/')[1] ?? 'jpg';
+  const path = await uploadFile(
+    GROUP_AVATAR_BUCKET,
+    `${conversationId}/${Crypto.randomUUID()}.${extension}`,
+    uri,
+    mimeType
+  );
+  return getPublicUrl(GROUP_AVATAR_BUCKET, path);
+};
+
+// Messages for errors raised by the group RPCs
+export const GROUP_ERROR_KEYS: ErrorMessageKeys = {
+  permission: 'error.groupPermissionDenied',
+  notFound: 'error.groupNotFound',
+  validation: 'error.groupInvalidRequest',
+  fallback: 'error.groupUpdate',
+};
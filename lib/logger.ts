@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+
+// Shared logger. Every module logs through a namespaced logger:
+//   const log = createLogger('AUTH');
+//   log.debug('Session restored', { userId });
+// Tokens, secrets and JWTs are redacted before anything is printed or kept.
+// Recent entries are kept in a ring buffer, in memory and on disk, for the
+// Diagnostics screen. Release builds print nothing to the console and only keep
+// warnings and errors unless verbose logging is turned on.
+
+const STORAGE_KEY = 'logs:v1';
+const LEVEL_KEY = 'logs.level';
+const MAX_ENTRIES = 500;
+const PERSIST_DELAY_MS = 2000;
+const MAX_DEPTH = 6;
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const DEFAULT_LOG_LEVEL: LogLevel = __DEV__ ? 'debug' : 'warn';
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface Logger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+// Keys whose values are never logged, e.g. access_token, refreshToken, password
+const SECRET_KEY =
+  /token|secret|password|passcode|^pin$|authorization|api_?key|code_verifier|^otp$/i;
+const JWT = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+// Secrets passed in URLs, e.g. the OAuth redirect's #access_token=...
+const SECRET_PARAM = /([?#&](?:[\w-]*token|code|token_hash|code_verifier)=)[^&#\s]+/gi;
+const REDACTED = '[redacted]';
+
+const redactString = (value: string) =>
+  value.replace(JWT, REDACTED).replace(SECRET_PARAM, `$1${REDACTED}`);
+
+// A copy of `value` that is safe to print or store
+export const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? String(value) : value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[…]';
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) && item != null ? REDACTED : redact(item, depth + 1, seen),
+    ])
+  );
+};
+
+let entries: LogEntry[] = [];
+let level: LogLevel = DEFAULT_LOG_LEVEL;
+// Saving waits for the logs of earlier launches, so they are not overwritten
+let restored = false;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(entries: LogEntry[]) => void>();
+
+const emit = () => {
+  if (listeners.size === 0) {
+    return;
+  }
+  const snapshot = [...entries];
+  listeners.forEach((listener) => listener(snapshot));
+};
+
+const persist = async () => {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (err) {
+    if (__DEV__) {
+      console.warn('[LOGGER] Error persisting logs', String(err));
+    }
+  }
+};
+
+const schedulePersist = () => {
+  if (restored && !persistTimer) {
+    persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+  }
+};
+
+const write = (entryLevel: LogLevel, namespace: string, message: string, data?: unknown) => {
+  if (LEVELS.indexOf(entryLevel) < LEVELS.indexOf(level)) {
+    return;
+  }
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level: entryLevel,
+    namespace,
+    message: redactString(message),
+    ...(data === undefined ? {} : { data: redact(data) }),
+  };
+
+  if (__DEV__) {
+    const print =
+      entryLevel === 'error' ? console.error : entryLevel === 'warn' ? console.warn : console.log;
+    print(
+      `[${namespace}] ${entry.message}`,
+      entry.data === undefined ? '' : JSON.stringify(entry.data, null, 2)
+    );
+  }
+
+  entries = [...entries.slice(-(MAX_ENTRIES - 1)), entry];
+  emit();
+  schedulePersist();
+};
+
+export const createLogger = (namespace: string): Logger => ({
+  debug: (message, data) => write('debug', namespace, message, data),
+  info: (message, data) => write('info', namespace, message, data),
+  warn: (message, data) => write('warn', namespace, message, data),
+  error: (message, data) => write('error', namespace, message, data),
+});
+
+export const getLogEntries = () => entries;
+
+export const addLogListener = (listener: (entries: LogEntry[]) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getLogLevel = () => level;
+
+// Lower the level to keep debug logs in a release build, e.g. while reproducing
+// a bug; remembered across launches
+export const setLogLevel = async (next: LogLevel) => {
+  level = next;
+  emit();
+  await AsyncStorage.setItem(LEVEL_KEY, next);
+};
+
+export const clearLogs = async () => {
+  entries = [];
+  emit();
+  await persist();
+};
+
+// Plain-text log for sharing, oldest first
+export const formatLogEntries = (list: LogEntry[]): string =>
+  list
+    .map(
+      (entry) =>
+        `${entry.time} ${entry.level.toUpperCase()} [${entry.namespace}] ${entry.message}` +
+        (entry.data === undefined ? '' : ` ${JSON.stringify(entry.data)}`)
+    )
+    .join('\n');
+
+// Restore the logs of earlier launches and save the buffer whenever the app
+// leaves the foreground. Returns a cleanup function.
+export const startLogger = (): (() => void) => {
+  let cancelled = false;
+
+  (async () => {
+    try {
+      const [stored, storedLevel] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEY),
+        AsyncStorage.getItem(LEVEL_KEY),
+      ]);
+      if (cancelled) {
+        return;
+      }
+      const previous: LogEntry[] = stored ? JSON.parse(stored) : [];
+      entries = [...previous, ...entries].slice(-MAX_ENTRIES);
+      if (storedLevel && LEVELS.includes(storedLevel as LogLevel)) {
+        level = storedLevel as LogLevel;
+      }
+    } catch (err) {
+      if (__DEV__) {
+        console.warn('[LOGGER] Error restoring logs', String(err));
+      }
+    }
+    restored = true;
+    emit();
+    schedulePersist();
+  })();
+
+  const subscription = AppState.addEventListener('change', (state) => {
+    if (state !== 'active' && restored) {
+      persist();
+    }
+  });
+
+  return () => {
+    cancelled = true;
+    subscription.remove();
+  };
+};
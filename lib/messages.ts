@@ -0,0 +1,199 @@
+import type { TFunction } from 'i18next';
+import {
+  deleteLocalAttachment,
+  LocalAttachment,
+  MessageAttachment,
+  uploadAttachment,
+} from './attachments';
+import type { ErrorMessageKeys } from './errors';
+import { enqueue, OutboxEntry, OutboxHandler } from './outbox';
+import { supabase } from './supabase';
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+export type MessageKind = 'text' | 'system';
+
+// Details of a group event, recorded by the server on system messages
+export interface SystemMessageMetadata {
+  event: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  target_id: string | null;
+  target_name: string | null;
+  name?: string;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  kind: MessageKind;
+  metadata: SystemMessageMetadata | null;
+  attachment: MessageAttachment | null;
+  created_at: string;
+}
+
+// Delivery state shown under the user's own messages
+export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface DisplayMessage extends Message {
+  status: DeliveryStatus;
+  // Queued attachments render from the copy on the device until uploaded
+  localAttachment?: LocalAttachment;
+}
+
+export interface OutgoingMessagePayload {
+  conversationId: string;
+  senderId: string;
+  body: string;
+  attachment?: LocalAttachment;
+}
+
+export const SEND_MESSAGE_KIND = 'message.send';
+
+const MESSAGE_COLUMNS =
+  'id, conversation_id, sender_id, body, kind, metadata, attachment, created_at';
+
+// Fetch a page of messages, newest first. Pass the oldest loaded message as
+// `before` to fetch the page preceding it.
+export const fetchMessages = async (
+  conversationId: string,
+  before?: Pick<Message, 'id' | 'created_at'>,
+  limit: number = MESSAGE_PAGE_SIZE
+): Promise<Message[]> => {
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (before) {
+    // Keyset cursor on (created_at, id) so messages sharing a timestamp are not skipped
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Message[];
+};
+
+// Insert a message into a conversation as the current user. The id is assigned
+// by the client, so sending the same message twice stores it once.
+export const sendMessage = async (
+  id: string,
+  conversationId: string,
+  body: string,
+  attachment: MessageAttachment | null = null
+): Promise<Message> => {
+  const { data, error } = await supabase
+    .rpc('send_message', {
+      p_id: id,
+      p_conversation_id: conversationId,
+      p_body: body,
+      p_attachment: attachment,
+    })
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data as Message;
+};
+
+// Queue a message in the outbox; it is sent as soon as the device is online
+export const queueMessage = (payload: OutgoingMessagePayload) =>
+  enqueue<OutgoingMessagePayload>(SEND_MESSAGE_KIND, payload);
+
+// Render a queued message as if it had already been stored
+export const toDisplayMessage = (entry: OutboxEntry<OutgoingMessagePayload>): DisplayMessage => ({
+  id: entry.id,
+  conversation_id: entry.payload.conversationId,
+  sender_id: entry.payload.senderId,
+  body: entry.payload.body,
+  kind: 'text',
+  metadata: null,
+  attachment: null,
+  created_at: entry.createdAt,
+  status: entry.status === 'failed' ? 'failed' : 'pending',
+  localAttachment: entry.payload.attachment,
+});
+
+// Human-readable text for a system message, e.g. "An added Binh"
+export const formatSystemMessage = (
+  metadata: SystemMessageMetadata | null,
+  t: TFunction
+): string => {
+  if (!metadata) {
+    return '';
+  }
+  return t(`conversation.system.${metadata.event}`, {
+    actor: metadata.actor_name ?? t('inbox.unknownUser'),
+    target: metadata.target_name ?? t('inbox.unknownUser'),
+    name: metadata.name ?? '',
+    defaultValue: t('conversation.system.unknown'),
+  });
+};
+
+export const messageOutboxHandlers: Record<string, OutboxHandler> = {
+  // Attachments are uploaded first; the message is only stored once its file is
+  [SEND_MESSAGE_KIND]: async (entry) => {
+    const { conversationId, body, attachment } = entry.payload as OutgoingMessagePayload;
+    if (!attachment) {
+      return sendMessage(entry.id, conversationId, body);
+    }
+    const uploaded = await uploadAttachment(conversationId, entry.id, attachment);
+    const message = await sendMessage(entry.id, conversationId, body, uploaded);
+    await deleteLocalAttachment(attachment);
+    return message;
+  },
+};
+
+// Subscribe to new messages in a conversation. Returns an unsubscribe function.
+export const subscribeToMessages = (
+  conversationId: string,
+  onInsert: (message: Message) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`messages:${conversationId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `conversation_id=eq.${conversationId}`,
+      },
+      (payload) => onInsert(payload.new as Message)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Get the direct conversation with another user, creating it if needed
+export const getOrCreateDirectConversation = async (otherUserId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('get_or_create_direct_conversation', {
+    p_other_user_id: otherUserId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return data as string;
+};
+
+// Messages for errors from getOrCreateDirectConversation. Permission
+// errors mean a block or the other user's DM setting stands in the way.
+export const DIRECT_CONVERSATION_ERROR_KEYS: ErrorMessageKeys = {
+  permission: 'error.cannotMessageUser',
+  fallback: 'error.loadConversation',
+};
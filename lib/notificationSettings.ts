@@ -0,0 +1,148 @@
+import { supabase } from './supabase';
+
+export const NOTIFICATION_CATEGORIES = [
+  'messages',
+  'mentions',
+  'followers',
+  'group_activity',
+  'feed',
+] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+export type NotificationChannel = 'in_app' | 'push';
+
+export type NotificationPreferences = {
+  [K in `${NotificationCategory}_${NotificationChannel}`]: boolean;
+} & {
+  quiet_hours_enabled: boolean;
+  // Local times as 'HH:MM:SS'; a start later than the end spans midnight
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  time_zone: string;
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  messages_in_app: true,
+  messages_push: true,
+  mentions_in_app: true,
+  mentions_push: true,
+  followers_in_app: true,
+  followers_push: true,
+  group_activity_in_app: true,
+  group_activity_push: true,
+  feed_in_app: true,
+  feed_push: false,
+  quiet_hours_enabled: false,
+  quiet_hours_start: '22:00:00',
+  quiet_hours_end: '07:00:00',
+  time_zone: 'UTC',
+};
+
+const PREFERENCE_COLUMNS = Object.keys(DEFAULT_NOTIFICATION_PREFERENCES).join(', ');
+
+// How long a conversation can be muted for; null mutes until unmuted
+export const MUTE_DURATIONS = {
+  hour: 60 * 60 * 1000,
+  eightHours: 8 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  forever: null,
+} as const;
+
+export type MuteDuration = keyof typeof MUTE_DURATIONS;
+
+// Whether a conversation is muted, and until when (null means indefinitely)
+export interface ConversationMute {
+  muted: boolean;
+  until: string | null;
+}
+
+// The device's IANA time zone, used for quiet hours
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Fetch the current user's notification preferences, falling back to the
+// defaults for users who never changed them
+export const fetchNotificationPreferences = async (
+  userId: string
+): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select(PREFERENCE_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    time_zone: getDeviceTimeZone(),
+    ...((data as Partial<NotificationPreferences> | null) ?? {}),
+  };
+};
+
+export const updateNotificationPreferences = async (
+  userId: string,
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...changes, updated_at: new Date().toISOString() })
+    .select(PREFERENCE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(data as Partial<NotificationPreferences>) };
+};
+
+export const fetchConversationMute = async (
+  userId: string,
+  conversationId: string
+): Promise<ConversationMute> => {
+  const { data, error } = await supabase
+    .from('conversation_mutes')
+    .select('muted_until')
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data || (data.muted_until && new Date(data.muted_until).getTime() <= Date.now())) {
+    return { muted: false, until: null };
+  }
+  return { muted: true, until: data.muted_until };
+};
+
+export const muteConversation = async (
+  userId: string,
+  conversationId: string,
+  duration: MuteDuration
+): Promise<ConversationMute> => {
+  const length = MUTE_DURATIONS[duration];
+  const until = length === null ? null : new Date(Date.now() + length).toISOString();
+  const { error } = await supabase
+    .from('conversation_mutes')
+    .upsert({ user_id: userId, conversation_id: conversationId, muted_until: until });
+
+  if (error) {
+    throw error;
+  }
+  return { muted: true, until };
+};
+
+export const unmuteConversation = async (userId: string, conversationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('conversation_mutes')
+    .delete()
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId);
+
+  if (error) {
+    throw error;
+  }
+};
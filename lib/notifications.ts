@@ -0,0 +1,145 @@
+import { fetchProfilesByIds, Profile } from './profiles';
+import { supabase } from './supabase';
+
+export const NOTIFICATION_PAGE_SIZE = 30;
+
+export type NotificationType =
+  'new_follower' | 'follow_request' | 'mention' | 'reply' | 'group_invite' | 'post_reaction';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  actor_id: string;
+  type: NotificationType;
+  post_id: string | null;
+  conversation_id: string | null;
+  metadata: { excerpt?: string; name?: string | null } | null;
+  read_at: string | null;
+  created_at: string;
+  actor: Profile | null;
+}
+
+type NotificationRow = Omit<AppNotification, 'actor'>;
+
+const NOTIFICATION_COLUMNS =
+  'id, user_id, actor_id, type, post_id, conversation_id, metadata, read_at, created_at';
+
+// Notifications read on this device: specific ids, or every one when `ids` is null
+export interface NotificationReadChange {
+  ids: string[] | null;
+  readAt: string;
+}
+
+const listeners = new Set<(change: NotificationReadChange) => void>();
+
+// Tell the badge and any open notification list that notifications were read
+export const emitNotificationsRead = (change: NotificationReadChange) => {
+  listeners.forEach((listener) => listener(change));
+};
+
+export const addNotificationReadListener = (
+  listener: (change: NotificationReadChange) => void
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const withActors = async (rows: NotificationRow[]): Promise<AppNotification[]> => {
+  const profiles = await fetchProfilesByIds([...new Set(rows.map((row) => row.actor_id))]);
+  const byId = new Map(profiles.map((profile) => [profile.id, profile]));
+  return rows.map((row) => ({ ...row, actor: byId.get(row.actor_id) ?? null }));
+};
+
+// Fetch a page of notifications, newest first. Pass the last loaded
+// notification as `before` to fetch the next page.
+export const fetchNotifications = async (
+  userId: string,
+  before?: Pick<AppNotification, 'id' | 'created_at'>,
+  limit: number = NOTIFICATION_PAGE_SIZE
+): Promise<AppNotification[]> => {
+  let query = supabase
+    .from('notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+  return withActors((data ?? []) as NotificationRow[]);
+};
+
+// A single notification with its actor, e.g. one that just arrived over Realtime
+export const fetchNotificationActor = async (row: NotificationRow): Promise<AppNotification> => {
+  const [notification] = await withActors([row]);
+  return notification;
+};
+
+export const fetchUnreadNotificationCount = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    throw error;
+  }
+  return count ?? 0;
+};
+
+// Mark notifications read, or all of them when `ids` is omitted
+export const markNotificationsRead = async (ids?: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids ?? null });
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Subscribe to the user's notifications arriving, being read on any device, or
+// being removed, e.g. once a follow request is answered. The badge and the list
+// subscribe separately, so each names its own channel with `scope`. Returns an
+// unsubscribe function.
+export const subscribeToNotifications = (
+  userId: string,
+  scope: 'badge' | 'list',
+  onInsert: (row: NotificationRow) => void,
+  onUpdate: (row: NotificationRow) => void,
+  onDelete: (row: NotificationRow) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`notifications:${scope}:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => onInsert(payload.new as NotificationRow)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => onUpdate(payload.new as NotificationRow)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => onDelete(payload.old as NotificationRow)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { toAppError } from './errors';
+import { createLogger } from './logger';
+import type { OnboardingValues } from './profileSchemas';
+import { supabase } from './supabase';
+
+export const ONBOARDING_STEPS = ['name', 'username', 'avatar', 'university', 'interests'] as const;
+export type OnboardingStep = (typeof ONBOARDING_STEPS)[number];
+
+// Fields checked before leaving each step
+export const STEP_FIELDS: Record<OnboardingStep, (keyof OnboardingValues)[]> = {
+  name: ['display_name'],
+  username: ['username'],
+  avatar: ['avatar_url'],
+  university: ['university_confirmed'],
+  interests: ['interests'],
+};
+
+export const EMPTY_ONBOARDING: OnboardingValues = {
+  display_name: '',
+  username: '',
+  avatar_url: '',
+  university_confirmed: false,
+  interests: [],
+};
+
+// Progress is kept per user so a killed app resumes where it left off
+export interface OnboardingDraft {
+  step: number;
+  values: OnboardingValues;
+}
+
+const draftKey = (userId: string) => `onboarding.draft.${userId}`;
+
+const log = createLogger('ONBOARDING');
+
+export const loadOnboardingDraft = async (userId: string): Promise<OnboardingDraft | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(draftKey(userId));
+    if (!stored) {
+      return null;
+    }
+    const draft = JSON.parse(stored) as OnboardingDraft;
+    return {
+      step: Math.min(Math.max(draft.step, 0), ONBOARDING_STEPS.length - 1),
+      values: { ...EMPTY_ONBOARDING, ...draft.values },
+    };
+  } catch (err) {
+    log.error('Error loading draft', { error: err });
+    return null;
+  }
+};
+
+export const saveOnboardingDraft = async (userId: string, draft: OnboardingDraft) => {
+  try {
+    await AsyncStorage.setItem(draftKey(userId), JSON.stringify(draft));
+  } catch (err) {
+    log.error('Error saving draft', { error: err });
+  }
+};
+
+export const clearOnboardingDraft = (userId: string) => AsyncStorage.removeItem(draftKey(userId));
+
+// A field the server rejected, and why
+export interface OnboardingFieldError {
+  field: keyof OnboardingValues;
+  code: 'invalid' | 'taken';
+}
+
+// The field and reason behind a complete_onboarding error, or null when the
+// error is not about a particular field
+export const onboardingFieldError = (err: unknown): OnboardingFieldError | null => {
+  const { hint } = (err ?? {}) as { hint?: string };
+  if (!hint || !(hint in EMPTY_ONBOARDING)) {
+    return null;
+  }
+  switch (toAppError(err).code) {
+    case 'conflict':
+      return { field: hint as keyof OnboardingValues, code: 'taken' };
+    case 'validation':
+      return { field: hint as keyof OnboardingValues, code: 'invalid' };
+    default:
+      return null;
+  }
+};
+
+export const completeOnboarding = async (values: OnboardingValues): Promise<void> => {
+  const { error } = await supabase.rpc('complete_onboarding', {
+    p_display_name: values.display_name,
+    p_username: values.username,
+    p_avatar_url: values.avatar_url,
+    p_interests: values.interests,
+  });
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,288 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
+import { AppErrorCode, toAppError } from './errors';
+import { createLogger } from './logger';
+import { supabase } from './supabase';
+
+// Persistent queue of outgoing mutations. Entries are replayed in order once the
+// device is online, with exponential backoff between failed attempts.
+
+const STORAGE_KEY = 'outbox:v1';
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxEntry<P = unknown> {
+  // Client-side id, also used as the id of the record the mutation creates
+  id: string;
+  kind: string;
+  payload: P;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
+  // Entries sharing a dedupe key replace each other while still queued
+  dedupeKey?: string;
+  lastError?: string;
+}
+
+export type OutboxHandler<P = unknown, R = unknown> = (entry: OutboxEntry<P>) => Promise<R>;
+
+export type OutboxEvent =
+  | { type: 'changed'; entries: OutboxEntry[] }
+  | { type: 'sent'; entry: OutboxEntry; result: unknown };
+
+const log = createLogger('OUTBOX');
+
+let entries: OutboxEntry[] = [];
+let handlers: Record<string, OutboxHandler> = {};
+let loaded: Promise<void> | null = null;
+let online = true;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let stopListeners: (() => void) | null = null;
+const listeners = new Set<(event: OutboxEvent) => void>();
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+const persist = async () => {
+  emit({ type: 'changed', entries: [...entries] });
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (err) {
+    log.error('Error persisting outbox', { error: err });
+  }
+};
+
+const load = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        const restored: OutboxEntry[] = stored ? JSON.parse(stored) : [];
+        // An entry caught mid-send when the app was killed goes back to pending
+        entries = [
+          ...restored.map((entry) =>
+            entry.status === 'sending' ? { ...entry, status: 'pending' as const } : entry
+          ),
+          ...entries,
+        ];
+        log.info('Outbox restored', { count: entries.length });
+      } catch (err) {
+        log.error('Error restoring outbox', { error: err });
+      }
+      emit({ type: 'changed', entries: [...entries] });
+    })();
+  }
+  return loaded;
+};
+
+// Requests the server refused will be refused again on replay; anything else
+// (network, timeouts, rate limits, server trouble) is worth retrying.
+const PERMANENT_ERROR_CODES: AppErrorCode[] = ['validation', 'conflict', 'permission', 'notFound'];
+
+const isPermanentFailure = (err: unknown): boolean =>
+  PERMANENT_ERROR_CODES.includes(toAppError(err).code);
+
+const backoffDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  // Jitter so a crowd of reconnecting clients does not retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const next = entries
+    .filter((entry) => entry.status === 'pending')
+    .reduce((soonest, entry) => Math.min(soonest, entry.nextAttemptAt), Infinity);
+  if (next !== Infinity) {
+    retryTimer = setTimeout(() => flushOutbox(), Math.max(next - Date.now(), 0));
+  }
+};
+
+const updateEntry = (id: string, changes: Partial<OutboxEntry>) => {
+  entries = entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry));
+};
+
+// Replay pending entries in order. A transiently failing entry holds back the
+// entries behind it so that messages never arrive out of order.
+export const flushOutbox = async (): Promise<void> => {
+  await load();
+  if (flushing || !online) {
+    return;
+  }
+  flushing = true;
+
+  try {
+    while (true) {
+      const entry = entries.find((candidate) => candidate.status === 'pending');
+      if (!entry || entry.nextAttemptAt > Date.now()) {
+        break;
+      }
+
+      const handler = handlers[entry.kind];
+      if (!handler) {
+        log.warn('No handler registered for entry', { id: entry.id, kind: entry.kind });
+        updateEntry(entry.id, { status: 'failed', lastError: `Unknown outbox kind: ${entry.kind}` });
+        await persist();
+        continue;
+      }
+
+      updateEntry(entry.id, { status: 'sending' });
+      await persist();
+
+      try {
+        const result = await handler(entry);
+        // Listeners add the stored record before the queued copy goes away, so
+        // the message never drops out of view in between
+        emit({ type: 'sent', entry, result });
+        entries = entries.filter((candidate) => candidate.id !== entry.id);
+        await persist();
+      } catch (err) {
+        const attempts = entry.attempts + 1;
+        const lastError = toAppError(err).message;
+        log.error('Outbox entry failed', { id: entry.id, kind: entry.kind, attempts, error: err });
+
+        if (isPermanentFailure(err) || attempts >= MAX_ATTEMPTS) {
+          updateEntry(entry.id, { status: 'failed', attempts, lastError });
+          await persist();
+          continue;
+        }
+
+        updateEntry(entry.id, {
+          status: 'pending',
+          attempts,
+          lastError,
+          nextAttemptAt: Date.now() + backoffDelay(attempts),
+        });
+        await persist();
+        break;
+      }
+    }
+  } finally {
+    flushing = false;
+    scheduleRetry();
+  }
+};
+
+// Queue a mutation. Returns the entry, whose id can be used for optimistic UI.
+export const enqueue = async <P>(
+  kind: string,
+  payload: P,
+  options?: { id?: string; dedupeKey?: string }
+): Promise<OutboxEntry<P>> => {
+  await load();
+  const entry: OutboxEntry<P> = {
+    id: options?.id ?? Crypto.randomUUID(),
+    kind,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    createdAt: new Date().toISOString(),
+    dedupeKey: options?.dedupeKey,
+  };
+
+  if (entry.dedupeKey) {
+    entries = entries.filter(
+      (candidate) => candidate.dedupeKey !== entry.dedupeKey || candidate.status === 'sending'
+    );
+  }
+  entries = [...entries, entry];
+  await persist();
+  flushOutbox();
+  return entry;
+};
+
+// Put a failed entry back in the queue, at its original position
+export const retryEntry = async (id: string): Promise<void> => {
+  await load();
+  updateEntry(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+  await persist();
+  flushOutbox();
+};
+
+// Drop an entry the user gave up on
+export const discardEntry = async (id: string): Promise<void> => {
+  await load();
+  entries = entries.filter((entry) => entry.id !== id);
+  await persist();
+};
+
+// Forget everything queued, e.g. when the user signs out
+export const clearOutbox = async (): Promise<void> => {
+  // Otherwise a restore still in flight would bring the entries back
+  await load();
+  entries = [];
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  await persist();
+};
+
+export const getOutboxEntries = (): OutboxEntry[] => [...entries];
+
+export const addOutboxListener = (listener: (event: OutboxEvent) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Register handlers and start replaying whenever connectivity returns or the app
+// comes back to the foreground, and empty the queue on sign-out. Returns a
+// function that stops the listeners.
+export const startOutbox = (outboxHandlers: Record<string, OutboxHandler>): (() => void) => {
+  handlers = { ...handlers, ...outboxHandlers };
+
+  if (!stopListeners) {
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      const isOnline = !!state.isConnected && state.isInternetReachable !== false;
+      if (isOnline !== online) {
+        log.info('Connectivity changed', { online: isOnline });
+      }
+      online = isOnline;
+      if (online) {
+        flushOutbox();
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') {
+        flushOutbox();
+      }
+    });
+    // Queued mutations belong to whoever queued them, however the session ended
+    const { data: authSubscription } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') {
+        clearOutbox();
+      }
+    });
+
+    stopListeners = () => {
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+      authSubscription.subscription.unsubscribe();
+    };
+  }
+
+  flushOutbox();
+
+  return () => {
+    stopListeners?.();
+    stopListeners = null;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
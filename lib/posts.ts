@@ -0,0 +1,262 @@
+import * as Crypto from 'expo-crypto';
+import { fetchProfilesByIds, Profile } from './profiles';
+import { uploadFile } from './storage';
+import { supabase } from './supabase';
+
+export const FEED_PAGE_SIZE = 20;
+// How far down the feed a just-published post is looked for
+const NEW_POST_CHECK_SIZE = 10;
+export const MAX_POST_LENGTH = 500;
+export const MAX_COMMENT_LENGTH = 500;
+export const POST_IMAGE_BUCKET = 'post-images';
+// Signed image URLs outlive any screen showing them
+const IMAGE_URL_TTL_S = 60 * 60;
+
+export interface Post {
+  id: string;
+  author_id: string;
+  author_display_name: string | null;
+  author_username: string;
+  author_avatar_url: string | null;
+  body: string;
+  image_path: string | null;
+  // Signed URL of the image, added on this device
+  image_url: string | null;
+  image_width: number | null;
+  image_height: number | null;
+  like_count: number;
+  comment_count: number;
+  liked_by_me: boolean;
+  created_at: string;
+}
+
+export interface PostComment {
+  id: string;
+  post_id: string;
+  author_id: string;
+  body: string;
+  created_at: string;
+  author: Profile | null;
+}
+
+export interface NewPostImage {
+  uri: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// Fields of a post that changed on this device, e.g. after a like
+export type PostChange = { id: string } & Partial<
+  Pick<Post, 'like_count' | 'comment_count' | 'liked_by_me'>
+>;
+
+const listeners = new Set<(change: PostChange) => void>();
+
+// Tell every screen showing the post about a local change
+export const emitPostChange = (change: PostChange) => {
+  listeners.forEach((listener) => listener(change));
+};
+
+export const addPostListener = (listener: (change: PostChange) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// The image bucket is private, so each page of posts gets signed URLs for its
+// images in one request
+const withImageUrls = async (rows: Omit<Post, 'image_url'>[]): Promise<Post[]> => {
+  const paths = rows.flatMap((row) => (row.image_path ? [row.image_path] : []));
+  if (paths.length === 0) {
+    return rows.map((row) => ({ ...row, image_url: null }));
+  }
+
+  const { data, error } = await supabase.storage
+    .from(POST_IMAGE_BUCKET)
+    .createSignedUrls(paths, IMAGE_URL_TTL_S);
+
+  if (error) {
+    throw error;
+  }
+  const urls = new Map(data.map((item) => [item.path, item.signedUrl]));
+  return rows.map((row) => ({
+    ...row,
+    image_url: (row.image_path && urls.get(row.image_path)) || null,
+  }));
+};
+
+// Fetch a page of the feed, newest first. Pass the last loaded post as
+// `before` to fetch the next page.
+export const fetchFeed = async (
+  before?: Pick<Post, 'id' | 'created_at'>,
+  limit: number = FEED_PAGE_SIZE
+): Promise<Post[]> => {
+  const { data, error } = await supabase.rpc('get_feed', {
+    p_limit: limit,
+    p_before: before?.created_at ?? null,
+    p_before_id: before?.id ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return withImageUrls((data ?? []) as Omit<Post, 'image_url'>[]);
+};
+
+// A single post, or null if it was deleted or is not visible to the user
+export const fetchPost = async (postId: string): Promise<Post | null> => {
+  const { data, error } = await supabase.rpc('get_post', { p_post_id: postId }).maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+  const [post] = await withImageUrls([data as Omit<Post, 'image_url'>]);
+  return post;
+};
+
+export const createPost = async (
+  authorId: string,
+  body: string,
+  image?: NewPostImage | null
+): Promise<string> => {
+  let imagePath: string | null = null;
+  if (image) {
+    const extension = image.mimeType.split('/')[1] ?? 'jpg';
+    imagePath = await uploadFile(
+      POST_IMAGE_BUCKET,
+      `${authorId}/${Crypto.randomUUID()}.${extension}`,
+      image.uri,
+      image.mimeType
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('posts')
+    .insert({
+      body: body.trim(),
+      image_path: imagePath,
+      image_width: image?.width ?? null,
+      image_height: image?.height ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data.id as string;
+};
+
+export const likePost = async (postId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('post_likes')
+    .upsert({ post_id: postId }, { onConflict: 'post_id,user_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw error;
+  }
+};
+
+export const unlikePost = async (postId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('post_likes')
+    .delete()
+    .eq('post_id', postId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Like or unlike a post, updating every screen first and rolling back if the
+// server refuses
+export const toggleLike = async (post: Post, userId: string): Promise<void> => {
+  const liked = !post.liked_by_me;
+  emitPostChange({
+    id: post.id,
+    liked_by_me: liked,
+    like_count: post.like_count + (liked ? 1 : -1),
+  });
+  try {
+    if (liked) {
+      await likePost(post.id);
+    } else {
+      await unlikePost(post.id, userId);
+    }
+  } catch (err) {
+    emitPostChange({ id: post.id, liked_by_me: post.liked_by_me, like_count: post.like_count });
+    throw err;
+  }
+};
+
+export const fetchComments = async (postId: string): Promise<PostComment[]> => {
+  const { data, error } = await supabase
+    .from('post_comments')
+    .select('id, post_id, author_id, body, created_at')
+    .eq('post_id', postId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as Omit<PostComment, 'author'>[];
+  const profiles = await fetchProfilesByIds([...new Set(rows.map((row) => row.author_id))]);
+  const byId = new Map(profiles.map((profile) => [profile.id, profile]));
+  return rows.map((row) => ({ ...row, author: byId.get(row.author_id) ?? null }));
+};
+
+export const addComment = async (
+  id: string,
+  postId: string,
+  body: string
+): Promise<Omit<PostComment, 'author'>> => {
+  const { data, error } = await supabase
+    .from('post_comments')
+    .insert({ id, post_id: postId, body: body.trim() })
+    .select('id, post_id, author_id, body, created_at')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return data as Omit<PostComment, 'author'>;
+};
+
+// Whether a post is near the top of the user's feed. New-post events cover
+// every post the user may see, not only the people and university the feed
+// shows, so this is asked before announcing one.
+export const isPostInFeed = async (postId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .rpc('get_feed', { p_limit: NEW_POST_CHECK_SIZE })
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as { id: string }[]).some((post) => post.id === postId);
+};
+
+// Subscribe to newly created posts the user can see. Returns an unsubscribe
+// function.
+export const subscribeToNewPosts = (
+  userId: string,
+  onInsert: (post: { id: string; author_id: string; created_at: string }) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`posts:${userId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'posts' }, (payload) => {
+      onInsert(payload.new as { id: string; author_id: string; created_at: string });
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
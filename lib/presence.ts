@@ -0,0 +1,273 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { AppState, AppStateStatus } from 'react-native';
+import { addBlockListener } from './blocks';
+import { createLogger } from './logger';
+import { fetchPrivacySettings } from './privacy';
+import { supabase } from './supabase';
+
+// Online presence and typing indicators on private Supabase Realtime channels.
+// Each user announces themselves on their own "presence:<user_id>" channel
+// while the app is in the foreground, and watches the channels of the people
+// currently on screen. The realtime.messages policies only let someone join a
+// channel for a user they share a conversation with, who has not hidden their
+// presence and is not blocked in either direction. Typing events are broadcast
+// on a per-conversation channel that only its members can join.
+
+// Minimum gap between two "typing" broadcasts from this device
+export const TYPING_THROTTLE_MS = 2000;
+// A typing indicator disappears if no new event arrives within this window
+export const TYPING_EXPIRY_MS = 5000;
+
+const log = createLogger('PRESENCE');
+
+interface Watch {
+  count: number;
+  channel: RealtimeChannel | null;
+}
+
+let channel: RealtimeChannel | null = null;
+let currentUserId: string | null = null;
+// Bumped on every disconnect so a connect still in flight can tell it is stale
+let connection = 0;
+let hidden = false;
+let appState: AppStateStatus = AppState.currentState;
+// Users whose presence someone on screen asked for, and who of them is online
+const watched = new Map<string, Watch>();
+let onlineUserIds = new Set<string>();
+const listeners = new Set<(online: Set<string>) => void>();
+
+const presenceTopic = (userId: string) => `presence:${userId}`;
+
+const emit = () => {
+  listeners.forEach((listener) => listener(onlineUserIds));
+};
+
+const setOnline = (userId: string, online: boolean) => {
+  if (onlineUserIds.has(userId) === online) {
+    return;
+  }
+  onlineUserIds = new Set(onlineUserIds);
+  if (online) {
+    onlineUserIds.add(userId);
+  } else {
+    onlineUserIds.delete(userId);
+  }
+  emit();
+};
+
+// Join a watched user's channel. Our own presence comes from the channel we
+// announce on, since joining the same topic twice would drop the first join.
+const openWatch = (userId: string) => {
+  const watch = watched.get(userId);
+  if (!watch || watch.channel || !currentUserId || userId === currentUserId) {
+    return;
+  }
+  const watchChannel = supabase.channel(presenceTopic(userId), { config: { private: true } });
+  watch.channel = watchChannel;
+  watchChannel
+    .on('presence', { event: 'sync' }, () => {
+      setOnline(userId, userId in watchChannel.presenceState());
+    })
+    .subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR') {
+        // Expected for users we may not see, so not worth an error
+        log.debug('Presence not available', { userId, error: err });
+      }
+    });
+};
+
+const closeWatch = (userId: string) => {
+  const watch = watched.get(userId);
+  if (watch?.channel) {
+    supabase.removeChannel(watch.channel);
+    watch.channel = null;
+  }
+  setOnline(userId, false);
+};
+
+const touchLastSeen = async () => {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) {
+    log.error('Error updating last seen', { error: error.message });
+  }
+};
+
+// Announce ourselves only while in the foreground and not hidden by privacy settings
+const syncTracking = async () => {
+  if (!channel) {
+    return;
+  }
+  if (appState === 'active' && !hidden) {
+    await channel.track({ online_at: new Date().toISOString() });
+  } else {
+    await channel.untrack();
+  }
+};
+
+// Join presence as a user. Does nothing while already connected or connecting
+// as them, since INITIAL_SESSION and TOKEN_REFRESHED can arrive back to back.
+const connect = async (userId: string) => {
+  if (currentUserId === userId) {
+    return;
+  }
+  disconnect();
+  currentUserId = userId;
+  const attempt = connection;
+
+  try {
+    hidden = (await fetchPrivacySettings(userId)).hide_last_seen;
+  } catch (err) {
+    log.error('Error loading privacy settings', { error: err });
+  }
+  // Signed out, or connected again, while the settings loaded
+  if (attempt !== connection) {
+    return;
+  }
+
+  const ownChannel = supabase.channel(presenceTopic(userId), {
+    config: { private: true, presence: { key: userId } },
+  });
+  channel = ownChannel;
+  ownChannel
+    .on('presence', { event: 'sync' }, () => {
+      setOnline(userId, userId in ownChannel.presenceState());
+    })
+    .subscribe((status, err) => {
+      if (status === 'SUBSCRIBED') {
+        syncTracking();
+      } else if (status === 'CHANNEL_ERROR') {
+        log.error('Error joining presence', { error: err });
+      }
+    });
+  watched.forEach((_watch, watchedUserId) => openWatch(watchedUserId));
+  touchLastSeen();
+};
+
+const disconnect = () => {
+  connection++;
+  if (channel) {
+    supabase.removeChannel(channel);
+    channel = null;
+  }
+  currentUserId = null;
+  // Keep the watch counts so the same users are watched after signing in again
+  watched.forEach((_watch, userId) => closeWatch(userId));
+  onlineUserIds = new Set();
+  emit();
+};
+
+// Join presence for whoever is signed in and follow foreground/background
+// transitions. Returns a function that stops everything.
+export const startPresence = (): (() => void) => {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    if (session?.user?.id) {
+      connect(session.user.id);
+    } else {
+      disconnect();
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (status) => {
+    const wasActive = appState === 'active';
+    appState = status;
+    if (wasActive !== (status === 'active')) {
+      syncTracking();
+      if (currentUserId) {
+        touchLastSeen();
+      }
+    }
+  });
+
+  // Channel access is only checked on join, so rejoin after blocking or
+  // unblocking someone to have the server decide again
+  const removeBlockListener = addBlockListener(({ userId }) => {
+    closeWatch(userId);
+    openWatch(userId);
+  });
+
+  return () => {
+    data.subscription.unsubscribe();
+    appStateSubscription.remove();
+    removeBlockListener();
+    disconnect();
+  };
+};
+
+// Apply a change to the "hide last seen" setting without reconnecting
+export const setPresenceHidden = (value: boolean) => {
+  hidden = value;
+  syncTracking();
+};
+
+// Keep a user's online state up to date while something on screen shows it.
+// Returns a function that stops watching.
+export const watchPresence = (userId: string): (() => void) => {
+  const watch = watched.get(userId);
+  if (watch) {
+    watch.count++;
+  } else {
+    watched.set(userId, { count: 1, channel: null });
+    openWatch(userId);
+  }
+  return () => {
+    const current = watched.get(userId);
+    if (!current || --current.count > 0) {
+      return;
+    }
+    closeWatch(userId);
+    watched.delete(userId);
+  };
+};
+
+export const isUserOnline = (userId: string) => onlineUserIds.has(userId);
+
+export const addPresenceListener = (listener: (online: Set<string>) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Last-seen times for users who share theirs
+export const fetchLastSeen = async (userIds: string[]): Promise<Record<string, string>> => {
+  if (userIds.length === 0) {
+    return {};
+  }
+  const { data, error } = await supabase.rpc('get_last_seen', { p_user_ids: userIds });
+  if (error) {
+    throw error;
+  }
+  return Object.fromEntries(
+    ((data ?? []) as { user_id: string; last_seen_at: string }[]).map((row) => [
+      row.user_id,
+      row.last_seen_at,
+    ])
+  );
+};
+
+// Join a conversation's typing channel. `onTyping` receives the id of whoever
+// started or stopped typing. Returns a sender and an unsubscribe function.
+export const joinTypingChannel = (
+  conversationId: string,
+  userId: string,
+  onTyping: (typingUserId: string, isTyping: boolean) => void
+) => {
+  const typingChannel = supabase
+    .channel(`typing:${conversationId}`, { config: { private: true, broadcast: { self: false } } })
+    .on('broadcast', { event: 'typing' }, ({ payload }) => {
+      if (payload?.user_id && payload.user_id !== userId) {
+        onTyping(payload.user_id, !!payload.typing);
+      }
+    })
+    .subscribe();
+
+  const send = (typing: boolean) =>
+    typingChannel.send({ type: 'broadcast', event: 'typing', payload: { user_id: userId, typing } });
+
+  return {
+    send,
+    leave: () => {
+      supabase.removeChannel(typingChannel);
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+
+// Who can start a direct conversation with you
+export const DM_PERMISSIONS = ['everyone', 'following', 'same_university'] as const;
+export type DmPermission = (typeof DM_PERMISSIONS)[number];
+
+export interface PrivacySettings {
+  hide_last_seen: boolean;
+  // Turning this off also hides other people's receipts from you
+  read_receipts: boolean;
+  // New followers need approval; making the account public approves everyone waiting
+  private_account: boolean;
+  dm_permission: DmPermission;
+}
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  hide_last_seen: false,
+  read_receipts: true,
+  private_account: false,
+  dm_permission: 'everyone',
+};
+
+const PRIVACY_COLUMNS = 'hide_last_seen, read_receipts, private_account, dm_permission';
+
+// Fetch the current user's privacy settings, falling back to the defaults
+// for users who never changed them
+export const fetchPrivacySettings = async (userId: string): Promise<PrivacySettings> => {
+  const { data, error } = await supabase
+    .from('privacy_settings')
+    .select(PRIVACY_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return { ...DEFAULT_PRIVACY_SETTINGS, ...(data ?? {}) };
+};
+
+export const updatePrivacySettings = async (
+  userId: string,
+  changes: Partial<PrivacySettings>
+): Promise<PrivacySettings> => {
+  const { data, error } = await supabase
+    .from('privacy_settings')
+    .upsert({ user_id: userId, ...changes, updated_at: new Date().toISOString() })
+    .select(PRIVACY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return { ...DEFAULT_PRIVACY_SETTINGS, ...data };
+};
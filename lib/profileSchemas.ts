@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import {
+  MAX_BIO_LENGTH,
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_INTERESTS,
+  USERNAME_PATTERN,
+} from './account';
+
+// Profile fields shared by onboarding and account editing. Messages are
+// translation keys under `validation.`, so screens show them with t().
+
+export const INTERESTS = [
+  'music',
+  'sports',
+  'tech',
+  'art',
+  'gaming',
+  'books',
+  'travel',
+  'food',
+  'film',
+  'volunteering',
+  'startups',
+  'languages',
+] as const;
+export type Interest = (typeof INTERESTS)[number];
+
+export const displayNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'validation.displayNameRequired')
+  .max(MAX_DISPLAY_NAME_LENGTH, 'validation.displayNameTooLong');
+
+export const usernameSchema = z
+  .string()
+  .trim()
+  .min(1, 'validation.usernameRequired')
+  .regex(USERNAME_PATTERN, 'validation.usernameFormat');
+
+export const bioSchema = z.string().trim().max(MAX_BIO_LENGTH, 'validation.bioTooLong');
+
+// Optional; an empty string means no avatar
+export const avatarUrlSchema = z
+  .string()
+  .trim()
+  .refine((value) => value === '' || /^https?:\/\/\S+$/.test(value), 'validation.avatarUrl');
+
+export const interestsSchema = z
+  .array(z.enum(INTERESTS))
+  .min(1, 'validation.interestsRequired')
+  .max(MAX_INTERESTS, 'validation.interestsTooMany');
+
+export const profileEditSchema = z.object({
+  display_name: displayNameSchema,
+  bio: bioSchema,
+  avatar_url: avatarUrlSchema,
+});
+
+export const onboardingSchema = z.object({
+  display_name: displayNameSchema,
+  username: usernameSchema,
+  avatar_url: avatarUrlSchema,
+  university_confirmed: z.boolean().refine((value) => value, 'validation.universityConfirm'),
+  interests: interestsSchema,
+});
+
+export type OnboardingValues = z.infer<typeof onboardingSchema>;
@@ -0,0 +1,74 @@
+import { supabase } from './supabase';
+
+export interface Profile {
+  id: string;
+  display_name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export const PROFILE_COLUMNS = 'id, display_name, username, avatar_url';
+
+// Find profiles whose username or display name starts with the query
+export const searchProfiles = async (query: string, limit = 20): Promise<Profile[]> => {
+  const term = query.trim().replace(/[%_,()]/g, '');
+  if (!term) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .or(`username.ilike.${term}%,display_name.ilike.${term}%`)
+    .order('username')
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Profile[];
+};
+
+export const fetchProfilesByIds = async (ids: string[]): Promise<Profile[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.from('profiles').select(PROFILE_COLUMNS).in('id', ids);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as Profile[];
+};
+
+// Everything the profile screen shows about a user
+export interface ProfilePage {
+  id: string;
+  display_name: string | null;
+  username: string;
+  avatar_url: string | null;
+  bio: string | null;
+  // Domain of the user's student email, e.g. "hcmut.edu.vn"
+  email_domain: string | null;
+  follower_count: number;
+  following_count: number;
+  is_following: boolean;
+  // The current user asked to follow this private account
+  has_requested: boolean;
+  is_private: boolean;
+  // The current user blocked this user
+  is_blocked: boolean;
+  // This user blocked the current user
+  has_blocked_me: boolean;
+}
+
+// Profile page by username, or null if nobody has that username
+export const fetchProfilePage = async (username: string): Promise<ProfilePage | null> => {
+  const { data, error } = await supabase.rpc('get_profile', { p_username: username }).maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return (data as ProfilePage | null) ?? null;
+};
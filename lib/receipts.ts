@@ -0,0 +1,97 @@
+import type { DeliveryStatus, Message } from './messages';
+import { enqueue, OutboxHandler } from './outbox';
+import { supabase } from './supabase';
+
+// Where each other member of a conversation has read and received up to.
+// Read fields are null when either side has read receipts turned off.
+export interface ReadMarker {
+  user_id: string;
+  last_read_message_id: string | null;
+  last_read_at: string | null;
+  last_delivered_at: string;
+}
+
+export const MARK_DELIVERED_KIND = 'conversation.markDelivered';
+
+const RECEIPTS_EVENT = 'receipts_changed';
+
+export const fetchReadMarkers = async (conversationId: string): Promise<ReadMarker[]> => {
+  const { data, error } = await supabase.rpc('get_read_markers', {
+    p_conversation_id: conversationId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ReadMarker[];
+};
+
+export const markConversationDelivered = async (conversationId: string): Promise<void> => {
+  const { error } = await supabase.rpc('mark_conversation_delivered', {
+    p_conversation_id: conversationId,
+  });
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Queue a delivery marker update; only the latest one per conversation is kept
+export const queueMarkConversationDelivered = (conversationId: string) =>
+  enqueue(
+    MARK_DELIVERED_KIND,
+    { conversationId },
+    { dedupeKey: `${MARK_DELIVERED_KIND}:${conversationId}` }
+  );
+
+// Tell the other members to refetch markers. The event carries no marker data,
+// so get_read_markers stays the only place receipts are exposed.
+export const broadcastReceiptsChanged = async (conversationId: string): Promise<void> => {
+  const channel = supabase.channel(`receipts:${conversationId}`);
+  await channel.send({ type: 'broadcast', event: RECEIPTS_EVENT, payload: {} });
+  supabase.removeChannel(channel);
+};
+
+export const subscribeToReceipts = (conversationId: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`receipts:${conversationId}`)
+    .on('broadcast', { event: RECEIPTS_EVENT }, () => onChange())
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Delivery state of one of the current user's stored messages. In groups a
+// message counts as read or delivered only once every other member got there.
+export const deliveryStatusFor = (message: Message, markers: ReadMarker[]): DeliveryStatus => {
+  if (markers.length === 0) {
+    return 'sent';
+  }
+  if (
+    markers.every(
+      (marker) => marker.last_read_at !== null && marker.last_read_at >= message.created_at
+    )
+  ) {
+    return 'read';
+  }
+  if (markers.every((marker) => marker.last_delivered_at >= message.created_at)) {
+    return 'delivered';
+  }
+  return 'sent';
+};
+
+// Ids of the members who have read up to the given message
+export const seenBy = (message: Message, markers: ReadMarker[]): string[] =>
+  markers
+    .filter((marker) => marker.last_read_at !== null && marker.last_read_at >= message.created_at)
+    .map((marker) => marker.user_id);
+
+export const receiptOutboxHandlers: Record<string, OutboxHandler> = {
+  [MARK_DELIVERED_KIND]: async (entry) => {
+    const { conversationId } = entry.payload as { conversationId: string };
+    await markConversationDelivered(conversationId);
+    await broadcastReceiptsChanged(conversationId);
+  },
+};
@@ -1,4 +1,8 @@
-import { router } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { type Href, router } from 'expo-router';
+import { z } from 'zod';
+import { USERNAME_PATTERN } from './account';
+import { createLogger } from './logger';
 
 // Route definitions with path mappings
 const routes = {
@@ -9,70 +13,326 @@ const routes = {
   Onboarding: '/(auth)/onboarding',
   Profile: '/(tabs)/home/profile/[name]',
   ProfileFollowers: '/(tabs)/home/profile-followers/[name]',
+  NewPost: '/(tabs)/home/new-post',
+  Post: '/(tabs)/home/post/[postId]',
   AccountSettings: '/(tabs)/settings/account-settings',
   PrivacyAndSecurity: '/(tabs)/settings/privacy-and-security',
   FaceID: '/(tabs)/settings/privacy-and-security/face-id',
+  BlockedUsers: '/(tabs)/settings/privacy-and-security/blocked-users',
+  Diagnostics: '/(tabs)/settings/diagnostics',
   Notifications: '/(tabs)/home/notifications',
   NotificationSettings: '/(tabs)/home/notifications/settings',
   Messages: '/(tabs)/chats/messages',
   MessageConversation: '/(tabs)/chats/messages/[conversationId]',
+  NewGroup: '/(tabs)/chats/new-group',
+  GroupSettings: '/(tabs)/chats/group-settings/[conversationId]',
   Hello: '/hello',
 } as const;
 
 // Type for route names
-type RouteName = keyof typeof routes;
-
-// Type for route parameters
-type RouteParams = {
-  Home?: never;
-  Chats?: never;
-  Settings?: never;
-  Login?: never;
-  Profile: { name: string };
-  ProfileFollowers: { name: string };
-  AccountSettings?: never;
-  PrivacyAndSecurity?: never;
-  FaceID?: never;
-  Notifications?: never;
-  NotificationSettings?: never;
-  Messages?: never;
-  MessageConversation: { conversationId: string };
-  Hello: never;
-  Onboarding: never;
+export type RouteName = keyof typeof routes;
+
+type ParamSchemas = { path?: z.AnyZodObject; query?: z.AnyZodObject };
+
+const uuid = z.string().uuid();
+const username = z.string().regex(USERNAME_PATTERN);
+
+// Params each route takes: `path` fills the [segments] of its path and `query`
+// goes in the query string. Routes not listed take no params. Params are
+// checked both when navigating and when a link is opened.
+const routeSchemas = {
+  Profile: { path: z.object({ name: username }) },
+  ProfileFollowers: {
+    path: z.object({ name: username }),
+    query: z.object({ tab: z.enum(['followers', 'following', 'requests']).optional() }),
+  },
+  Post: { path: z.object({ postId: uuid }) },
+  MessageConversation: { path: z.object({ conversationId: uuid }) },
+  GroupSettings: { path: z.object({ conversationId: uuid }) },
+} satisfies { [K in RouteName]?: ParamSchemas };
+
+type RouteSchema<T extends RouteName> = T extends keyof typeof routeSchemas
+  ? (typeof routeSchemas)[T]
+  : object;
+type SchemaParams<S, K extends 'path' | 'query'> = S extends { [P in K]: z.AnyZodObject }
+  ? z.input<S[K]>
+  : unknown;
+
+// Type for route parameters; undefined for routes without any
+export type RouteParams = {
+  [K in RouteName]: keyof RouteSchema<K> extends never
+    ? undefined
+    : SchemaParams<RouteSchema<K>, 'path'> & SchemaParams<RouteSchema<K>, 'query'>;
 };
 
-// Navigate function with type safety
-export const navigate = <T extends RouteName>(
-  route: T,
-  params?: RouteParams[T],
-  options?: { replace?: boolean }
-): void => {
-  let path: string = routes[route]; // Explicitly type as string
-
-  // Replace dynamic parameters in the path
-  if (params) {
-    for (const [key, value] of Object.entries(params)) {
-      path = path.replace(`[${key}]`, encodeURIComponent(value));
-    }
+// How navigate() moves to a route:
+// - push: open it on top of the current screen
+// - replace: swap the current screen for it
+// - dismiss: go back to it if it is already in the stack, closing the screens
+//   above it, and push it otherwise
+export type NavigationMode = 'push' | 'replace' | 'dismiss';
+
+export type NavigateOptions = { mode?: NavigationMode };
+
+// Params are required for routes with path params, optional otherwise
+type RouteArgs<T extends RouteName> =
+  RouteSchema<T> extends { path: z.AnyZodObject }
+    ? [params: RouteParams[T], options?: NavigateOptions]
+    : [params?: RouteParams[T], options?: NavigateOptions];
+
+const log = createLogger('ROUTER');
+
+const schemaOf = (route: RouteName): ParamSchemas =>
+  (routeSchemas as { [K in RouteName]?: ParamSchemas })[route] ?? {};
+
+// Splits params into path and query params, or returns null if any of them
+// do not match the route's schema
+const checkParams = (
+  route: RouteName,
+  params: Record<string, unknown> | undefined
+): { path: Record<string, string>; query: Record<string, string> } | null => {
+  const schema = schemaOf(route);
+  const path = (schema.path ?? z.object({})).safeParse(params ?? {});
+  const query = (schema.query ?? z.object({})).safeParse(params ?? {});
+  if (!path.success || !query.success) {
+    log.warn('Invalid params', {
+      route,
+      params,
+      issues: [...(path.error?.issues ?? []), ...(query.error?.issues ?? [])],
+    });
+    return null;
+  }
+  const defined = (values: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(values)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+    );
+  return { path: defined(path.data), query: defined(query.data) };
+};
+
+const buildPath = (
+  route: RouteName,
+  params: Record<string, unknown> | undefined
+): string | null => {
+  const checked = checkParams(route, params);
+  if (!checked) {
+    return null;
+  }
+  let path: string = routes[route];
+  for (const [key, value] of Object.entries(checked.path)) {
+    path = path.replace(`[${key}]`, encodeURIComponent(value));
   }
+  const query = Object.entries(checked.query)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return query ? `${path}?${query}` : path;
+};
+
+// Params that do not match a route's schema are a bug in the caller: fail
+// loudly in development, and stay on the current screen in production
+const pathOrThrow = (route: RouteName, params: Record<string, unknown> | undefined) => {
+  const path = buildPath(route, params);
+  if (path === null && __DEV__) {
+    throw new Error(`Invalid params for route ${route}: ${JSON.stringify(params)}`);
+  }
+  return path;
+};
+
+const go = (path: string, mode: NavigationMode = 'push') => {
+  const href = path as Href;
+  if (mode === 'replace') {
+    router.replace(href);
+  } else if (mode === 'dismiss') {
+    router.dismissTo(href);
+  } else {
+    router.push(href);
+  }
+};
+
+const navigateTo = (
+  route: RouteName,
+  params: Record<string, unknown> | undefined,
+  options?: NavigateOptions
+) => {
+  const path = pathOrThrow(route, params);
+  if (path !== null) {
+    go(path, options?.mode);
+  }
+};
 
-  if (options?.replace) {
-    router.replace(path as any);
+// Navigate function with type safety
+export const navigate = <T extends RouteName>(route: T, ...[params, options]: RouteArgs<T>) =>
+  navigateTo(route, params, options);
+
+// Go back a screen, or replace the current one with `fallback` when there is
+// nothing to go back to, e.g. after opening the app from a link
+export const goBack = <T extends RouteName>(fallback: T, ...[params]: RouteArgs<T>) => {
+  if (router.canGoBack()) {
+    router.back();
   } else {
-    router.push(path as any);
+    navigateTo(fallback, params, { mode: 'replace' });
   }
 };
 
 // Helper to get the path for a route
-export const getPath = <T extends RouteName>(
-  route: T,
-  params?: RouteParams[T]
-): string => {
-  let path: string = routes[route]; // Explicitly type as string
-  if (params) {
-    for (const [key, value] of Object.entries(params)) {
-      path = path.replace(`[${key}]`, encodeURIComponent(value));
+export const getPath = <T extends RouteName>(route: T, ...[params]: RouteArgs<T>): string =>
+  pathOrThrow(route, params) ?? routes.Home;
+
+// Every route must have a screen under app/; catch typos and moved files early.
+// expo-router/_ctx is private, so it is only loaded in development and the
+// check is skipped if it cannot be.
+const screenFiles = (): string[] | null => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { ctx } = require('expo-router/_ctx') as { ctx: { keys(): string[] } };
+    return ctx.keys();
+  } catch (err) {
+    log.warn('Skipping the route check', { error: err });
+    return null;
+  }
+};
+
+if (__DEV__) {
+  const files = screenFiles();
+  if (files) {
+    const screens = new Set(
+      files.map((key) =>
+        key
+          .replace(/^\.\//, '')
+          .replace(/(\.(ios|android|native|web))?\.[jt]sx?$/, '')
+          .replace(/(^|\/)index$/, '')
+      )
+    );
+    const missing = (Object.keys(routes) as RouteName[]).filter(
+      (route) => !screens.has(routes[route].slice(1))
+    );
+    if (missing.length > 0) {
+      throw new Error(`Routes without a screen in app/: ${missing.join(', ')}`);
     }
   }
-  return path;
-};
\ No newline at end of file
+}
+
+// Incoming links
+//
+// Links drop the route groups from the path: cendy://home/profile/alice, or
+// https://<EXPO_PUBLIC_LINK_HOST>/home/profile/alice as a universal link,
+// opens Profile with { name: 'alice' }. Query params are passed on, e.g.
+// cendy://home/profile-followers/alice?tab=following.
+
+// Host of https links that open the app, if universal links are set up
+const LINK_HOST = process.env.EXPO_PUBLIC_LINK_HOST ?? null;
+
+// Screens a link can never open directly
+const UNLINKABLE_ROUTES: RouteName[] = ['Login', 'Onboarding'];
+
+// A route and its params, typed together
+export type LinkedRoute = {
+  [K in RouteName]: { route: K; params: RouteParams[K] };
+}[RouteName];
+
+const linkSegments = (route: RouteName) =>
+  routes[route].split('/').filter((segment) => segment && !/^\(.*\)$/.test(segment));
+
+// Static routes are tried first so e.g. /home/notifications is never a param
+const linkableRoutes = (Object.keys(routes) as RouteName[])
+  .filter((route) => !UNLINKABLE_ROUTES.includes(route))
+  .sort(
+    (a, b) =>
+      linkSegments(a).filter((segment) => segment.startsWith('[')).length -
+      linkSegments(b).filter((segment) => segment.startsWith('[')).length
+  );
+
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, '');
+
+// The route part of a URL's path, without leading or trailing slashes. With
+// the app's own scheme the first segment is parsed as the host. Returns null
+// for https links to other hosts.
+export const linkPath = (url: string): string | null => {
+  if (!url.includes('://')) {
+    return trimSlashes(url.split(/[?#]/)[0]);
+  }
+  const { scheme, hostname, path } = Linking.parse(url);
+  if (scheme === 'http' || scheme === 'https') {
+    return LINK_HOST && hostname === LINK_HOST ? trimSlashes(path ?? '') : null;
+  }
+  if (scheme === 'exp' || scheme === 'exps') {
+    return trimSlashes(path ?? '');
+  }
+  return trimSlashes([hostname, path].filter(Boolean).join('/'));
+};
+
+const linkQuery = (url: string): Record<string, string> | null => {
+  const query = url.split('#')[0].split('?')[1] ?? '';
+  try {
+    return Object.fromEntries(
+      query
+        .split('&')
+        .filter(Boolean)
+        .map((pair) => {
+          const [key, value = ''] = pair.split('=');
+          return [decodeURIComponent(key), decodeURIComponent(value.replace(/\+/g, ' '))];
+        })
+    );
+  } catch {
+    return null;
+  }
+};
+
+// The route and validated params a link points to, or null if it points to no
+// known route or its params are malformed
+export const parseLink = (url: string): LinkedRoute | null => {
+  const path = linkPath(url);
+  const query = linkQuery(url);
+  if (path === null || query === null) {
+    return null;
+  }
+  const segments = path.split('/').filter(Boolean);
+
+  for (const route of linkableRoutes) {
+    const pattern = linkSegments(route);
+    if (pattern.length !== segments.length) {
+      continue;
+    }
+
+    const pathParams: Record<string, string> = {};
+    const matches = pattern.every((part, index) => {
+      const dynamic = /^\[(.+)\]$/.exec(part);
+      if (!dynamic) {
+        return part === segments[index];
+      }
+      try {
+        pathParams[dynamic[1]] = decodeURIComponent(segments[index]);
+      } catch {
+        return false;
+      }
+      return true;
+    });
+    if (!matches) {
+      continue;
+    }
+
+    const checked = checkParams(route, { ...query, ...pathParams });
+    if (!checked) {
+      return null;
+    }
+    const params = { ...checked.path, ...checked.query };
+    return { route, params: Object.keys(params).length > 0 ? params : undefined } as LinkedRoute;
+  }
+  return null;
+};
+
+// Open a route parsed from a link
+export const openLink = (link: LinkedRoute, options?: NavigateOptions) => {
+  navigateTo(link.route, link.params, options);
+};
+
+// A link to a screen that can be shared outside the app. Uses https when
+// universal links are set up, and the app's scheme otherwise.
+export const getShareUrl = <T extends RouteName>(route: T, ...[params]: RouteArgs<T>): string => {
+  const path = (pathOrThrow(route, params) ?? routes.Home)
+    .split('/')
+    .filter((segment) => segment && !/^\(.*\)$/.test(segment))
+    .join('/');
+  return LINK_HOST ? `https://${LINK_HOST}/${path}` : Linking.createURL(path);
+};
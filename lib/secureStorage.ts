@@ -0,0 +1,151 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { createLogger } from './logger';
+
+// Auth storage for the Supabase client. On iOS and Android the session lives
+// in the keychain/keystore. SecureStore values should stay under 2 KB and a
+// session is larger, so each value is split over numbered chunks of a
+// generation, with a head key naming the current one:
+//   <key>.head = "4:3", <key>.4.0, <key>.4.1, <key>.4.2
+// A new value is written as the next generation and the head moved over to it
+// in one write, so a write cut short leaves the previous value readable.
+// Sessions saved in AsyncStorage by older versions are moved over on first
+// read. The web has no secure store, so there the browser's storage is used,
+// and nothing at all while the static site is rendered.
+
+// Characters per chunk; a UTF-8 character is at most 3 bytes
+const CHUNK_SIZE = 680;
+
+const log = createLogger('SECURE STORAGE');
+
+interface Head {
+  generation: number;
+  count: number;
+}
+
+// SecureStore keys may only contain letters, digits, ".", "-" and "_"
+const safeKey = (key: string) => key.replace(/[^A-Za-z0-9._-]/g, '_');
+const headKey = (key: string) => `${safeKey(key)}.head`;
+// Generation 0 is the layout before generations, with a separate count:
+//   <key>.count = "3", <key>.0, <key>.1, <key>.2
+const legacyCountKey = (key: string) => `${safeKey(key)}.count`;
+const chunkKey = (key: string, { generation }: Head, index: number) =>
+  generation === 0 ? `${safeKey(key)}.${index}` : `${safeKey(key)}.${generation}.${index}`;
+
+const readHead = async (key: string): Promise<Head | null> => {
+  const head = await SecureStore.getItemAsync(headKey(key));
+  if (head !== null) {
+    const [generation, count] = head.split(':').map(Number);
+    return generation > 0 && count > 0 ? { generation, count } : null;
+  }
+  const legacyCount = Number(await SecureStore.getItemAsync(legacyCountKey(key))) || 0;
+  return legacyCount > 0 ? { generation: 0, count: legacyCount } : null;
+};
+
+const readSecure = async (key: string): Promise<string | null> => {
+  const head = await readHead(key);
+  if (!head) {
+    return null;
+  }
+  const chunks = await Promise.all(
+    Array.from({ length: head.count }, (_, index) =>
+      SecureStore.getItemAsync(chunkKey(key, head, index))
+    )
+  );
+  // Only possible if the keychain lost entries; treat the value as gone
+  if (chunks.some((chunk) => chunk === null)) {
+    log.warn('Incomplete value', { key });
+    return null;
+  }
+  return chunks.join('');
+};
+
+const removeGeneration = async (key: string, head: Head) => {
+  await Promise.all(
+    Array.from({ length: head.count }, (_, index) =>
+      SecureStore.deleteItemAsync(chunkKey(key, head, index))
+    )
+  );
+  if (head.generation === 0) {
+    await SecureStore.deleteItemAsync(legacyCountKey(key));
+  }
+};
+
+const writeSecure = async (key: string, value: string) => {
+  const previous = await readHead(key);
+  const chunks: string[] = [];
+  for (let i = 0; i < value.length; i += CHUNK_SIZE) {
+    chunks.push(value.slice(i, i + CHUNK_SIZE));
+  }
+  const next: Head = { generation: (previous?.generation ?? 0) + 1, count: chunks.length };
+
+  await Promise.all(
+    chunks.map((chunk, index) => SecureStore.setItemAsync(chunkKey(key, next, index), chunk))
+  );
+  // Until the head moves, readers still get the previous value in full
+  await SecureStore.setItemAsync(headKey(key), `${next.generation}:${next.count}`);
+  if (previous) {
+    await removeGeneration(key, previous);
+  }
+};
+
+const removeSecure = async (key: string) => {
+  const head = await readHead(key);
+  await SecureStore.deleteItemAsync(headKey(key));
+  if (head) {
+    await removeGeneration(key, head);
+  }
+};
+
+// Storage adapter matching what supabase-js expects of `auth.storage`
+export interface SessionStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+const nativeStorage: SessionStorage = {
+  getItem: async (key) => {
+    const value = await readSecure(key);
+    if (value !== null) {
+      return value;
+    }
+
+    // Move a session saved by an older version out of plaintext storage
+    const legacy = await AsyncStorage.getItem(key);
+    if (legacy !== null) {
+      log.info('Migrating value from AsyncStorage', { key });
+      try {
+        await writeSecure(key, legacy);
+        await AsyncStorage.removeItem(key);
+      } catch (err) {
+        // Keep the old copy so the user stays signed in; try again next launch
+        log.error('Error migrating value', { key, error: err });
+      }
+    }
+    return legacy;
+  },
+  setItem: (key, value) => writeSecure(key, value),
+  removeItem: async (key) => {
+    await removeSecure(key);
+    await AsyncStorage.removeItem(key);
+  },
+};
+
+const webStorage: SessionStorage = {
+  getItem: async (key) => (typeof window === 'undefined' ? null : AsyncStorage.getItem(key)),
+  setItem: async (key, value) => {
+    if (typeof window !== 'undefined') {
+      await AsyncStorage.setItem(key, value);
+    }
+  },
+  removeItem: async (key) => {
+    if (typeof window !== 'undefined') {
+      await AsyncStorage.removeItem(key);
+    }
+  },
+};
+
+export const secureSessionStorage: SessionStorage =
+  Platform.OS === 'web' ? webStorage : nativeStorage;
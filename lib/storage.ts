@@ -0,0 +1,51 @@
+import { supabase } from './supabase';
+
+// Upload a local file (e.g. from expo-image-picker) to a Storage bucket and
+// return the stored object's path.
+export const uploadFile = async (
+  bucket: string,
+  path: string,
+  uri: string,
+  contentType: string,
+  options?: { upsert?: boolean }
+): Promise<string> => {
+  const response = await fetch(uri);
+  const body = await response.arrayBuffer();
+
+  const { data, error } = await supabase.storage.from(bucket).upload(path, body, {
+    contentType,
+    upsert: options?.upsert ?? false,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return data.path;
+};
+
+export const getPublicUrl = (bucket: string, path: string): string =>
+  supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+
+// Remove every object directly inside a folder of a bucket. The caller needs
+// select and delete policies on the folder, or nothing is listed.
+export const removeFolder = async (bucket: string, folder: string): Promise<void> => {
+  const { data, error } = await supabase.storage.from(bucket).list(folder, { limit: 1000 });
+  if (error) {
+    throw error;
+  }
+  if (data.length === 0) {
+    return;
+  }
+
+  const { data: removed, error: removeError } = await supabase.storage
+    .from(bucket)
+    .remove(data.map((file) => `${folder}/${file.name}`));
+
+  if (removeError) {
+    throw removeError;
+  }
+  // Storage skips objects the policies hide instead of failing
+  if (removed.length < data.length) {
+    throw new Error(`Removed ${removed.length} of ${data.length} files from ${bucket}/${folder}`);
+  }
+};
@@ -0,0 +1,35 @@
+import type { TFunction } from 'i18next';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Compact relative timestamp for list rows: "now", "5m", "3h", "Yesterday", then a date
+export const formatRelativeTime = (
+  timestamp: string,
+  t: TFunction,
+  language: string,
+  now: Date = new Date()
+): string => {
+  const date = new Date(timestamp);
+  const elapsed = now.getTime() - date.getTime();
+
+  if (elapsed < MINUTE) {
+    return t('time.justNow');
+  }
+  if (elapsed < HOUR) {
+    return t('time.minutes', { count: Math.floor(elapsed / MINUTE) });
+  }
+  if (date.toDateString() === now.toDateString()) {
+    return t('time.hours', { count: Math.floor(elapsed / HOUR) });
+  }
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+  if (date.toDateString() === yesterday.toDateString()) {
+    return t('time.yesterday');
+  }
+  if (elapsed < 7 * DAY) {
+    return date.toLocaleDateString(language, { weekday: 'short' });
+  }
+  return date.toLocaleDateString(language, { day: 'numeric', month: 'short' });
+};
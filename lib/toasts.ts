@@ -0,0 +1,67 @@
+import { AppError, ErrorMessageKeys, toAppError } from './errors';
+import { createLogger } from './logger';
+
+// Error toasts shown over every screen by <ErrorToasts /> in the root layout.
+// Screens call showError() instead of raising their own alerts.
+
+const MAX_TOASTS = 3;
+const TOAST_DURATION_MS = 4000;
+
+export interface Toast {
+  id: number;
+  error: AppError;
+}
+
+const log = createLogger('TOASTS');
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+const listeners = new Set<(toasts: Toast[]) => void>();
+
+const emit = () => {
+  listeners.forEach((listener) => listener(toasts));
+};
+
+export const getToasts = () => toasts;
+
+export const addToastListener = (listener: (toasts: Toast[]) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const dismissToast = (id: number) => {
+  const timer = timers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(id);
+  }
+  toasts = toasts.filter((toast) => toast.id !== id);
+  emit();
+};
+
+// Tell the user about an error. `keys` picks more specific messages than the
+// defaults for its code; see lib/errors. The same message is never shown twice
+// at once.
+export const showError = (err: unknown, keys?: ErrorMessageKeys) => {
+  const error = toAppError(err, keys);
+  log.error('Showing error', {
+    code: error.code,
+    messageKey: error.messageKey,
+    error: error.message,
+  });
+
+  if (toasts.some((toast) => toast.error.messageKey === error.messageKey)) {
+    return;
+  }
+  const toast = { id: nextId++, error };
+  toasts = [...toasts, toast];
+  toasts.slice(0, -MAX_TOASTS).forEach((old) => dismissToast(old.id));
+  timers.set(
+    toast.id,
+    setTimeout(() => dismissToast(toast.id), TOAST_DURATION_MS)
+  );
+  emit();
+};
@@ -0,0 +1,56 @@
+// Universities we recognise by their student email domain. Students often have
+// addresses on a subdomain (e.g. student.hcmus.edu.vn), which match their parent.
+const UNIVERSITIES_BY_DOMAIN: Record<string, string> = {
+  'hcmut.edu.vn': 'Ho Chi Minh City University of Technology',
+  'hcmus.edu.vn': 'VNU-HCM University of Science',
+  'uit.edu.vn': 'University of Information Technology',
+  'hcmiu.edu.vn': 'International University',
+  'hcmussh.edu.vn': 'University of Social Sciences and Humanities',
+  'hcmute.edu.vn': 'HCMC University of Technology and Education',
+  'ueh.edu.vn': 'University of Economics Ho Chi Minh City',
+  'tdtu.edu.vn': 'Ton Duc Thang University',
+  'hust.edu.vn': 'Hanoi University of Science and Technology',
+  'vnu.edu.vn': 'Vietnam National University, Hanoi',
+  'neu.edu.vn': 'National Economics University',
+  'ftu.edu.vn': 'Foreign Trade University',
+  'fpt.edu.vn': 'FPT University',
+  'rmit.edu.vn': 'RMIT University Vietnam',
+};
+
+// Display name of the university behind an email domain, or the domain itself
+// when it is not one we know
+export const universityFromDomain = (domain: string | null | undefined): string | null => {
+  if (!domain) {
+    return null;
+  }
+  const labels = domain.toLowerCase().split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const name = UNIVERSITIES_BY_DOMAIN[labels.slice(i).join('.')];
+    if (name) {
+      return name;
+    }
+  }
+  return domain;
+};
+
+// Domains students can sign in with. Mirrors the server's "Only student email
+// addresses are allowed" rule; set EXPO_PUBLIC_STUDENT_EMAIL_DOMAINS to a
+// comma-separated list to change it, e.g. for a local test domain.
+const configuredDomains: string = process.env.EXPO_PUBLIC_STUDENT_EMAIL_DOMAINS ?? '';
+export const STUDENT_EMAIL_DOMAINS: string[] = configuredDomains
+  ? configuredDomains
+      .split(',')
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean)
+  : Object.keys(UNIVERSITIES_BY_DOMAIN);
+
+// Whether an address is on an allowed student domain or one of its subdomains
+export const isStudentEmail = (email: string): boolean => {
+  const domain = email.trim().toLowerCase().split('@')[1];
+  if (!domain || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    return false;
+  }
+  return STUDENT_EMAIL_DOMAINS.some(
+    (allowed) => domain === allowed || domain.endsWith(`.${allowed}`)
+  );
+};
@@ -0,0 +1,138 @@
+-- One-to-one conversations and their messages.
+-- Relies on public.profiles (written by complete_user_profile) for participant details.
+
+create table public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  last_message_at timestamptz not null default now()
+);
+
+create table public.conversation_members (
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (conversation_id, user_id)
+);
+
+create index conversation_members_user_id_idx on public.conversation_members (user_id);
+
+create table public.messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  sender_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  body text not null check (char_length(body) between 1 and 4000),
+  created_at timestamptz not null default now()
+);
+
+-- Keyset pagination walks (created_at, id) backwards from the newest message
+create index messages_conversation_created_at_idx
+  on public.messages (conversation_id, created_at desc, id desc);
+
+-- Membership check used by the RLS policies below. Security definer so that the
+-- policy on conversation_members can call it without recursing into itself.
+create or replace function public.is_conversation_member(p_conversation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.conversation_members
+    where conversation_id = p_conversation_id
+      and user_id = auth.uid()
+  );
+$$;
+
+alter table public.conversations enable row level security;
+alter table public.conversation_members enable row level security;
+alter table public.messages enable row level security;
+
+create policy "Members can read their conversations"
+  on public.conversations for select
+  using (public.is_conversation_member(id));
+
+create policy "Members can read conversation members"
+  on public.conversation_members for select
+  using (public.is_conversation_member(conversation_id));
+
+create policy "Members can read messages"
+  on public.messages for select
+  using (public.is_conversation_member(conversation_id));
+
+create policy "Members can send messages as themselves"
+  on public.messages for insert
+  with check (
+    sender_id = auth.uid()
+    and public.is_conversation_member(conversation_id)
+  );
+
+-- Keep conversations ordered by latest activity
+create or replace function public.touch_conversation_on_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.conversations
+  set last_message_at = new.created_at
+  where id = new.conversation_id;
+  return new;
+end;
+$$;
+
+create trigger messages_touch_conversation
+  after insert on public.messages
+  for each row execute function public.touch_conversation_on_message();
+
+-- Returns the existing direct conversation between the caller and p_other_user_id,
+-- creating it if none exists yet.
+create or replace function public.get_or_create_direct_conversation(p_other_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_conversation_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_other_user_id is null or p_other_user_id = v_user_id then
+    raise exception 'Invalid participant' using errcode = '22023';
+  end if;
+
+  select m1.conversation_id into v_conversation_id
+  from public.conversation_members m1
+  join public.conversation_members m2
+    on m2.conversation_id = m1.conversation_id
+  where m1.user_id = v_user_id
+    and m2.user_id = p_other_user_id
+    and (
+      select count(*) from public.conversation_members m3
+      where m3.conversation_id = m1.conversation_id
+    ) = 2
+  limit 1;
+
+  if v_conversation_id is not null then
+    return v_conversation_id;
+  end if;
+
+  insert into public.conversations default values
+  returning id into v_conversation_id;
+
+  insert into public.conversation_members (conversation_id, user_id)
+  values (v_conversation_id, v_user_id), (v_conversation_id, p_other_user_id);
+
+  return v_conversation_id;
+end;
+$$;
+
+grant execute on function public.get_or_create_direct_conversation(uuid) to authenticated;
+
+alter publication supabase_realtime add table public.messages;
@@ -0,0 +1,88 @@
+-- Inbox listing: last-message previews and unread counts per conversation.
+
+alter table public.conversation_members
+  add column last_read_at timestamptz not null default now();
+
+-- Lists the caller's conversations, most recently active first. Pass the
+-- last_message_at and conversation_id of the last row received to fetch the next page.
+create or replace function public.get_inbox(
+  p_limit integer default 20,
+  p_before timestamptz default null,
+  p_before_id uuid default null
+)
+returns table (
+  conversation_id uuid,
+  last_message_at timestamptz,
+  other_user_id uuid,
+  other_display_name text,
+  other_username text,
+  other_avatar_url text,
+  last_message_body text,
+  last_message_sender_id uuid,
+  unread_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id,
+    c.last_message_at,
+    other.user_id,
+    p.display_name,
+    p.username,
+    p.avatar_url,
+    last_message.body,
+    last_message.sender_id,
+    (
+      select count(*)::integer
+      from public.messages m
+      where m.conversation_id = c.id
+        and m.created_at > me.last_read_at
+        and m.sender_id <> auth.uid()
+    )
+  from public.conversation_members me
+  join public.conversations c on c.id = me.conversation_id
+  left join lateral (
+    select cm.user_id
+    from public.conversation_members cm
+    where cm.conversation_id = c.id
+      and cm.user_id <> auth.uid()
+    order by cm.joined_at
+    limit 1
+  ) other on true
+  left join public.profiles p on p.id = other.user_id
+  left join lateral (
+    select m.body, m.sender_id
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) last_message on true
+  where me.user_id = auth.uid()
+    and (
+      p_before is null
+      or c.last_message_at < p_before
+      or (c.last_message_at = p_before and c.id < p_before_id)
+    )
+  order by c.last_message_at desc, c.id desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
+
+grant execute on function public.get_inbox(integer, timestamptz, uuid) to authenticated;
+
+-- Marks every message in the conversation as read for the caller
+create or replace function public.mark_conversation_read(p_conversation_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.conversation_members
+  set last_read_at = now()
+  where conversation_id = p_conversation_id
+    and user_id = auth.uid();
+$$;
+
+grant execute on function public.mark_conversation_read(uuid) to authenticated;
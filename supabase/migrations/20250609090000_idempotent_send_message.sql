@@ -0,0 +1,34 @@
+-- Idempotent message sending for the client outbox. The client assigns the message
+-- id up front, so replaying a queued send after a dropped response is harmless.
+
+create or replace function public.send_message(
+  p_id uuid,
+  p_conversation_id uuid,
+  p_body text
+)
+returns public.messages
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_message public.messages;
+begin
+  insert into public.messages (id, conversation_id, sender_id, body)
+  values (p_id, p_conversation_id, auth.uid(), p_body)
+  on conflict (id) do nothing;
+
+  select * into v_message
+  from public.messages
+  where id = p_id
+    and sender_id = auth.uid();
+
+  if v_message.id is null then
+    raise exception 'Message id already in use' using errcode = '23505';
+  end if;
+
+  return v_message;
+end;
+$$;
+
+grant execute on function public.send_message(uuid, uuid, text) to authenticated;
@@ -0,0 +1,418 @@
+-- Group conversations: names, avatars, member roles and system messages.
+-- Every group mutation goes through a security definer RPC that checks the
+-- caller's role; permission failures raise SQLSTATE 42501.
+
+alter table public.conversations
+  add column is_group boolean not null default false,
+  add column name text check (name is null or char_length(name) between 1 and 100),
+  add column avatar_url text,
+  add column created_by uuid references auth.users (id) on delete set null;
+
+alter table public.conversation_members
+  add column role text not null default 'member' check (role in ('member', 'admin'));
+
+alter table public.messages
+  add column kind text not null default 'text' check (kind in ('text', 'system')),
+  add column metadata jsonb;
+
+-- Clients may only send plain text messages; system messages come from the RPCs below
+drop policy "Members can send messages as themselves" on public.messages;
+
+create policy "Members can send messages as themselves"
+  on public.messages for insert
+  with check (
+    sender_id = auth.uid()
+    and kind = 'text'
+    and metadata is null
+    and public.is_conversation_member(conversation_id)
+  );
+
+create or replace function public.is_conversation_admin(p_conversation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.conversation_members
+    where conversation_id = p_conversation_id
+      and user_id = auth.uid()
+      and role = 'admin'
+  );
+$$;
+
+-- Raises unless the caller is an admin of the given group
+create or replace function public.assert_group_admin(p_conversation_id uuid)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.conversations
+    where id = p_conversation_id and is_group
+  ) then
+    raise exception 'Group not found' using errcode = 'P0002';
+  end if;
+
+  if not public.is_conversation_admin(p_conversation_id) then
+    raise exception 'Only group admins can do this' using errcode = '42501';
+  end if;
+end;
+$$;
+
+-- Records a group event such as "X added Y". Display names are captured at the
+-- time of the event so the message still reads correctly after renames.
+create or replace function public.insert_system_message(
+  p_conversation_id uuid,
+  p_event text,
+  p_target_id uuid default null,
+  p_extra jsonb default '{}'::jsonb
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.messages (conversation_id, sender_id, body, kind, metadata)
+  values (
+    p_conversation_id,
+    auth.uid(),
+    p_event,
+    'system',
+    jsonb_build_object(
+      'event', p_event,
+      'actor_id', auth.uid(),
+      'actor_name', (select display_name from public.profiles where id = auth.uid()),
+      'target_id', p_target_id,
+      'target_name', (select display_name from public.profiles where id = p_target_id)
+    ) || p_extra
+  );
+$$;
+
+revoke execute on function public.insert_system_message(uuid, text, uuid, jsonb) from public, anon, authenticated;
+
+create or replace function public.create_group_conversation(
+  p_name text,
+  p_member_ids uuid[],
+  p_avatar_url text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation_id uuid;
+  v_member_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if coalesce(char_length(trim(p_name)), 0) = 0 then
+    raise exception 'Group name is required' using errcode = '22023';
+  end if;
+
+  insert into public.conversations (is_group, name, avatar_url, created_by)
+  values (true, trim(p_name), p_avatar_url, auth.uid())
+  returning id into v_conversation_id;
+
+  insert into public.conversation_members (conversation_id, user_id, role)
+  values (v_conversation_id, auth.uid(), 'admin');
+
+  perform public.insert_system_message(v_conversation_id, 'group_created');
+
+  foreach v_member_id in array coalesce(p_member_ids, '{}') loop
+    if v_member_id <> auth.uid() then
+      insert into public.conversation_members (conversation_id, user_id)
+      values (v_conversation_id, v_member_id)
+      on conflict do nothing;
+      perform public.insert_system_message(v_conversation_id, 'member_added', v_member_id);
+    end if;
+  end loop;
+
+  return v_conversation_id;
+end;
+$$;
+
+create or replace function public.update_group(
+  p_conversation_id uuid,
+  p_name text default null,
+  p_avatar_url text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_group_admin(p_conversation_id);
+
+  if p_name is not null and trim(p_name) <> '' then
+    update public.conversations set name = trim(p_name) where id = p_conversation_id;
+    perform public.insert_system_message(
+      p_conversation_id, 'group_renamed', null, jsonb_build_object('name', trim(p_name))
+    );
+  end if;
+
+  if p_avatar_url is not null then
+    update public.conversations set avatar_url = p_avatar_url where id = p_conversation_id;
+    perform public.insert_system_message(p_conversation_id, 'avatar_changed');
+  end if;
+end;
+$$;
+
+create or replace function public.add_group_members(
+  p_conversation_id uuid,
+  p_user_ids uuid[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  perform public.assert_group_admin(p_conversation_id);
+
+  foreach v_user_id in array coalesce(p_user_ids, '{}') loop
+    insert into public.conversation_members (conversation_id, user_id)
+    values (p_conversation_id, v_user_id)
+    on conflict do nothing;
+    if found then
+      perform public.insert_system_message(p_conversation_id, 'member_added', v_user_id);
+    end if;
+  end loop;
+end;
+$$;
+
+create or replace function public.remove_group_member(
+  p_conversation_id uuid,
+  p_user_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_group_admin(p_conversation_id);
+
+  if p_user_id = auth.uid() then
+    raise exception 'Use leave_group to leave a group' using errcode = '22023';
+  end if;
+
+  -- Record the event first so it is visible to the removed member's last fetch
+  perform public.insert_system_message(p_conversation_id, 'member_removed', p_user_id);
+
+  delete from public.conversation_members
+  where conversation_id = p_conversation_id
+    and user_id = p_user_id;
+
+  if not found then
+    raise exception 'Not a member of this group' using errcode = '22023';
+  end if;
+end;
+$$;
+
+create or replace function public.set_group_member_role(
+  p_conversation_id uuid,
+  p_user_id uuid,
+  p_role text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.assert_group_admin(p_conversation_id);
+
+  if p_role not in ('member', 'admin') then
+    raise exception 'Invalid role' using errcode = '22023';
+  end if;
+
+  -- A group always keeps an admin; the last one has to promote someone first
+  if p_role = 'member' and not exists (
+    select 1 from public.conversation_members
+    where conversation_id = p_conversation_id
+      and role = 'admin'
+      and user_id <> p_user_id
+  ) then
+    raise exception 'A group needs at least one admin' using errcode = '22023';
+  end if;
+
+  update public.conversation_members
+  set role = p_role
+  where conversation_id = p_conversation_id
+    and user_id = p_user_id;
+
+  if not found then
+    raise exception 'Not a member of this group' using errcode = '22023';
+  end if;
+
+  perform public.insert_system_message(
+    p_conversation_id,
+    case when p_role = 'admin' then 'admin_promoted' else 'admin_demoted' end,
+    p_user_id
+  );
+end;
+$$;
+
+-- Leaves a group. If the last admin leaves, the longest-standing member takes over.
+create or replace function public.leave_group(p_conversation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.conversations
+    where id = p_conversation_id and is_group
+  ) then
+    raise exception 'Group not found' using errcode = 'P0002';
+  end if;
+
+  if not public.is_conversation_member(p_conversation_id) then
+    raise exception 'Not a member of this group' using errcode = '42501';
+  end if;
+
+  perform public.insert_system_message(p_conversation_id, 'member_left');
+
+  delete from public.conversation_members
+  where conversation_id = p_conversation_id
+    and user_id = auth.uid();
+
+  if not exists (
+    select 1 from public.conversation_members
+    where conversation_id = p_conversation_id and role = 'admin'
+  ) then
+    update public.conversation_members
+    set role = 'admin'
+    where (conversation_id, user_id) = (
+      select conversation_id, user_id
+      from public.conversation_members
+      where conversation_id = p_conversation_id
+      order by joined_at
+      limit 1
+    );
+  end if;
+end;
+$$;
+
+grant execute on function public.create_group_conversation(text, uuid[], text) to authenticated;
+grant execute on function public.update_group(uuid, text, text) to authenticated;
+grant execute on function public.add_group_members(uuid, uuid[]) to authenticated;
+grant execute on function public.remove_group_member(uuid, uuid) to authenticated;
+grant execute on function public.set_group_member_role(uuid, uuid, text) to authenticated;
+grant execute on function public.leave_group(uuid) to authenticated;
+
+-- The inbox shows the group's own name and avatar instead of another participant
+drop function public.get_inbox(integer, timestamptz, uuid);
+
+create function public.get_inbox(
+  p_limit integer default 20,
+  p_before timestamptz default null,
+  p_before_id uuid default null
+)
+returns table (
+  conversation_id uuid,
+  last_message_at timestamptz,
+  is_group boolean,
+  group_name text,
+  group_avatar_url text,
+  other_user_id uuid,
+  other_display_name text,
+  other_username text,
+  other_avatar_url text,
+  last_message_body text,
+  last_message_kind text,
+  last_message_metadata jsonb,
+  last_message_sender_id uuid,
+  unread_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id,
+    c.last_message_at,
+    c.is_group,
+    c.name,
+    c.avatar_url,
+    other.user_id,
+    p.display_name,
+    p.username,
+    p.avatar_url,
+    last_message.body,
+    last_message.kind,
+    last_message.metadata,
+    last_message.sender_id,
+    (
+      select count(*)::integer
+      from public.messages m
+      where m.conversation_id = c.id
+        and m.created_at > me.last_read_at
+        and m.sender_id <> auth.uid()
+    )
+  from public.conversation_members me
+  join public.conversations c on c.id = me.conversation_id
+  left join lateral (
+    select cm.user_id
+    from public.conversation_members cm
+    where cm.conversation_id = c.id
+      and cm.user_id <> auth.uid()
+      and not c.is_group
+    order by cm.joined_at
+    limit 1
+  ) other on true
+  left join public.profiles p on p.id = other.user_id
+  left join lateral (
+    select m.body, m.kind, m.metadata, m.sender_id
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) last_message on true
+  where me.user_id = auth.uid()
+    and (
+      p_before is null
+      or c.last_message_at < p_before
+      or (c.last_message_at = p_before and c.id < p_before_id)
+    )
+  order by c.last_message_at desc, c.id desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
+
+grant execute on function public.get_inbox(integer, timestamptz, uuid) to authenticated;
+
+-- Group avatars are world-readable; only group admins may write them.
+-- Objects are stored under <conversation_id>/<file name>.
+insert into storage.buckets (id, name, public)
+values ('group-avatars', 'group-avatars', true)
+on conflict (id) do nothing;
+
+create policy "Group admins can upload group avatars"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'group-avatars'
+    and public.is_conversation_admin(((storage.foldername(name))[1])::uuid)
+  );
+
+create policy "Group admins can replace group avatars"
+  on storage.objects for update
+  to authenticated
+  using (
+    bucket_id = 'group-avatars'
+    and public.is_conversation_admin(((storage.foldername(name))[1])::uuid)
+  );
@@ -0,0 +1,141 @@
+-- Last-seen timestamps and per-user privacy settings.
+-- Live online state itself is carried by Realtime presence and is not stored.
+
+create table public.privacy_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  hide_last_seen boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.privacy_settings enable row level security;
+
+create policy "Users can read their own privacy settings"
+  on public.privacy_settings for select
+  using (user_id = auth.uid());
+
+create policy "Users can create their own privacy settings"
+  on public.privacy_settings for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own privacy settings"
+  on public.privacy_settings for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create table public.user_presence (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  last_seen_at timestamptz not null default now()
+);
+
+-- Only reachable through the functions below, which apply the privacy settings
+alter table public.user_presence enable row level security;
+
+-- Records that the caller was just active
+create or replace function public.touch_last_seen()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.user_presence (user_id, last_seen_at)
+  values (auth.uid(), now())
+  on conflict (user_id) do update set last_seen_at = excluded.last_seen_at;
+$$;
+
+-- Last-seen times for the given users; null for anyone who hides theirs
+create or replace function public.get_last_seen(p_user_ids uuid[])
+returns table (user_id uuid, last_seen_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select up.user_id, up.last_seen_at
+  from public.user_presence up
+  left join public.privacy_settings ps on ps.user_id = up.user_id
+  where up.user_id = any (p_user_ids)
+    and not coalesce(ps.hide_last_seen, false);
+$$;
+
+grant execute on function public.touch_last_seen() to authenticated;
+grant execute on function public.get_last_seen(uuid[]) to authenticated;
+
+-- Whether the caller may see a user's live online state: their own, or that
+-- of someone they share a conversation with who does not hide it
+create or replace function public.can_see_presence_of(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_user_id = auth.uid()
+    or (
+      not coalesce(
+        (select hide_last_seen from public.privacy_settings where user_id = p_user_id),
+        false
+      )
+      and exists (
+        select 1
+        from public.conversation_members mine
+        join public.conversation_members theirs on theirs.conversation_id = mine.conversation_id
+        where mine.user_id = auth.uid()
+          and theirs.user_id = p_user_id
+      )
+    );
+$$;
+
+-- The id after "<prefix>:" in the topic of the Realtime channel being joined,
+-- or null for other topics
+create or replace function public.realtime_topic_id(p_prefix text)
+returns uuid
+language plpgsql
+stable
+as $$
+begin
+  if realtime.topic() not like p_prefix || ':%' then
+    return null;
+  end if;
+  return substr(realtime.topic(), char_length(p_prefix) + 2)::uuid;
+exception
+  when invalid_text_representation then
+    return null;
+end;
+$$;
+
+grant execute on function public.can_see_presence_of(uuid) to authenticated;
+grant execute on function public.realtime_topic_id(text) to authenticated;
+
+-- Presence and typing use private Realtime channels. Everyone announces
+-- themselves on "presence:<user_id>" and typing goes to "typing:<conversation_id>".
+create policy "Users can announce their own presence"
+  on realtime.messages for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'presence'
+    and public.realtime_topic_id('presence') = auth.uid()
+  );
+
+create policy "Users can see the presence of people they talk to"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'presence'
+    and public.can_see_presence_of(public.realtime_topic_id('presence'))
+  );
+
+create policy "Members can send typing events"
+  on realtime.messages for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and public.is_conversation_member(public.realtime_topic_id('typing'))
+  );
+
+create policy "Members can receive typing events"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'broadcast'
+    and public.is_conversation_member(public.realtime_topic_id('typing'))
+  );
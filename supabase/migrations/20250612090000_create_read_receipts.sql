@@ -0,0 +1,107 @@
+-- Per-member read and delivery markers, and the read receipts privacy setting.
+-- Markers are only exposed through get_read_markers, which applies the
+-- reciprocity rule: members who hide their receipts don't see anyone else's.
+
+alter table public.conversation_members
+  add column last_read_message_id uuid references public.messages (id) on delete set null,
+  add column last_delivered_at timestamptz not null default now();
+
+alter table public.privacy_settings
+  add column read_receipts boolean not null default true;
+
+-- Members may still list each other, but not read the raw markers
+revoke select on public.conversation_members from anon, authenticated;
+grant select (conversation_id, user_id, joined_at, role) on public.conversation_members to authenticated;
+
+-- Advances the caller's read marker to p_message_id (or to the newest message
+-- when null). Markers never move backwards.
+drop function public.mark_conversation_read(uuid);
+
+create function public.mark_conversation_read(
+  p_conversation_id uuid,
+  p_message_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_message public.messages;
+begin
+  select * into v_message
+  from public.messages
+  where conversation_id = p_conversation_id
+    and (p_message_id is null or id = p_message_id)
+  order by created_at desc, id desc
+  limit 1;
+
+  if v_message.id is null then
+    return;
+  end if;
+
+  update public.conversation_members
+  set last_read_message_id = v_message.id,
+      last_read_at = v_message.created_at,
+      last_delivered_at = greatest(last_delivered_at, v_message.created_at)
+  where conversation_id = p_conversation_id
+    and user_id = auth.uid()
+    and last_read_at < v_message.created_at;
+end;
+$$;
+
+grant execute on function public.mark_conversation_read(uuid, uuid) to authenticated;
+
+-- Records that every message in the conversation so far reached the caller's device
+create or replace function public.mark_conversation_delivered(p_conversation_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.conversation_members
+  set last_delivered_at = now()
+  where conversation_id = p_conversation_id
+    and user_id = auth.uid();
+$$;
+
+grant execute on function public.mark_conversation_delivered(uuid) to authenticated;
+
+create or replace function public.get_read_markers(p_conversation_id uuid)
+returns table (
+  user_id uuid,
+  last_read_message_id uuid,
+  last_read_at timestamptz,
+  last_delivered_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_caller_shares boolean;
+begin
+  if not public.is_conversation_member(p_conversation_id) then
+    raise exception 'Not a member of this conversation' using errcode = '42501';
+  end if;
+
+  select coalesce(
+    (select read_receipts from public.privacy_settings where privacy_settings.user_id = auth.uid()),
+    true
+  ) into v_caller_shares;
+
+  return query
+  select
+    cm.user_id,
+    case when v_caller_shares and coalesce(ps.read_receipts, true) then cm.last_read_message_id end,
+    case when v_caller_shares and coalesce(ps.read_receipts, true) then cm.last_read_at end,
+    cm.last_delivered_at
+  from public.conversation_members cm
+  left join public.privacy_settings ps on ps.user_id = cm.user_id
+  where cm.conversation_id = p_conversation_id
+    and cm.user_id <> auth.uid();
+end;
+$$;
+
+grant execute on function public.get_read_markers(uuid) to authenticated;
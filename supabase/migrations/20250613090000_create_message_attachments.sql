@@ -0,0 +1,95 @@
+-- Photo and file attachments on messages, stored in a private bucket.
+-- Objects live under <conversation_id>/<message_id>/<file name> and are only
+-- readable and writable by members of that conversation.
+
+alter table public.messages
+  add column attachment jsonb;
+
+-- A message needs text, an attachment, or both
+alter table public.messages
+  drop constraint messages_body_check;
+
+alter table public.messages
+  add constraint messages_body_check check (
+    char_length(body) <= 4000
+    and (char_length(body) > 0 or attachment is not null)
+  );
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('chat-attachments', 'chat-attachments', false, 26214400)
+on conflict (id) do nothing;
+
+create policy "Members can read conversation attachments"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and public.is_conversation_member(((storage.foldername(name))[1])::uuid)
+  );
+
+create policy "Members can upload conversation attachments"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'chat-attachments'
+    and public.is_conversation_member(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Lets an interrupted upload be retried over the uploader's own object
+create policy "Uploaders can replace their attachments"
+  on storage.objects for update
+  to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and owner_id = auth.uid()::text
+    and public.is_conversation_member(((storage.foldername(name))[1])::uuid)
+  );
+
+-- send_message gains an optional attachment. Its paths must point into the
+-- conversation's own folder so a message cannot reference another chat's files.
+drop function public.send_message(uuid, uuid, text);
+
+create function public.send_message(
+  p_id uuid,
+  p_conversation_id uuid,
+  p_body text,
+  p_attachment jsonb default null
+)
+returns public.messages
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_message public.messages;
+  v_prefix text := p_conversation_id::text || '/' || p_id::text || '/';
+begin
+  if p_attachment is not null and (
+    not starts_with(coalesce(p_attachment ->> 'path', ''), v_prefix)
+    or (
+      p_attachment ? 'thumbnail_path'
+      and p_attachment ->> 'thumbnail_path' is not null
+      and not starts_with(p_attachment ->> 'thumbnail_path', v_prefix)
+    )
+  ) then
+    raise exception 'Attachment does not belong to this message' using errcode = '22023';
+  end if;
+
+  insert into public.messages (id, conversation_id, sender_id, body, attachment)
+  values (p_id, p_conversation_id, auth.uid(), coalesce(p_body, ''), p_attachment)
+  on conflict (id) do nothing;
+
+  select * into v_message
+  from public.messages
+  where id = p_id
+    and sender_id = auth.uid();
+
+  if v_message.id is null then
+    raise exception 'Message id already in use' using errcode = '23505';
+  end if;
+
+  return v_message;
+end;
+$$;
+
+grant execute on function public.send_message(uuid, uuid, text, jsonb) to authenticated;
@@ -0,0 +1,142 @@
+-- Public profile pages: a short bio, the follow graph behind follower counts,
+-- and blocks. get_profile assembles everything a profile screen shows in one call.
+
+alter table public.profiles
+  add column if not exists bio text check (char_length(bio) <= 160);
+
+create table public.follows (
+  follower_id uuid not null references auth.users (id) on delete cascade,
+  followee_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (follower_id, followee_id),
+  check (follower_id <> followee_id)
+);
+
+create index follows_followee_id_idx on public.follows (followee_id, created_at desc);
+
+alter table public.follows enable row level security;
+
+create policy "Follows are visible to signed-in users"
+  on public.follows for select
+  to authenticated
+  using (true);
+
+create policy "Users can follow others"
+  on public.follows for insert
+  with check (follower_id = auth.uid());
+
+create policy "Users can unfollow"
+  on public.follows for delete
+  using (follower_id = auth.uid());
+
+create table public.blocks (
+  blocker_id uuid not null references auth.users (id) on delete cascade,
+  blocked_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  check (blocker_id <> blocked_id)
+);
+
+alter table public.blocks enable row level security;
+
+create policy "Users can see who they blocked"
+  on public.blocks for select
+  using (blocker_id = auth.uid());
+
+create policy "Users can block others"
+  on public.blocks for insert
+  with check (blocker_id = auth.uid());
+
+create policy "Users can unblock"
+  on public.blocks for delete
+  using (blocker_id = auth.uid());
+
+-- Blocking someone also ends any follow between the two
+create or replace function public.remove_follows_on_block()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.follows
+  where (follower_id = new.blocker_id and followee_id = new.blocked_id)
+     or (follower_id = new.blocked_id and followee_id = new.blocker_id);
+  return new;
+end;
+$$;
+
+create trigger blocks_remove_follows
+  after insert on public.blocks
+  for each row execute function public.remove_follows_on_block();
+
+-- Profile page by username. Returns no row for unknown usernames. When either
+-- side has blocked the other only the id, username and block flags are filled in.
+create or replace function public.get_profile(p_username text)
+returns table (
+  id uuid,
+  display_name text,
+  username text,
+  avatar_url text,
+  bio text,
+  email_domain text,
+  follower_count bigint,
+  following_count bigint,
+  is_following boolean,
+  is_blocked boolean,
+  has_blocked_me boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles;
+  v_is_blocked boolean;
+  v_has_blocked_me boolean;
+begin
+  select * into v_profile
+  from public.profiles p
+  where lower(p.username) = lower(p_username);
+
+  if v_profile.id is null then
+    return;
+  end if;
+
+  v_is_blocked := exists (
+    select 1 from public.blocks b
+    where b.blocker_id = auth.uid() and b.blocked_id = v_profile.id
+  );
+  v_has_blocked_me := exists (
+    select 1 from public.blocks b
+    where b.blocker_id = v_profile.id and b.blocked_id = auth.uid()
+  );
+
+  if v_is_blocked or v_has_blocked_me then
+    return query
+    select v_profile.id, null::text, v_profile.username, null::text, null::text, null::text,
+      0::bigint, 0::bigint, false, v_is_blocked, v_has_blocked_me;
+    return;
+  end if;
+
+  return query
+  select
+    v_profile.id,
+    v_profile.display_name,
+    v_profile.username,
+    v_profile.avatar_url,
+    v_profile.bio,
+    (select lower(split_part(u.email, '@', 2)) from auth.users u where u.id = v_profile.id),
+    (select count(*) from public.follows f where f.followee_id = v_profile.id),
+    (select count(*) from public.follows f where f.follower_id = v_profile.id),
+    exists (
+      select 1 from public.follows f
+      where f.follower_id = auth.uid() and f.followee_id = v_profile.id
+    ),
+    false,
+    false;
+end;
+$$;
+
+grant execute on function public.get_profile(text) to authenticated;
@@ -0,0 +1,333 @@
+-- Follow requests for private accounts, and paginated follower/following lists.
+-- Following now goes through follow_user so private accounts cannot be
+-- followed without their approval.
+
+alter table public.privacy_settings
+  add column private_account boolean not null default false;
+
+create table public.follow_requests (
+  requester_id uuid not null references auth.users (id) on delete cascade,
+  target_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (requester_id, target_id),
+  check (requester_id <> target_id)
+);
+
+create index follow_requests_target_id_idx on public.follow_requests (target_id, created_at desc);
+
+alter table public.follow_requests enable row level security;
+
+create policy "Users can see requests they sent or received"
+  on public.follow_requests for select
+  using (requester_id = auth.uid() or target_id = auth.uid());
+
+drop policy "Users can follow others" on public.follows;
+
+-- Anyone could read every follow, which would bypass private accounts and
+-- blocks. Users now only see their own; other lists go through get_follow_list.
+drop policy "Follows are visible to signed-in users" on public.follows;
+
+create policy "Users can see their own follows"
+  on public.follows for select
+  using (follower_id = auth.uid() or followee_id = auth.uid());
+
+create index follows_follower_id_idx on public.follows (follower_id, created_at desc);
+
+create or replace function public.is_private_account(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select private_account from public.privacy_settings where user_id = p_user_id),
+    false
+  );
+$$;
+
+create or replace function public.is_blocked_between(p_a uuid, p_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.blocks
+    where (blocker_id = p_a and blocked_id = p_b)
+       or (blocker_id = p_b and blocked_id = p_a)
+  );
+$$;
+
+-- Follow a user, or ask to if their account is private.
+-- Returns the resulting state: 'following' or 'requested'.
+create or replace function public.follow_user(p_user_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id = auth.uid() then
+    raise exception 'Cannot follow yourself' using errcode = '22023';
+  end if;
+  if not exists (select 1 from public.profiles where id = p_user_id) then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+  if public.is_blocked_between(auth.uid(), p_user_id) then
+    raise exception 'Cannot follow this user' using errcode = '42501';
+  end if;
+
+  if exists (
+    select 1 from public.follows where follower_id = auth.uid() and followee_id = p_user_id
+  ) then
+    return 'following';
+  end if;
+
+  if public.is_private_account(p_user_id) then
+    insert into public.follow_requests (requester_id, target_id)
+    values (auth.uid(), p_user_id)
+    on conflict do nothing;
+    return 'requested';
+  end if;
+
+  insert into public.follows (follower_id, followee_id)
+  values (auth.uid(), p_user_id)
+  on conflict do nothing;
+  return 'following';
+end;
+$$;
+
+-- Unfollow a user or withdraw a pending request
+create or replace function public.unfollow_user(p_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.follows where follower_id = auth.uid() and followee_id = p_user_id;
+  delete from public.follow_requests where requester_id = auth.uid() and target_id = p_user_id;
+$$;
+
+-- Approve or deny a request sent to the caller
+create or replace function public.respond_to_follow_request(p_requester_id uuid, p_approve boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.follow_requests
+  where requester_id = p_requester_id and target_id = auth.uid();
+
+  if not found then
+    raise exception 'Follow request not found' using errcode = 'P0002';
+  end if;
+
+  if p_approve then
+    insert into public.follows (follower_id, followee_id)
+    values (p_requester_id, auth.uid())
+    on conflict do nothing;
+  end if;
+end;
+$$;
+
+-- One page of a user's followers or of the people they follow, newest first,
+-- optionally filtered by a username or display name prefix. Private accounts
+-- only show their lists to themselves and their followers.
+create or replace function public.get_follow_list(
+  p_user_id uuid,
+  p_kind text,
+  p_query text default null,
+  p_limit int default 30,
+  p_before timestamptz default null,
+  p_before_id uuid default null
+)
+returns table (
+  user_id uuid,
+  display_name text,
+  username text,
+  avatar_url text,
+  followed_at timestamptz,
+  is_following boolean,
+  has_requested boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_kind not in ('followers', 'following') then
+    raise exception 'Unknown list %', p_kind using errcode = '22023';
+  end if;
+  if public.is_blocked_between(auth.uid(), p_user_id) then
+    raise exception 'Cannot view this user' using errcode = '42501';
+  end if;
+  if p_user_id <> auth.uid()
+    and public.is_private_account(p_user_id)
+    and not exists (
+      select 1 from public.follows where follower_id = auth.uid() and followee_id = p_user_id
+    ) then
+    raise exception 'This account is private' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    p.id,
+    p.display_name,
+    p.username,
+    p.avatar_url,
+    f.created_at,
+    exists (
+      select 1 from public.follows mine
+      where mine.follower_id = auth.uid() and mine.followee_id = p.id
+    ),
+    exists (
+      select 1 from public.follow_requests r
+      where r.requester_id = auth.uid() and r.target_id = p.id
+    )
+  from public.follows f
+  join public.profiles p
+    on p.id = case when p_kind = 'followers' then f.follower_id else f.followee_id end
+  where (case when p_kind = 'followers' then f.followee_id else f.follower_id end) = p_user_id
+    and not public.is_blocked_between(auth.uid(), p.id)
+    and (
+      coalesce(p_query, '') = ''
+      or p.username ilike p_query || '%'
+      or p.display_name ilike p_query || '%'
+    )
+    and (
+      p_before is null
+      or f.created_at < p_before
+      or (f.created_at = p_before and p.id < p_before_id)
+    )
+  order by f.created_at desc, p.id desc
+  limit least(greatest(p_limit, 1), 100);
+end;
+$$;
+
+-- Pending requests sent to the caller, newest first
+create or replace function public.get_follow_requests()
+returns table (
+  user_id uuid,
+  display_name text,
+  username text,
+  avatar_url text,
+  requested_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.display_name, p.username, p.avatar_url, r.created_at
+  from public.follow_requests r
+  join public.profiles p on p.id = r.requester_id
+  where r.target_id = auth.uid()
+  order by r.created_at desc;
+$$;
+
+-- get_profile also reports whether the account is private and whether the
+-- caller has a pending request to follow it
+drop function public.get_profile(text);
+
+create function public.get_profile(p_username text)
+returns table (
+  id uuid,
+  display_name text,
+  username text,
+  avatar_url text,
+  bio text,
+  email_domain text,
+  follower_count bigint,
+  following_count bigint,
+  is_following boolean,
+  has_requested boolean,
+  is_private boolean,
+  is_blocked boolean,
+  has_blocked_me boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles;
+  v_is_blocked boolean;
+  v_has_blocked_me boolean;
+begin
+  select * into v_profile
+  from public.profiles p
+  where lower(p.username) = lower(p_username);
+
+  if v_profile.id is null then
+    return;
+  end if;
+
+  v_is_blocked := exists (
+    select 1 from public.blocks b
+    where b.blocker_id = auth.uid() and b.blocked_id = v_profile.id
+  );
+  v_has_blocked_me := exists (
+    select 1 from public.blocks b
+    where b.blocker_id = v_profile.id and b.blocked_id = auth.uid()
+  );
+
+  if v_is_blocked or v_has_blocked_me then
+    return query
+    select v_profile.id, null::text, v_profile.username, null::text, null::text, null::text,
+      0::bigint, 0::bigint, false, false, false, v_is_blocked, v_has_blocked_me;
+    return;
+  end if;
+
+  return query
+  select
+    v_profile.id,
+    v_profile.display_name,
+    v_profile.username,
+    v_profile.avatar_url,
+    v_profile.bio,
+    (select lower(split_part(u.email, '@', 2)) from auth.users u where u.id = v_profile.id),
+    (select count(*) from public.follows f where f.followee_id = v_profile.id),
+    (select count(*) from public.follows f where f.follower_id = v_profile.id),
+    exists (
+      select 1 from public.follows f
+      where f.follower_id = auth.uid() and f.followee_id = v_profile.id
+    ),
+    exists (
+      select 1 from public.follow_requests r
+      where r.requester_id = auth.uid() and r.target_id = v_profile.id
+    ),
+    public.is_private_account(v_profile.id),
+    false,
+    false;
+end;
+$$;
+
+-- Blocking also drops pending requests between the two users
+create or replace function public.remove_follows_on_block()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.follows
+  where (follower_id = new.blocker_id and followee_id = new.blocked_id)
+     or (follower_id = new.blocked_id and followee_id = new.blocker_id);
+  delete from public.follow_requests
+  where (requester_id = new.blocker_id and target_id = new.blocked_id)
+     or (requester_id = new.blocked_id and target_id = new.blocker_id);
+  return new;
+end;
+$$;
+
+grant execute on function public.follow_user(uuid) to authenticated;
+grant execute on function public.unfollow_user(uuid) to authenticated;
+grant execute on function public.respond_to_follow_request(uuid, boolean) to authenticated;
+grant execute on function public.get_follow_list(uuid, text, text, int, timestamptz, uuid) to authenticated;
+grant execute on function public.get_follow_requests() to authenticated;
+grant execute on function public.get_profile(text) to authenticated;
@@ -0,0 +1,330 @@
+-- Campus feed: short text and image posts, likes and comments.
+-- A post is visible to its author, and to everyone else unless the author's
+-- account is private (then only followers) or either side blocked the other.
+-- The feed itself shows visible posts from people you follow and from your
+-- own university, identified by the author's email domain at posting time.
+
+create table public.posts (
+  id uuid primary key default gen_random_uuid(),
+  author_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  body text not null default '' check (char_length(body) <= 500),
+  image_path text,
+  image_width int,
+  image_height int,
+  university_domain text not null default '',
+  like_count int not null default 0,
+  comment_count int not null default 0,
+  created_at timestamptz not null default now(),
+  check (char_length(body) > 0 or image_path is not null),
+  -- Posts may only point at images in their author's own folder
+  check (image_path is null or image_path like author_id::text || '/%')
+);
+
+create index posts_created_at_idx on public.posts (created_at desc, id desc);
+create index posts_author_id_idx on public.posts (author_id, created_at desc);
+create index posts_university_domain_idx on public.posts (university_domain, created_at desc);
+create index posts_image_path_idx on public.posts (image_path) where image_path is not null;
+
+create table public.post_likes (
+  post_id uuid not null references public.posts (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (post_id, user_id)
+);
+
+create table public.post_comments (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.posts (id) on delete cascade,
+  author_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  body text not null check (char_length(body) between 1 and 500),
+  created_at timestamptz not null default now()
+);
+
+create index post_comments_post_id_idx on public.post_comments (post_id, created_at);
+
+create or replace function public.can_view_posts_of(p_author_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_author_id = auth.uid()
+    or (
+      not public.is_blocked_between(auth.uid(), p_author_id)
+      and (
+        not public.is_private_account(p_author_id)
+        or exists (
+          select 1 from public.follows
+          where follower_id = auth.uid() and followee_id = p_author_id
+        )
+      )
+    );
+$$;
+
+create or replace function public.can_view_post(p_post_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.posts
+    where id = p_post_id and public.can_view_posts_of(author_id)
+  );
+$$;
+
+-- Stamp new posts with the author's university and keep counters in step
+create or replace function public.set_post_university()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.university_domain := coalesce(
+    (select lower(split_part(email, '@', 2)) from auth.users where id = new.author_id),
+    ''
+  );
+  new.like_count := 0;
+  new.comment_count := 0;
+  return new;
+end;
+$$;
+
+create trigger posts_set_university
+  before insert on public.posts
+  for each row execute function public.set_post_university();
+
+create or replace function public.update_post_like_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.posts
+  set like_count = like_count + case when tg_op = 'INSERT' then 1 else -1 end
+  where id = coalesce(new.post_id, old.post_id);
+  return null;
+end;
+$$;
+
+create trigger post_likes_count
+  after insert or delete on public.post_likes
+  for each row execute function public.update_post_like_count();
+
+create or replace function public.update_post_comment_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.posts
+  set comment_count = comment_count + case when tg_op = 'INSERT' then 1 else -1 end
+  where id = coalesce(new.post_id, old.post_id);
+  return null;
+end;
+$$;
+
+create trigger post_comments_count
+  after insert or delete on public.post_comments
+  for each row execute function public.update_post_comment_count();
+
+alter table public.posts enable row level security;
+alter table public.post_likes enable row level security;
+alter table public.post_comments enable row level security;
+
+create policy "Visible posts can be read"
+  on public.posts for select
+  to authenticated
+  using (public.can_view_posts_of(author_id));
+
+create policy "Users can create their own posts"
+  on public.posts for insert
+  with check (author_id = auth.uid());
+
+create policy "Users can delete their own posts"
+  on public.posts for delete
+  using (author_id = auth.uid());
+
+create policy "Likes on visible posts can be read"
+  on public.post_likes for select
+  to authenticated
+  using (public.can_view_post(post_id));
+
+create policy "Users can like visible posts"
+  on public.post_likes for insert
+  with check (user_id = auth.uid() and public.can_view_post(post_id));
+
+create policy "Users can remove their likes"
+  on public.post_likes for delete
+  using (user_id = auth.uid());
+
+create policy "Comments on visible posts can be read"
+  on public.post_comments for select
+  to authenticated
+  using (public.can_view_post(post_id) and public.can_view_posts_of(author_id));
+
+create policy "Users can comment on visible posts"
+  on public.post_comments for insert
+  with check (author_id = auth.uid() and public.can_view_post(post_id));
+
+create policy "Users can delete their own comments"
+  on public.post_comments for delete
+  using (author_id = auth.uid());
+
+-- One page of the caller's feed, newest first, keyed on (created_at, id)
+create or replace function public.get_feed(
+  p_limit int default 20,
+  p_before timestamptz default null,
+  p_before_id uuid default null
+)
+returns table (
+  id uuid,
+  author_id uuid,
+  author_display_name text,
+  author_username text,
+  author_avatar_url text,
+  body text,
+  image_path text,
+  image_width int,
+  image_height int,
+  like_count int,
+  comment_count int,
+  liked_by_me boolean,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with me as (
+    select lower(split_part(email, '@', 2)) as domain from auth.users where id = auth.uid()
+  )
+  select
+    p.id,
+    p.author_id,
+    pr.display_name,
+    pr.username,
+    pr.avatar_url,
+    p.body,
+    p.image_path,
+    p.image_width,
+    p.image_height,
+    p.like_count,
+    p.comment_count,
+    exists (select 1 from public.post_likes l where l.post_id = p.id and l.user_id = auth.uid()),
+    p.created_at
+  from public.posts p
+  join public.profiles pr on pr.id = p.author_id
+  where (
+      p.author_id = auth.uid()
+      or exists (
+        select 1 from public.follows f
+        where f.follower_id = auth.uid() and f.followee_id = p.author_id
+      )
+      or p.university_domain = (select domain from me)
+    )
+    and public.can_view_posts_of(p.author_id)
+    and (
+      p_before is null
+      or p.created_at < p_before
+      or (p.created_at = p_before and p.id < p_before_id)
+    )
+  order by p.created_at desc, p.id desc
+  limit least(greatest(p_limit, 1), 50);
+$$;
+
+-- A single post in the same shape as get_feed rows
+create or replace function public.get_post(p_post_id uuid)
+returns table (
+  id uuid,
+  author_id uuid,
+  author_display_name text,
+  author_username text,
+  author_avatar_url text,
+  body text,
+  image_path text,
+  image_width int,
+  image_height int,
+  like_count int,
+  comment_count int,
+  liked_by_me boolean,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.id,
+    p.author_id,
+    pr.display_name,
+    pr.username,
+    pr.avatar_url,
+    p.body,
+    p.image_path,
+    p.image_width,
+    p.image_height,
+    p.like_count,
+    p.comment_count,
+    exists (select 1 from public.post_likes l where l.post_id = p.id and l.user_id = auth.uid()),
+    p.created_at
+  from public.posts p
+  join public.profiles pr on pr.id = p.author_id
+  where p.id = p_post_id
+    and public.can_view_posts_of(p.author_id);
+$$;
+
+grant execute on function public.get_feed(int, timestamptz, uuid) to authenticated;
+grant execute on function public.get_post(uuid) to authenticated;
+
+-- Post images are private objects under <author_id>/; only the author can
+-- write. Anyone who can see a post can read its image, through a signed URL.
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('post-images', 'post-images', false, 10485760)
+on conflict (id) do nothing;
+
+create policy "Users can upload their own post images"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'post-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Listing a folder, and removing files, needs the objects to be visible
+create policy "Users can see their own post images"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'post-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Images of visible posts can be read"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'post-images'
+    and exists (
+      select 1 from public.posts p
+      where p.image_path = objects.name and public.can_view_posts_of(p.author_id)
+    )
+  );
+
+create policy "Users can delete their own post images"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'post-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- New posts are announced live so the feed can offer to show them
+alter publication supabase_realtime add table public.posts;
@@ -0,0 +1,294 @@
+-- In-app notifications. Rows are written by triggers on the tables that cause
+-- them, so clients can only read their own notifications and mark them read.
+-- Nobody is notified about their own actions or by someone they have blocked
+-- (or who has blocked them).
+
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  actor_id uuid not null references auth.users (id) on delete cascade,
+  type text not null check (
+    type in ('new_follower', 'follow_request', 'mention', 'reply', 'group_invite', 'post_reaction')
+  ),
+  post_id uuid references public.posts (id) on delete cascade,
+  conversation_id uuid references public.conversations (id) on delete cascade,
+  -- Extra details for the row text, e.g. a comment excerpt or group name
+  metadata jsonb,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Keyset pagination walks (created_at, id) backwards from the newest notification
+create index notifications_user_id_created_at_idx
+  on public.notifications (user_id, created_at desc, id desc);
+
+create index notifications_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Users can read their own notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users can delete their own notifications"
+  on public.notifications for delete
+  using (user_id = auth.uid());
+
+create or replace function public.notify(
+  p_user_id uuid,
+  p_actor_id uuid,
+  p_type text,
+  p_post_id uuid default null,
+  p_conversation_id uuid default null,
+  p_metadata jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id is null or p_actor_id is null or p_user_id = p_actor_id then
+    return;
+  end if;
+  if public.is_blocked_between(p_user_id, p_actor_id) then
+    return;
+  end if;
+
+  insert into public.notifications (user_id, actor_id, type, post_id, conversation_id, metadata)
+  values (p_user_id, p_actor_id, p_type, p_post_id, p_conversation_id, p_metadata);
+end;
+$$;
+
+revoke execute on function public.notify(uuid, uuid, text, uuid, uuid, jsonb) from public, anon, authenticated;
+
+-- Short excerpt of a post or comment body for the notification row
+create or replace function public.notification_excerpt(p_body text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when char_length(p_body) > 100 then left(p_body, 100) || '…'
+    else p_body
+  end;
+$$;
+
+-- Notify everyone @mentioned in a post or comment who can see the post
+create or replace function public.notify_mentions(
+  p_actor_id uuid,
+  p_post_id uuid,
+  p_body text,
+  p_skip_user_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_author_id uuid;
+  v_user_id uuid;
+begin
+  select author_id into v_author_id from public.posts where id = p_post_id;
+
+  for v_user_id in
+    select distinct p.id
+    from regexp_matches(coalesce(p_body, ''), '@([A-Za-z0-9_.]+)', 'g') as m (name)
+    join public.profiles p on lower(p.username) = lower(m.name[1])
+  loop
+    continue when v_user_id = p_skip_user_id;
+    -- Private authors' posts are only visible to their followers
+    continue when v_user_id <> v_author_id
+      and public.is_private_account(v_author_id)
+      and not exists (
+        select 1 from public.follows
+        where follower_id = v_user_id and followee_id = v_author_id
+      );
+
+    perform public.notify(
+      v_user_id,
+      p_actor_id,
+      'mention',
+      p_post_id,
+      null,
+      jsonb_build_object('excerpt', public.notification_excerpt(p_body))
+    );
+  end loop;
+end;
+$$;
+
+revoke execute on function public.notify_mentions(uuid, uuid, text, uuid) from public, anon, authenticated;
+
+create or replace function public.notify_on_follow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.notify(new.followee_id, new.follower_id, 'new_follower');
+  return null;
+end;
+$$;
+
+create trigger follows_notify
+  after insert on public.follows
+  for each row execute function public.notify_on_follow();
+
+create or replace function public.notify_on_follow_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.notify(new.target_id, new.requester_id, 'follow_request');
+  else
+    -- The request was approved, denied or withdrawn; nothing is left to act on
+    delete from public.notifications
+    where user_id = old.target_id
+      and actor_id = old.requester_id
+      and type = 'follow_request';
+  end if;
+  return null;
+end;
+$$;
+
+create trigger follow_requests_notify
+  after insert or delete on public.follow_requests
+  for each row execute function public.notify_on_follow_request();
+
+create or replace function public.notify_on_post()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.notify_mentions(new.author_id, new.id, new.body);
+  return null;
+end;
+$$;
+
+create trigger posts_notify
+  after insert on public.posts
+  for each row execute function public.notify_on_post();
+
+create or replace function public.notify_on_post_like()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.notify(
+    (select author_id from public.posts where id = new.post_id),
+    new.user_id,
+    'post_reaction',
+    new.post_id
+  );
+  return null;
+end;
+$$;
+
+create trigger post_likes_notify
+  after insert on public.post_likes
+  for each row execute function public.notify_on_post_like();
+
+create or replace function public.notify_on_post_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post_author_id uuid;
+begin
+  select author_id into v_post_author_id from public.posts where id = new.post_id;
+
+  perform public.notify(
+    v_post_author_id,
+    new.author_id,
+    'reply',
+    new.post_id,
+    null,
+    jsonb_build_object('excerpt', public.notification_excerpt(new.body))
+  );
+  -- The post author already hears about the reply
+  perform public.notify_mentions(new.author_id, new.post_id, new.body, v_post_author_id);
+  return null;
+end;
+$$;
+
+create trigger post_comments_notify
+  after insert on public.post_comments
+  for each row execute function public.notify_on_post_comment();
+
+-- Members added to a group by someone else, including at creation
+create or replace function public.notify_on_group_member()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+begin
+  select name into v_name
+  from public.conversations
+  where id = new.conversation_id and is_group;
+
+  if found and auth.uid() is not null then
+    perform public.notify(
+      new.user_id,
+      auth.uid(),
+      'group_invite',
+      null,
+      new.conversation_id,
+      jsonb_build_object('name', v_name)
+    );
+  end if;
+  return null;
+end;
+$$;
+
+create trigger conversation_members_notify
+  after insert on public.conversation_members
+  for each row execute function public.notify_on_group_member();
+
+-- Mark the given notifications read, or all of them when p_ids is null.
+-- Returns how many were still unread.
+create or replace function public.mark_notifications_read(p_ids uuid[] default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  update public.notifications
+  set read_at = now()
+  where user_id = auth.uid()
+    and read_at is null
+    and (p_ids is null or id = any (p_ids));
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.mark_notifications_read(uuid[]) to authenticated;
+
+-- Deletes carry the whole old row so the user_id filter applies to them too
+alter table public.notifications replica identity full;
+
+alter publication supabase_realtime add table public.notifications;
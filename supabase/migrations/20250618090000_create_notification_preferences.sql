@@ -0,0 +1,333 @@
+-- Per-category notification preferences, per-conversation mutes and quiet
+-- hours. should_notify is the single place these are applied: notify() uses it
+-- before writing a notification, and get_message_push_recipients uses it for
+-- chat messages, which never become notification rows.
+--
+-- Sending pushes is out of scope here: nothing reads notifications.push or
+-- get_message_push_recipients yet. The push settings only take effect once a
+-- sender (e.g. an edge function with the service role) is added.
+
+create or replace function public.is_valid_time_zone(p_time_zone text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (select 1 from pg_timezone_names where name = p_time_zone);
+$$;
+
+create table public.notification_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  messages_in_app boolean not null default true,
+  messages_push boolean not null default true,
+  mentions_in_app boolean not null default true,
+  mentions_push boolean not null default true,
+  followers_in_app boolean not null default true,
+  followers_push boolean not null default true,
+  group_activity_in_app boolean not null default true,
+  group_activity_push boolean not null default true,
+  feed_in_app boolean not null default true,
+  feed_push boolean not null default false,
+  -- No pushes between start and end, in the user's own time zone; ones that
+  -- would have gone out are dropped, not sent later. A start later than the
+  -- end spans midnight.
+  quiet_hours_enabled boolean not null default false,
+  quiet_hours_start time not null default '22:00',
+  quiet_hours_end time not null default '07:00',
+  time_zone text not null default 'UTC' check (public.is_valid_time_zone(time_zone)),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users can read their own notification preferences"
+  on public.notification_preferences for select
+  using (user_id = auth.uid());
+
+create policy "Users can create their own notification preferences"
+  on public.notification_preferences for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own notification preferences"
+  on public.notification_preferences for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- A null muted_until mutes the conversation until the user unmutes it
+create table public.conversation_mutes (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  muted_until timestamptz,
+  primary key (user_id, conversation_id)
+);
+
+alter table public.conversation_mutes enable row level security;
+
+create policy "Users can read their own mutes"
+  on public.conversation_mutes for select
+  using (user_id = auth.uid());
+
+create policy "Members can mute their conversations"
+  on public.conversation_mutes for insert
+  with check (user_id = auth.uid() and public.is_conversation_member(conversation_id));
+
+create policy "Users can change their own mutes"
+  on public.conversation_mutes for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and public.is_conversation_member(conversation_id));
+
+create policy "Users can unmute"
+  on public.conversation_mutes for delete
+  using (user_id = auth.uid());
+
+create or replace function public.is_conversation_muted(p_user_id uuid, p_conversation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.conversation_mutes
+    where user_id = p_user_id
+      and conversation_id = p_conversation_id
+      and (muted_until is null or muted_until > now())
+  );
+$$;
+
+create or replace function public.notification_category(p_type text)
+returns text
+language sql
+immutable
+as $$
+  select case p_type
+    when 'new_follower' then 'followers'
+    when 'follow_request' then 'followers'
+    when 'mention' then 'mentions'
+    when 'reply' then 'feed'
+    when 'post_reaction' then 'feed'
+    when 'group_invite' then 'group_activity'
+  end;
+$$;
+
+-- Whether the user wants to hear about something in the given category over
+-- the given channel ('in_app' or 'push'). Users who never saved preferences
+-- get the column defaults.
+create or replace function public.should_notify(
+  p_user_id uuid,
+  p_category text,
+  p_channel text,
+  p_conversation_id uuid default null
+)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_prefs public.notification_preferences;
+  v_local_time time;
+begin
+  if p_conversation_id is not null
+    and public.is_conversation_muted(p_user_id, p_conversation_id) then
+    return false;
+  end if;
+
+  select * into v_prefs from public.notification_preferences where user_id = p_user_id;
+  if not found then
+    v_prefs.messages_in_app := true;
+    v_prefs.messages_push := true;
+    v_prefs.mentions_in_app := true;
+    v_prefs.mentions_push := true;
+    v_prefs.followers_in_app := true;
+    v_prefs.followers_push := true;
+    v_prefs.group_activity_in_app := true;
+    v_prefs.group_activity_push := true;
+    v_prefs.feed_in_app := true;
+    v_prefs.feed_push := false;
+    v_prefs.quiet_hours_enabled := false;
+  end if;
+
+  if not coalesce((to_jsonb(v_prefs) ->> (p_category || '_' || p_channel))::boolean, false) then
+    return false;
+  end if;
+
+  if p_channel = 'push' and v_prefs.quiet_hours_enabled then
+    v_local_time := (now() at time zone v_prefs.time_zone)::time;
+    if v_prefs.quiet_hours_start <= v_prefs.quiet_hours_end then
+      if v_local_time >= v_prefs.quiet_hours_start and v_local_time < v_prefs.quiet_hours_end then
+        return false;
+      end if;
+    elsif v_local_time >= v_prefs.quiet_hours_start or v_local_time < v_prefs.quiet_hours_end then
+      return false;
+    end if;
+  end if;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.should_notify(uuid, text, text, uuid) from public, anon, authenticated;
+
+-- Notifications now record which channels they go out on. Rows that are push
+-- only stay hidden from the notification center.
+alter table public.notifications
+  add column in_app boolean not null default true,
+  add column push boolean not null default false;
+
+create index notifications_push_idx
+  on public.notifications (created_at)
+  where push;
+
+drop policy "Users can read their own notifications" on public.notifications;
+
+create policy "Users can read their own notifications"
+  on public.notifications for select
+  using (user_id = auth.uid() and in_app);
+
+create or replace function public.notify(
+  p_user_id uuid,
+  p_actor_id uuid,
+  p_type text,
+  p_post_id uuid default null,
+  p_conversation_id uuid default null,
+  p_metadata jsonb default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category text := public.notification_category(p_type);
+  v_in_app boolean;
+  v_push boolean;
+begin
+  if p_user_id is null or p_actor_id is null or p_user_id = p_actor_id then
+    return;
+  end if;
+  if public.is_blocked_between(p_user_id, p_actor_id) then
+    return;
+  end if;
+
+  v_in_app := public.should_notify(p_user_id, v_category, 'in_app', p_conversation_id);
+  v_push := public.should_notify(p_user_id, v_category, 'push', p_conversation_id);
+  if not v_in_app and not v_push then
+    return;
+  end if;
+
+  insert into public.notifications (
+    user_id, actor_id, type, post_id, conversation_id, metadata, in_app, push
+  )
+  values (
+    p_user_id, p_actor_id, p_type, p_post_id, p_conversation_id, p_metadata, v_in_app, v_push
+  );
+end;
+$$;
+
+-- Members who should get a push for a chat message, for the push sender once
+-- there is one
+create or replace function public.get_message_push_recipients(p_message_id uuid)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select cm.user_id
+  from public.messages m
+  join public.conversation_members cm on cm.conversation_id = m.conversation_id
+  where m.id = p_message_id
+    and m.kind = 'text'
+    and cm.user_id <> m.sender_id
+    and not public.is_blocked_between(cm.user_id, m.sender_id)
+    and public.should_notify(cm.user_id, 'messages', 'push', m.conversation_id);
+$$;
+
+revoke execute on function public.get_message_push_recipients(uuid) from public, anon, authenticated;
+
+-- The inbox also reports whether each conversation is muted, and whether its
+-- unread messages should be highlighted at all
+drop function public.get_inbox(integer, timestamptz, uuid);
+
+create function public.get_inbox(
+  p_limit integer default 20,
+  p_before timestamptz default null,
+  p_before_id uuid default null
+)
+returns table (
+  conversation_id uuid,
+  last_message_at timestamptz,
+  is_group boolean,
+  group_name text,
+  group_avatar_url text,
+  other_user_id uuid,
+  other_display_name text,
+  other_username text,
+  other_avatar_url text,
+  last_message_body text,
+  last_message_kind text,
+  last_message_metadata jsonb,
+  last_message_sender_id uuid,
+  unread_count integer,
+  is_muted boolean,
+  notify boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id,
+    c.last_message_at,
+    c.is_group,
+    c.name,
+    c.avatar_url,
+    other.user_id,
+    p.display_name,
+    p.username,
+    p.avatar_url,
+    last_message.body,
+    last_message.kind,
+    last_message.metadata,
+    last_message.sender_id,
+    (
+      select count(*)::integer
+      from public.messages m
+      where m.conversation_id = c.id
+        and m.created_at > me.last_read_at
+        and m.sender_id <> auth.uid()
+    ),
+    public.is_conversation_muted(auth.uid(), c.id),
+    public.should_notify(auth.uid(), 'messages', 'in_app', c.id)
+  from public.conversation_members me
+  join public.conversations c on c.id = me.conversation_id
+  left join lateral (
+    select cm.user_id
+    from public.conversation_members cm
+    where cm.conversation_id = c.id
+      and cm.user_id <> auth.uid()
+      and not c.is_group
+    order by cm.joined_at
+    limit 1
+  ) other on true
+  left join public.profiles p on p.id = other.user_id
+  left join lateral (
+    select m.body, m.kind, m.metadata, m.sender_id
+    from public.messages m
+    where m.conversation_id = c.id
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) last_message on true
+  where me.user_id = auth.uid()
+    and (
+      p_before is null
+      or c.last_message_at < p_before
+      or (c.last_message_at = p_before and c.id < p_before_id)
+    )
+  order by c.last_message_at desc, c.id desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
+
+grant execute on function public.get_inbox(integer, timestamptz, uuid) to authenticated;
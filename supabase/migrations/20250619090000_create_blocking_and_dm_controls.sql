@@ -0,0 +1,312 @@
+-- Blocking now hides messages, profiles and presence in both directions, on top
+-- of the posts and follows it already covered. Direct messages also follow the
+-- recipient's dm_permission: everyone, only people they follow, or only
+-- people from their own university (same email domain).
+
+alter table public.privacy_settings
+  add column dm_permission text not null default 'everyone'
+    check (dm_permission in ('everyone', 'following', 'same_university'));
+
+create or replace function public.email_domain(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select lower(split_part(email, '@', 2)) from auth.users where id = p_user_id;
+$$;
+
+revoke execute on function public.email_domain(uuid) from public, anon, authenticated;
+
+-- Whether p_sender_id may message p_recipient_id directly
+create or replace function public.can_direct_message(p_sender_id uuid, p_recipient_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not public.is_blocked_between(p_sender_id, p_recipient_id)
+    and case coalesce(
+      (select dm_permission from public.privacy_settings where user_id = p_recipient_id),
+      'everyone'
+    )
+      when 'following' then exists (
+        select 1 from public.follows
+        where follower_id = p_recipient_id and followee_id = p_sender_id
+      )
+      when 'same_university' then
+        public.email_domain(p_sender_id) = public.email_domain(p_recipient_id)
+      else true
+    end;
+$$;
+
+revoke execute on function public.can_direct_message(uuid, uuid) from public, anon, authenticated;
+
+-- Whether the caller may post in a conversation: always in groups, and in a
+-- direct conversation only while the other member would accept a new one
+create or replace function public.can_send_in_conversation(p_conversation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select is_group from public.conversations where id = p_conversation_id), false)
+    or not exists (
+      select 1 from public.conversation_members
+      where conversation_id = p_conversation_id
+        and user_id <> auth.uid()
+        and not public.can_direct_message(auth.uid(), user_id)
+    );
+$$;
+
+-- Restrictive policies are combined with the existing ones using AND
+create policy "Messages from blocked users are hidden"
+  on public.messages as restrictive for select
+  to authenticated
+  using (sender_id = auth.uid() or not public.is_blocked_between(auth.uid(), sender_id));
+
+create policy "Messages respect blocks and DM settings"
+  on public.messages as restrictive for insert
+  to authenticated
+  with check (public.can_send_in_conversation(conversation_id));
+
+create policy "Profiles of blocked users are hidden"
+  on public.profiles as restrictive for select
+  to authenticated
+  using (not public.is_blocked_between(auth.uid(), id));
+
+-- Starting a new direct conversation checks the recipient's DM setting.
+-- Existing ones can still be opened, but sending is refused by the policy above.
+create or replace function public.get_or_create_direct_conversation(p_other_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_conversation_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_other_user_id is null or p_other_user_id = v_user_id then
+    raise exception 'Invalid participant' using errcode = '22023';
+  end if;
+
+  if public.is_blocked_between(v_user_id, p_other_user_id) then
+    raise exception 'Cannot message this user' using errcode = '42501';
+  end if;
+
+  -- A group that happens to have just the two of them is not their direct
+  -- conversation
+  select m1.conversation_id into v_conversation_id
+  from public.conversation_members m1
+  join public.conversation_members m2
+    on m2.conversation_id = m1.conversation_id
+  join public.conversations c on c.id = m1.conversation_id
+  where m1.user_id = v_user_id
+    and m2.user_id = p_other_user_id
+    and not c.is_group
+    and (
+      select count(*) from public.conversation_members m3
+      where m3.conversation_id = m1.conversation_id
+    ) = 2
+  limit 1;
+
+  if v_conversation_id is not null then
+    return v_conversation_id;
+  end if;
+
+  if not public.can_direct_message(v_user_id, p_other_user_id) then
+    raise exception 'This user does not accept messages from you' using errcode = '42501';
+  end if;
+
+  insert into public.conversations default values
+  returning id into v_conversation_id;
+
+  insert into public.conversation_members (conversation_id, user_id)
+  values (v_conversation_id, v_user_id), (v_conversation_id, p_other_user_id);
+
+  return v_conversation_id;
+end;
+$$;
+
+-- The inbox leaves out direct conversations with blocked users, and ignores
+-- blocked group members' messages for previews and unread counts
+create or replace function public.get_inbox(
+  p_limit integer default 20,
+  p_before timestamptz default null,
+  p_before_id uuid default null
+)
+returns table (
+  conversation_id uuid,
+  last_message_at timestamptz,
+  is_group boolean,
+  group_name text,
+  group_avatar_url text,
+  other_user_id uuid,
+  other_display_name text,
+  other_username text,
+  other_avatar_url text,
+  last_message_body text,
+  last_message_kind text,
+  last_message_metadata jsonb,
+  last_message_sender_id uuid,
+  unread_count integer,
+  is_muted boolean,
+  notify boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id,
+    c.last_message_at,
+    c.is_group,
+    c.name,
+    c.avatar_url,
+    other.user_id,
+    p.display_name,
+    p.username,
+    p.avatar_url,
+    last_message.body,
+    last_message.kind,
+    last_message.metadata,
+    last_message.sender_id,
+    (
+      select count(*)::integer
+      from public.messages m
+      where m.conversation_id = c.id
+        and m.created_at > me.last_read_at
+        and m.sender_id <> auth.uid()
+        and not public.is_blocked_between(auth.uid(), m.sender_id)
+    ),
+    public.is_conversation_muted(auth.uid(), c.id),
+    public.should_notify(auth.uid(), 'messages', 'in_app', c.id)
+  from public.conversation_members me
+  join public.conversations c on c.id = me.conversation_id
+  left join lateral (
+    select cm.user_id
+    from public.conversation_members cm
+    where cm.conversation_id = c.id
+      and cm.user_id <> auth.uid()
+      and not c.is_group
+    order by cm.joined_at
+    limit 1
+  ) other on true
+  left join public.profiles p on p.id = other.user_id
+  left join lateral (
+    select m.body, m.kind, m.metadata, m.sender_id
+    from public.messages m
+    where m.conversation_id = c.id
+      and (m.sender_id = auth.uid() or not public.is_blocked_between(auth.uid(), m.sender_id))
+    order by m.created_at desc, m.id desc
+    limit 1
+  ) last_message on true
+  where me.user_id = auth.uid()
+    and (other.user_id is null or not public.is_blocked_between(auth.uid(), other.user_id))
+    and (
+      p_before is null
+      or c.last_message_at < p_before
+      or (c.last_message_at = p_before and c.id < p_before_id)
+    )
+  order by c.last_message_at desc, c.id desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
+
+-- Making an account public approves everyone still waiting
+create or replace function public.approve_follow_requests_on_public()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.private_account and not new.private_account then
+    insert into public.follows (follower_id, followee_id)
+    select requester_id, target_id
+    from public.follow_requests
+    where target_id = new.user_id
+    on conflict do nothing;
+
+    delete from public.follow_requests where target_id = new.user_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger privacy_settings_approve_follow_requests
+  after update of private_account on public.privacy_settings
+  for each row execute function public.approve_follow_requests_on_public();
+
+-- People the caller has blocked, most recent first
+create or replace function public.get_blocked_users()
+returns table (
+  user_id uuid,
+  display_name text,
+  username text,
+  avatar_url text,
+  blocked_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.display_name, p.username, p.avatar_url, b.created_at
+  from public.blocks b
+  join public.profiles p on p.id = b.blocked_id
+  where b.blocker_id = auth.uid()
+  order by b.created_at desc;
+$$;
+
+-- Online state is hidden across blocks as well, which keeps blocked users out
+-- of each other's presence channels
+create or replace function public.can_see_presence_of(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_user_id = auth.uid()
+    or (
+      not public.is_blocked_between(auth.uid(), p_user_id)
+      and not coalesce(
+        (select hide_last_seen from public.privacy_settings where user_id = p_user_id),
+        false
+      )
+      and exists (
+        select 1
+        from public.conversation_members mine
+        join public.conversation_members theirs on theirs.conversation_id = mine.conversation_id
+        where mine.user_id = auth.uid()
+          and theirs.user_id = p_user_id
+      )
+    );
+$$;
+
+-- Last-seen times are hidden across blocks as well
+create or replace function public.get_last_seen(p_user_ids uuid[])
+returns table (user_id uuid, last_seen_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select up.user_id, up.last_seen_at
+  from public.user_presence up
+  left join public.privacy_settings ps on ps.user_id = up.user_id
+  where up.user_id = any (p_user_ids)
+    and not coalesce(ps.hide_last_seen, false)
+    and not public.is_blocked_between(auth.uid(), up.user_id);
+$$;
+
+grant execute on function public.get_blocked_users() to authenticated;
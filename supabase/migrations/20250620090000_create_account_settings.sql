@@ -0,0 +1,135 @@
+-- Account settings: editing the profile after onboarding, changing the
+-- username (at most once every 14 days) and deleting the account.
+
+alter table public.profiles
+  add column if not exists username_changed_at timestamptz;
+
+create or replace function public.is_valid_username(p_username text)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(p_username ~ '^[A-Za-z0-9_.]{3,30}$', false);
+$$;
+
+-- Whether the caller could take a username. Case is ignored, and the
+-- caller's own username counts as available.
+create or replace function public.is_username_available(p_username text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_valid_username(p_username)
+    and not exists (
+      select 1 from public.profiles
+      where lower(username) = lower(p_username) and id <> auth.uid()
+    );
+$$;
+
+create or replace function public.update_profile(
+  p_display_name text,
+  p_bio text default null,
+  p_avatar_url text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if char_length(trim(coalesce(p_display_name, ''))) not between 1 and 50 then
+    raise exception 'Display name must be 1 to 50 characters' using errcode = '22023';
+  end if;
+
+  update public.profiles
+  set display_name = trim(p_display_name),
+    bio = nullif(trim(p_bio), ''),
+    avatar_url = nullif(trim(p_avatar_url), '')
+  where id = auth.uid();
+
+  if not found then
+    raise exception 'Profile not found' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+-- Change the caller's username and return when it was changed. Too soon after
+-- the last change raises 54000; a taken username raises 23505.
+create or replace function public.change_username(p_username text)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles;
+begin
+  select * into v_profile
+  from public.profiles
+  where id = auth.uid()
+  for update;
+
+  if v_profile.id is null then
+    raise exception 'Profile not found' using errcode = 'P0002';
+  end if;
+  if v_profile.username = p_username then
+    return v_profile.username_changed_at;
+  end if;
+  if not public.is_valid_username(p_username) then
+    raise exception 'Invalid username' using errcode = '22023';
+  end if;
+  if v_profile.username_changed_at > now() - interval '14 days' then
+    raise exception 'Username was changed recently' using errcode = '54000';
+  end if;
+  if not public.is_username_available(p_username) then
+    raise exception 'Username is taken' using errcode = '23505';
+  end if;
+
+  update public.profiles
+  set username = p_username, username_changed_at = now()
+  where id = auth.uid();
+
+  return now();
+exception
+  when unique_violation then
+    raise exception 'Username is taken' using errcode = '23505';
+end;
+$$;
+
+-- Delete the caller's account. Groups get a new admin as if the user had left;
+-- everything else that references the user (messages, posts, follows, blocks,
+-- settings) is removed along with the auth user.
+create or replace function public.delete_account()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_conversation_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  for v_conversation_id in
+    select cm.conversation_id
+    from public.conversation_members cm
+    join public.conversations c on c.id = cm.conversation_id
+    where cm.user_id = v_user_id and c.is_group
+  loop
+    perform public.leave_group(v_conversation_id);
+  end loop;
+
+  delete from public.profiles where id = v_user_id;
+  delete from auth.users where id = v_user_id;
+end;
+$$;
+
+grant execute on function public.is_username_available(text) to authenticated;
+grant execute on function public.update_profile(text, text, text) to authenticated;
+grant execute on function public.change_username(text) to authenticated;
+grant execute on function public.delete_account() to authenticated;
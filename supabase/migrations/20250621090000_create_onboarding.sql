@@ -0,0 +1,60 @@
+-- Multi-step onboarding: profiles gain interests, and complete_onboarding
+-- validates every field before handing over to complete_user_profile.
+-- Validation failures carry the offending field in the error hint and the
+-- reason in the SQLSTATE: 22023 for an invalid value, 23505 for a taken username.
+
+alter table public.profiles
+  add column if not exists interests text[] not null default '{}'
+    check (cardinality(interests) <= 5);
+
+create or replace function public.complete_onboarding(
+  p_display_name text,
+  p_username text,
+  p_avatar_url text,
+  p_interests text[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+  if char_length(trim(coalesce(p_display_name, ''))) not between 1 and 50 then
+    raise exception 'Display name must be 1 to 50 characters'
+      using errcode = '22023', hint = 'display_name';
+  end if;
+  if not public.is_valid_username(p_username) then
+    raise exception 'Invalid username' using errcode = '22023', hint = 'username';
+  end if;
+  if not public.is_username_available(p_username) then
+    raise exception 'Username is taken' using errcode = '23505', hint = 'username';
+  end if;
+  if nullif(trim(p_avatar_url), '') is not null and p_avatar_url !~ '^https?://' then
+    raise exception 'Invalid avatar URL' using errcode = '22023', hint = 'avatar_url';
+  end if;
+  if cardinality(coalesce(p_interests, '{}')) not between 1 and 5
+    or exists (select 1 from unnest(p_interests) i where i !~ '^[a-z_]{1,30}$') then
+    raise exception 'Choose 1 to 5 interests' using errcode = '22023', hint = 'interests';
+  end if;
+
+  begin
+    perform public.complete_user_profile(
+      trim(p_display_name),
+      p_username,
+      nullif(trim(p_avatar_url), '')
+    );
+  exception
+    when unique_violation then
+      raise exception 'Username is taken' using errcode = '23505', hint = 'username';
+  end;
+
+  update public.profiles
+  set interests = (select array_agg(distinct i) from unnest(p_interests) i)
+  where id = auth.uid();
+end;
+$$;
+
+grant execute on function public.complete_onboarding(text, text, text, text[]) to authenticated;